@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  InMemoryHydrationCache,
+  type HydrationCacheEntry,
+} from "./hydration-cache";
+
+function entry(checkpointId: string): HydrationCacheEntry {
+  return {
+    checkpointId,
+    runId: "run-1",
+    messages: [],
+    interrupts: [],
+    next: [],
+  };
+}
+
+describe("InMemoryHydrationCache", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("returns the entry built from the given checkpoint", () => {
+    const cache = new InMemoryHydrationCache();
+    cache.set("t1", entry("c1"));
+
+    expect(cache.get("t1", "c1")).toEqual(entry("c1"));
+    expect(cache.get("t2", "c1")).toBeUndefined();
+  });
+
+  it("drops the entry once the head checkpoint moved on", () => {
+    const cache = new InMemoryHydrationCache();
+    cache.set("t1", entry("c1"));
+
+    expect(cache.get("t1", "c2")).toBeUndefined();
+    // Gone, even for the checkpoint it was built from
+    expect(cache.get("t1", "c1")).toBeUndefined();
+  });
+
+  it("expires entries after the TTL", () => {
+    const cache = new InMemoryHydrationCache({ ttlMs: 1000 });
+    cache.set("t1", entry("c1"));
+
+    vi.advanceTimersByTime(999);
+    expect(cache.get("t1", "c1")).toBeDefined();
+    vi.advanceTimersByTime(1);
+    expect(cache.get("t1", "c1")).toBeUndefined();
+  });
+
+  it("evicts the least recently used thread", () => {
+    const cache = new InMemoryHydrationCache({ maxEntries: 2 });
+    cache.set("t1", entry("c1"));
+    cache.set("t2", entry("c2"));
+    // Reading t1 makes t2 the least recently used
+    cache.get("t1", "c1");
+    cache.set("t3", entry("c3"));
+
+    expect(cache.get("t1", "c1")).toBeDefined();
+    expect(cache.get("t2", "c2")).toBeUndefined();
+    expect(cache.get("t3", "c3")).toBeDefined();
+  });
+
+  it("invalidates one thread or clears all of them", () => {
+    const cache = new InMemoryHydrationCache();
+    cache.set("t1", entry("c1"));
+    cache.set("t2", entry("c2"));
+
+    cache.invalidate("t1");
+    expect(cache.get("t1", "c1")).toBeUndefined();
+    expect(cache.get("t2", "c2")).toBeDefined();
+
+    cache.clear();
+    expect(cache.get("t2", "c2")).toBeUndefined();
+  });
+});
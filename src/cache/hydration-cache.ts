@@ -0,0 +1,172 @@
+import type { MessageBranchPoint } from "../utils/checkpoint-tree";
+import type { PendingInterrupt } from "../utils/interrupts";
+import type { TransformedMessage } from "../utils/message-transformer";
+
+/**
+ * Hydration result for a thread at a given head checkpoint.
+ * Everything connect() needs to replay the hydration without calling LangGraph.
+ */
+export interface HydrationCacheEntry {
+  /**
+   * Head checkpoint the entry was built from.
+   */
+  checkpointId: string;
+
+  /**
+   * Run ID used for the hydration events.
+   */
+  runId: string;
+
+  /**
+   * Transformed messages of the newest history page.
+   */
+  messages: TransformedMessage[];
+
+  /**
+   * Cursor for older messages, if any.
+   */
+  cursor?: string;
+
+  /**
+   * Forks along the hydrated branch, if any.
+   */
+  branches?: MessageBranchPoint[];
+
+  /**
+   * Head checkpoint state values.
+   */
+  state?: Record<string, unknown>;
+
+  /**
+   * Pending interrupts of the head checkpoint.
+   */
+  interrupts: PendingInterrupt[];
+
+  /**
+   * Nodes scheduled to run next at the head checkpoint.
+   */
+  next: string[];
+
+  /**
+   * Superstep of the head checkpoint, if known.
+   */
+  step?: number;
+}
+
+/**
+ * Storage for hydration results, keyed by thread ID and head checkpoint ID.
+ *
+ * Implementations may be synchronous (in-memory) or asynchronous (Redis, KV).
+ * The runner invalidates a thread when run() is called on it, and only uses
+ * an entry when its checkpoint matches the thread's current head.
+ */
+export interface HydrationCache {
+  /**
+   * Returns the entry for the thread if it was built from `checkpointId`.
+   */
+  get(
+    threadId: string,
+    checkpointId: string
+  ): HydrationCacheEntry | undefined | Promise<HydrationCacheEntry | undefined>;
+
+  /**
+   * Stores the entry for the thread, replacing entries for older checkpoints.
+   */
+  set(threadId: string, entry: HydrationCacheEntry): void | Promise<void>;
+
+  /**
+   * Removes all entries for the thread.
+   */
+  invalidate(threadId: string): void | Promise<void>;
+}
+
+/**
+ * Options for InMemoryHydrationCache.
+ */
+export interface InMemoryHydrationCacheOptions {
+  /**
+   * Maximum number of threads kept in the cache.
+   * Least recently used threads are evicted first.
+   * Default: 500
+   */
+  maxEntries?: number;
+
+  /**
+   * Time-to-live of an entry in milliseconds.
+   * Default: 300000 (5 minutes)
+   */
+  ttlMs?: number;
+}
+
+/**
+ * In-memory LRU hydration cache with TTL.
+ *
+ * Keeps one entry per thread. Suited to long-lived servers; in serverless
+ * environments each instance has its own cache, so prefer a shared store.
+ *
+ * @example
+ * ```typescript
+ * const runner = new HistoryHydratingAgentRunner({
+ *   // ...
+ *   cache: new InMemoryHydrationCache({ maxEntries: 1000, ttlMs: 60_000 }),
+ * });
+ * ```
+ */
+export class InMemoryHydrationCache implements HydrationCache {
+  private readonly maxEntries: number;
+  private readonly ttlMs: number;
+  private readonly entries = new Map<
+    string,
+    { entry: HydrationCacheEntry; expiresAt: number }
+  >();
+
+  constructor(options: InMemoryHydrationCacheOptions = {}) {
+    this.maxEntries = Math.max(1, options.maxEntries ?? 500);
+    this.ttlMs = options.ttlMs ?? 5 * 60 * 1000;
+  }
+
+  get(threadId: string, checkpointId: string): HydrationCacheEntry | undefined {
+    const cached = this.entries.get(threadId);
+    if (!cached) {
+      return undefined;
+    }
+
+    // Expired, or the head checkpoint moved on since the entry was built
+    if (
+      cached.expiresAt <= Date.now() ||
+      cached.entry.checkpointId !== checkpointId
+    ) {
+      this.entries.delete(threadId);
+      return undefined;
+    }
+
+    // Re-insert to mark as most recently used (Map keeps insertion order)
+    this.entries.delete(threadId);
+    this.entries.set(threadId, cached);
+    return cached.entry;
+  }
+
+  set(threadId: string, entry: HydrationCacheEntry): void {
+    this.entries.delete(threadId);
+    this.entries.set(threadId, { entry, expiresAt: Date.now() + this.ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  invalidate(threadId: string): void {
+    this.entries.delete(threadId);
+  }
+
+  /**
+   * Removes all entries.
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
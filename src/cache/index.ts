@@ -0,0 +1,6 @@
+export {
+  InMemoryHydrationCache,
+  type HydrationCache,
+  type HydrationCacheEntry,
+  type InMemoryHydrationCacheOptions,
+} from "./hydration-cache";
@@ -0,0 +1,11 @@
+export {
+  LangGraphRequestError,
+  ThreadNotFoundError,
+  RunNotFoundError,
+  CheckpointNotFoundError,
+  UnauthorizedError,
+  DeploymentUnreachableError,
+  RequestTimeoutError,
+} from "./langgraph-errors";
+export { ThreadAccessDeniedError } from "./thread-access-errors";
+export { InvalidTranscriptError } from "./transcript-errors";
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  CheckpointNotFoundError,
+  DeploymentUnreachableError,
+  LangGraphRequestError,
+  RequestTimeoutError,
+  RunNotFoundError,
+  ThreadNotFoundError,
+  toLangGraphRequestError,
+  UnauthorizedError,
+} from "./langgraph-errors";
+
+function httpError(status: number): Error {
+  return Object.assign(new Error(`HTTP ${status}`), { status });
+}
+
+describe("toLangGraphRequestError", () => {
+  it.each([
+    [404, undefined, ThreadNotFoundError, "THREAD_NOT_FOUND"],
+    [404, "run", RunNotFoundError, "RUN_NOT_FOUND"],
+    [404, "checkpoint", CheckpointNotFoundError, "CHECKPOINT_NOT_FOUND"],
+    [401, undefined, UnauthorizedError, "UNAUTHORIZED"],
+    [403, undefined, UnauthorizedError, "UNAUTHORIZED"],
+    [408, undefined, RequestTimeoutError, "TIMEOUT"],
+    [504, undefined, RequestTimeoutError, "TIMEOUT"],
+    [502, undefined, DeploymentUnreachableError, "DEPLOYMENT_UNREACHABLE"],
+    [503, undefined, DeploymentUnreachableError, "DEPLOYMENT_UNREACHABLE"],
+    [500, undefined, LangGraphRequestError, "LANGGRAPH_REQUEST_FAILED"],
+  ] as const)(
+    "maps HTTP %i (resource: %s) to a typed error",
+    (status, resource, errorClass, code) => {
+      const cause = httpError(status);
+
+      const error = toLangGraphRequestError(cause, {
+        operation: "getState",
+        threadId: "t1",
+        resource,
+      });
+
+      expect(error).toBeInstanceOf(errorClass);
+      expect(error).toMatchObject({
+        code,
+        status,
+        threadId: "t1",
+        cause,
+        name: errorClass.name,
+      });
+      expect(error.message).toContain("getState");
+    }
+  );
+
+  it.each([
+    ["a failed fetch", new TypeError("fetch failed")],
+    [
+      "a refused connection",
+      new Error("connect failed", { cause: { code: "ECONNREFUSED" } }),
+    ],
+  ])("reports %s as an unreachable deployment", (_label, cause) => {
+    expect(
+      toLangGraphRequestError(cause, { operation: "getState" })
+    ).toBeInstanceOf(DeploymentUnreachableError);
+  });
+
+  it("reports client timeouts", () => {
+    const cause = new DOMException("The operation timed out", "TimeoutError");
+
+    const error = toLangGraphRequestError(cause, { operation: "getState" });
+
+    expect(error).toBeInstanceOf(RequestTimeoutError);
+    expect(error.status).toBeUndefined();
+  });
+
+  it("returns typed errors unchanged", () => {
+    const error = new ThreadNotFoundError("Thread t1 not found");
+
+    expect(toLangGraphRequestError(error, { operation: "getState" })).toBe(
+      error
+    );
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Base class for failed LangGraph API calls made by the runner.
+ */
+export class LangGraphRequestError extends Error {
+  /**
+   * Stable error code, also used as the `code` of RUN_ERROR events.
+   */
+  readonly code: string = "LANGGRAPH_REQUEST_FAILED";
+
+  /**
+   * HTTP status of the failed response, if one was received.
+   */
+  readonly status?: number;
+
+  /**
+   * Thread the request was made for, if any.
+   */
+  readonly threadId?: string;
+
+  constructor(
+    message: string,
+    options: { status?: number; threadId?: string; cause?: unknown } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.status = options.status;
+    this.threadId = options.threadId;
+  }
+}
+
+/**
+ * The thread does not exist on the deployment (HTTP 404).
+ */
+export class ThreadNotFoundError extends LangGraphRequestError {
+  override readonly code = "THREAD_NOT_FOUND";
+}
+
+/**
+ * The run does not exist on the thread (HTTP 404).
+ */
+export class RunNotFoundError extends LangGraphRequestError {
+  override readonly code = "RUN_NOT_FOUND";
+}
+
+/**
+ * The checkpoint does not exist on the thread (HTTP 404).
+ */
+export class CheckpointNotFoundError extends LangGraphRequestError {
+  override readonly code = "CHECKPOINT_NOT_FOUND";
+}
+
+/**
+ * Resource a LangGraph call addresses, used to type HTTP 404 errors.
+ */
+export type LangGraphResource = "thread" | "run" | "checkpoint";
+
+/**
+ * The API key was rejected (HTTP 401 or 403).
+ */
+export class UnauthorizedError extends LangGraphRequestError {
+  override readonly code = "UNAUTHORIZED";
+}
+
+/**
+ * The deployment could not be reached: network failure, or HTTP 502/503.
+ */
+export class DeploymentUnreachableError extends LangGraphRequestError {
+  override readonly code = "DEPLOYMENT_UNREACHABLE";
+}
+
+/**
+ * The request timed out on the client (`clientTimeoutMs`) or at a gateway
+ * (HTTP 408 or 504).
+ */
+export class RequestTimeoutError extends LangGraphRequestError {
+  override readonly code = "TIMEOUT";
+}
+
+/**
+ * Network error codes that mean the deployment could not be reached.
+ */
+const UNREACHABLE_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_SOCKET",
+]);
+
+/**
+ * Converts an error thrown by the LangGraph SDK into a typed error.
+ * Errors that are already typed are returned unchanged.
+ *
+ * @param error - Error thrown by a Client call
+ * @param context.operation - Name of the call, used in the message
+ * @param context.threadId - Thread the call was made for
+ * @param context.resource - What a 404 means was not found. Default: "thread"
+ */
+export function toLangGraphRequestError(
+  error: unknown,
+  context: {
+    operation: string;
+    threadId?: string;
+    resource?: LangGraphResource;
+  }
+): LangGraphRequestError {
+  if (error instanceof LangGraphRequestError) {
+    return error;
+  }
+
+  const { operation, threadId } = context;
+  const details = error instanceof Error ? error.message : String(error);
+  const status = (error as { status?: unknown } | null)?.status;
+  const options = {
+    status: typeof status === "number" ? status : undefined,
+    threadId,
+    cause: error,
+  };
+
+  switch (options.status) {
+    case 404:
+      switch (context.resource) {
+        case "run":
+          return new RunNotFoundError(
+            `Run of thread ${threadId ?? "(unknown)"} not found (${operation})`,
+            options
+          );
+        case "checkpoint":
+          return new CheckpointNotFoundError(
+            `Checkpoint of thread ${threadId ?? "(unknown)"} not found (${operation})`,
+            options
+          );
+        default:
+          return new ThreadNotFoundError(
+            `Thread ${threadId ?? "(unknown)"} not found (${operation})`,
+            options
+          );
+      }
+    case 401:
+    case 403:
+      return new UnauthorizedError(
+        `Unauthorized LangGraph request (${operation}): ${details}`,
+        options
+      );
+    case 408:
+    case 504:
+      return new RequestTimeoutError(
+        `LangGraph request timed out (${operation}): ${details}`,
+        options
+      );
+    case 502:
+    case 503:
+      return new DeploymentUnreachableError(
+        `LangGraph deployment unavailable (${operation}): ${details}`,
+        options
+      );
+  }
+
+  if (options.status === undefined) {
+    const name = (error as { name?: unknown } | null)?.name;
+    if (name === "TimeoutError" || details.startsWith("TimeoutError")) {
+      return new RequestTimeoutError(
+        `LangGraph request timed out (${operation})`,
+        options
+      );
+    }
+
+    const cause = (error as { cause?: { code?: unknown } } | null)?.cause;
+    const code = (error as { code?: unknown } | null)?.code ?? cause?.code;
+    if (
+      (typeof code === "string" && UNREACHABLE_ERROR_CODES.has(code)) ||
+      (error instanceof TypeError && details === "fetch failed")
+    ) {
+      return new DeploymentUnreachableError(
+        `LangGraph deployment unreachable (${operation}): ${details}`,
+        options
+      );
+    }
+  }
+
+  return new LangGraphRequestError(
+    `LangGraph request failed (${operation}): ${details}`,
+    options
+  );
+}
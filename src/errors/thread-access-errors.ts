@@ -0,0 +1,21 @@
+/**
+ * Access to a thread was refused by the runner's ownership policy or its
+ * `authorizeThread` hook.
+ */
+export class ThreadAccessDeniedError extends Error {
+  /**
+   * Stable error code, also used as the `code` of RUN_ERROR events.
+   */
+  readonly code = "THREAD_ACCESS_DENIED";
+
+  /**
+   * Thread access was requested for.
+   */
+  readonly threadId: string;
+
+  constructor(message: string, options: { threadId: string; cause?: unknown }) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.threadId = options.threadId;
+  }
+}
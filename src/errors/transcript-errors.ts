@@ -0,0 +1,21 @@
+/**
+ * Messages passed to importThread() can't be converted to a valid
+ * LangGraph conversation, e.g. a tool result without a matching tool call.
+ */
+export class InvalidTranscriptError extends Error {
+  /**
+   * Stable error code.
+   */
+  readonly code = "INVALID_TRANSCRIPT";
+
+  /**
+   * Index of the offending message, when the error concerns one message.
+   */
+  readonly messageIndex?: number;
+
+  constructor(message: string, options: { messageIndex?: number } = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.messageIndex = options.messageIndex;
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * Custom event names emitted by the runner during hydration.
+ * Frontends can listen for these to drive history-related UI.
+ */
+export enum HydrationEventNames {
+  /** Pagination cursor for older messages, or a page of older messages. */
+  HistoryPage = "history_page",
+  /**
+   * Hydrated from a past checkpoint or a branch other than the head; the
+   * session must not start runs.
+   */
+  ReadOnly = "hydration_read_only",
+  /** Forks along the hydrated branch, for rendering a branch switcher. */
+  MessageBranches = "message_branches",
+}
@@ -1,2 +1,3 @@
 export { CustomEventNames } from "./custom-events";
+export { HydrationEventNames } from "./hydration-events";
 export { LangGraphEventTypes } from "./langgraph-events";
@@ -9,16 +9,117 @@
 
 // Core exports
 export { HistoryHydratingAgentRunner } from "./runner/history-hydrating-runner";
+export {
+  MultiAgentHistoryRunner,
+  type MultiAgentConnectRequest,
+} from "./runner/multi-agent-runner";
 export {
   createIsolatedAgent,
   type CreateIsolatedAgentConfig,
 } from "./utils/create-isolated-agent";
 
+export {
+  InMemoryHydrationCache,
+  type HydrationCache,
+  type HydrationCacheEntry,
+  type InMemoryHydrationCacheOptions,
+} from "./cache/hydration-cache";
+
+// Threads
+export {
+  ThreadDirectory,
+  type ThreadDirectoryBackend,
+  type ThreadDirectoryOptions,
+  type ThreadPreview,
+  type ThreadSearchOptions,
+  type ThreadSearchPage,
+  type ThreadStatus,
+  type ThreadSummary,
+} from "./threads/thread-directory";
+export {
+  ThreadManager,
+  type ManagedThread,
+  type ThreadManagerBackend,
+} from "./threads/thread-manager";
+export { getThreadLabels, type ThreadLabels } from "./threads/thread-metadata";
+export {
+  createThreadTranscript,
+  type ThreadTranscript,
+  type TranscriptMessage,
+  type TranscriptToolCall,
+  type TranscriptToolResult,
+} from "./threads/thread-transcript";
+export {
+  renderTranscriptHtml,
+  renderTranscriptMarkdown,
+} from "./threads/transcript-renderers";
+
+// Errors
+export {
+  LangGraphRequestError,
+  ThreadNotFoundError,
+  RunNotFoundError,
+  CheckpointNotFoundError,
+  UnauthorizedError,
+  DeploymentUnreachableError,
+  RequestTimeoutError,
+} from "./errors/langgraph-errors";
+export { ThreadAccessDeniedError } from "./errors/thread-access-errors";
+export { InvalidTranscriptError } from "./errors/transcript-errors";
+
+// Logging
+export {
+  createConsoleLogger,
+  createRedactingLogger,
+  redactLogFields,
+  noopLogger,
+  type ConsoleLoggerOptions,
+  type LogFields,
+  type Logger,
+  type RedactionOptions,
+} from "./logging/logger";
+
+// Telemetry
+export {
+  TELEMETRY_SCOPE,
+  type TelemetryAttributes,
+  type TelemetryCounter,
+  type TelemetryHistogram,
+  type TelemetryMeter,
+  type TelemetryMeterProvider,
+  type TelemetryOptions,
+  type TelemetrySpan,
+  type TelemetryTracer,
+  type TelemetryTracerProvider,
+} from "./telemetry/telemetry";
+
 // Types
 export type {
+  AgentTarget,
   HistoryHydratingRunnerConfig,
+  HydrationFailureMode,
+  CancelAction,
+  HistoryConnectRequest,
+  HistoryForwardedProps,
+  HydrationHookContext,
+  HydrationStrategy,
+  ImportedThread,
+  ImportThreadOptions,
+  MultiAgentRunnerConfig,
+  ResolvedTarget,
+  RetryPolicy,
+  RunHookContext,
+  RunnerHooks,
+  RunnerRequest,
   StateExtractor,
+  StateProjectionOptions,
+  StreamReconnectOptions,
   LangGraphMessage,
+  MessageRedactionOptions,
+  ThreadAccessContext,
+  ThreadAccessRequest,
+  ThreadOperation,
+  ThreadOwnershipPolicy,
   ThreadState,
   FrozenAgentConfig,
   PredictStateTool,
@@ -28,21 +129,74 @@ export type {
 export {
   DEFAULT_TIMEOUT,
   DEFAULT_HISTORY_LIMIT,
+  DEFAULT_RETRY_POLICY,
+  DEFAULT_RUNNING_STATUS_TTL,
+  DEFAULT_STREAM_RECONNECT,
   MAX_HISTORY_LIMIT,
+  FORK_METADATA_KEY,
+  STATE_TRUNCATED_KEY,
+  THREAD_METADATA_KEYS,
+  TRANSCRIPT_FORMAT_VERSION,
 } from "./runner/constants";
 
 // Event enums
 export { CustomEventNames } from "./events/custom-events";
+export { HydrationEventNames } from "./events/hydration-events";
 export { LangGraphEventTypes } from "./events/langgraph-events";
 
 // Utilities (advanced usage)
+export {
+  createRegexRedactor,
+  redactMessage,
+  REDACTION_PATTERNS,
+  StreamRedactor,
+  type MessageRedactionContext,
+  type MessageRedactor,
+  type RedactionPattern,
+} from "./utils/message-redaction";
 export {
   transformMessages,
   extractContent,
   type TransformedMessage,
 } from "./utils/message-transformer";
+export {
+  toLangGraphMessages,
+  type ImportableMessage,
+  type OpenAIChatMessage,
+} from "./utils/message-import";
+export {
+  encodeHistoryCursor,
+  decodeHistoryCursor,
+  type HistoryCursor,
+  type HistoryPage,
+} from "./utils/history-pagination";
+export {
+  resolveHydrationWindow,
+  type HydrationWindow,
+} from "./utils/hydration-strategy";
+export {
+  getCheckpointLineage,
+  findCheckpointBeforeMessage,
+  getMessageBranches,
+  type MessageBranchPoint,
+} from "./utils/checkpoint-tree";
+export {
+  applyEventMiddleware,
+  type EventMiddleware,
+  type EventMiddlewareContext,
+} from "./utils/event-middleware";
+export {
+  getPendingInterrupts,
+  type PendingInterrupt,
+} from "./utils/interrupts";
+export {
+  createStateProjector,
+  createStateProjectionMiddleware,
+  type StateProjector,
+} from "./utils/state-projection";
 export {
   processStreamChunk,
   type StreamProcessorContext,
+  type ReplayFilter,
   type StreamChunk,
 } from "./utils/stream-processor";
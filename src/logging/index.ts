@@ -0,0 +1,10 @@
+export {
+  createConsoleLogger,
+  createRedactingLogger,
+  redactLogFields,
+  noopLogger,
+  type ConsoleLoggerOptions,
+  type LogFields,
+  type Logger,
+  type RedactionOptions,
+} from "./logger";
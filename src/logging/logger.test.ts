@@ -0,0 +1,183 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  createConsoleLogger,
+  createRedactingLogger,
+  redactLogFields,
+  type LogFields,
+  type Logger,
+} from "./logger";
+
+/**
+ * Logger recording its entries, with the bindings of child loggers merged
+ * in unless `withChild` is false.
+ */
+function createRecordingLogger(
+  entries: Array<[string, LogFields, string | undefined]>,
+  withChild = true,
+  bindings: LogFields = {}
+): Logger {
+  const record = (level: string) => (fields: LogFields, message?: string) =>
+    entries.push([level, { ...bindings, ...fields }, message]);
+  return {
+    debug: record("debug"),
+    info: record("info"),
+    warn: record("warn"),
+    error: record("error"),
+    ...(withChild
+      ? {
+          child: (childBindings: LogFields) =>
+            createRecordingLogger(entries, true, {
+              ...bindings,
+              ...childBindings,
+            }),
+        }
+      : {}),
+  };
+}
+
+describe("redactLogFields", () => {
+  it("redacts credential fields by the end of their name", () => {
+    expect(
+      redactLogFields({
+        apiKey: "k",
+        "x-api-key": "k",
+        accessToken: "t",
+        Authorization: "Bearer t",
+        client_secret: "s",
+        "set-cookie": "c",
+        max_tokens: 1024,
+        tokenCount: 12,
+      })
+    ).toEqual({
+      apiKey: "[REDACTED]",
+      "x-api-key": "[REDACTED]",
+      accessToken: "[REDACTED]",
+      Authorization: "[REDACTED]",
+      client_secret: "[REDACTED]",
+      "set-cookie": "[REDACTED]",
+      max_tokens: 1024,
+      tokenCount: 12,
+    });
+  });
+
+  it("redacts message content unless disabled", () => {
+    const fields = { threadId: "t1", content: "hello", args: { q: "x" } };
+
+    expect(redactLogFields(fields)).toEqual({
+      threadId: "t1",
+      content: "[REDACTED]",
+      args: "[REDACTED]",
+    });
+    expect(redactLogFields(fields, { redactContent: false })).toEqual(fields);
+  });
+
+  it("keeps the stack, cause and own fields of errors", () => {
+    const cause = Object.assign(new Error("socket hang up"), {
+      headers: { authorization: "Bearer t" },
+    });
+    const error = Object.assign(new Error("Request failed", { cause }), {
+      status: 503,
+      apiKey: "k",
+    });
+
+    const result = redactLogFields({ err: error }) as {
+      err: Record<string, unknown>;
+    };
+
+    expect(result.err).toMatchObject({
+      name: "Error",
+      message: "Request failed",
+      status: 503,
+      apiKey: "[REDACTED]",
+      stack: error.stack,
+      cause: {
+        message: "socket hang up",
+        headers: { authorization: "[REDACTED]" },
+      },
+    });
+  });
+});
+
+describe("createConsoleLogger", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("prints warnings and errors, and debug entries only in debug mode", () => {
+    const debug = vi.spyOn(console, "debug").mockImplementation(() => {});
+    const info = vi.spyOn(console, "info").mockImplementation(() => {});
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const logger = createConsoleLogger({ prefix: "Runner" });
+    logger.debug({ threadId: "t1" }, "Joining");
+    logger.info({}, "Hydrated");
+    logger.warn({ threadId: "t1" }, "Retrying");
+    logger.warn({}, "Slow");
+
+    expect(debug).not.toHaveBeenCalled();
+    expect(info).not.toHaveBeenCalled();
+    expect(warn.mock.calls).toEqual([
+      ["[Runner] Retrying", { threadId: "t1" }],
+      ["[Runner] Slow"],
+    ]);
+
+    createConsoleLogger({ debug: true }).debug({}, "Joining");
+    expect(debug).toHaveBeenCalledWith("Joining");
+  });
+
+  it("adds the bindings of child loggers", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    createConsoleLogger().child!({ agentId: "writer" }).child!({
+      threadId: "t1",
+    }).error({ runId: "r1" }, "Failed");
+
+    expect(error).toHaveBeenCalledWith("Failed", {
+      agentId: "writer",
+      threadId: "t1",
+      runId: "r1",
+    });
+  });
+});
+
+describe("createRedactingLogger", () => {
+  it("redacts the fields of every entry", () => {
+    const entries: Array<[string, LogFields, string | undefined]> = [];
+    const logger = createRedactingLogger(createRecordingLogger(entries));
+
+    logger.info({ apiKey: "k", delta: "hi", threadId: "t1" }, "Chunk");
+
+    expect(entries).toEqual([
+      [
+        "info",
+        { apiKey: "[REDACTED]", delta: "[REDACTED]", threadId: "t1" },
+        "Chunk",
+      ],
+    ]);
+  });
+
+  it.each([
+    ["with", true],
+    ["without", false],
+  ])("redacts child bindings of loggers %s child()", (_label, withChild) => {
+    const entries: Array<[string, LogFields, string | undefined]> = [];
+    const logger = createRedactingLogger(
+      createRecordingLogger(entries, withChild),
+      { redactContent: false }
+    );
+
+    logger.child!({ authorization: "Bearer t", agentId: "writer" }).warn(
+      { content: "hi" },
+      "Retrying"
+    );
+
+    expect(entries).toEqual([
+      [
+        "warn",
+        { authorization: "[REDACTED]", agentId: "writer", content: "hi" },
+        "Retrying",
+      ],
+    ]);
+  });
+});
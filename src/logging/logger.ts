@@ -0,0 +1,223 @@
+/**
+ * Structured fields attached to a log entry.
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Structured logger used by the runner and its utilities.
+ *
+ * The call signature matches pino (`logger.info(fields, message)`), so a
+ * pino logger can be passed as-is. Other libraries, such as winston, can be
+ * adapted with a small wrapper.
+ */
+export interface Logger {
+  debug(fields: LogFields, message?: string): void;
+  info(fields: LogFields, message?: string): void;
+  warn(fields: LogFields, message?: string): void;
+  error(fields: LogFields, message?: string): void;
+
+  /**
+   * Returns a logger that adds `bindings` to every entry.
+   */
+  child?(bindings: LogFields): Logger;
+}
+
+/**
+ * Options for createConsoleLogger().
+ */
+export interface ConsoleLoggerOptions {
+  /**
+   * Prefix of every message, e.g. "HistoryHydratingRunner".
+   */
+  prefix?: string;
+
+  /**
+   * Print debug and info entries. Warnings and errors are always printed.
+   * Default: false
+   */
+  debug?: boolean;
+}
+
+/**
+ * Options for createRedactingLogger().
+ */
+export interface RedactionOptions {
+  /**
+   * Redact message content (content, deltas, tool arguments, message lists).
+   * Default: true
+   */
+  redactContent?: boolean;
+}
+
+/**
+ * Replacement for redacted values.
+ */
+const REDACTED = "[REDACTED]";
+
+/**
+ * Field names holding credentials. Always redacted. Matched against the
+ * last words of the name, so `accessToken` and `x-api-key` are redacted but
+ * `max_tokens` and `tokenCount` are not.
+ */
+const SECRET_FIELD_PATTERN =
+  /(?:^|[-_])(?:api[-_]?key|authorization|token|secret|password|cookies?)$/i;
+
+/**
+ * Field names holding message content. Redacted unless disabled.
+ */
+const CONTENT_FIELDS = new Set([
+  "content",
+  "delta",
+  "messages",
+  "args",
+  "arguments",
+]);
+
+/**
+ * Maximum depth of nested fields inspected for redaction.
+ */
+const MAX_REDACTION_DEPTH = 8;
+
+/**
+ * Logger that discards every entry.
+ */
+export const noopLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  child: () => noopLogger,
+};
+
+/**
+ * Creates the default logger, which prints to the console with a prefix.
+ * Debug and info entries are only printed when `debug` is enabled.
+ */
+export function createConsoleLogger(
+  options: ConsoleLoggerOptions = {},
+  bindings: LogFields = {}
+): Logger {
+  const prefix = options.prefix ? `[${options.prefix}] ` : "";
+
+  const write =
+    (print: (...args: unknown[]) => void, enabled: boolean) =>
+    (fields: LogFields, message = "") => {
+      if (!enabled) {
+        return;
+      }
+      const entry = { ...bindings, ...fields };
+      if (Object.keys(entry).length > 0) {
+        print(`${prefix}${message}`, entry);
+      } else {
+        print(`${prefix}${message}`);
+      }
+    };
+
+  return {
+    debug: write(console.debug, Boolean(options.debug)),
+    info: write(console.info, Boolean(options.debug)),
+    warn: write(console.warn, true),
+    error: write(console.error, true),
+    child: (childBindings) =>
+      createConsoleLogger(options, { ...bindings, ...childBindings }),
+  };
+}
+
+/**
+ * Wraps a logger so that credentials, and by default message content, are
+ * redacted from every entry before it is written. Error values are
+ * serialized to plain objects.
+ */
+export function createRedactingLogger(
+  logger: Logger,
+  options: RedactionOptions = {}
+): Logger {
+  const redact = (fields: LogFields) =>
+    redactLogFields(fields, options) as LogFields;
+
+  return {
+    debug: (fields, message) => logger.debug(redact(fields), message),
+    info: (fields, message) => logger.info(redact(fields), message),
+    warn: (fields, message) => logger.warn(redact(fields), message),
+    error: (fields, message) => logger.error(redact(fields), message),
+    child: (bindings) =>
+      createRedactingLogger(
+        logger.child
+          ? logger.child(redact(bindings))
+          : withBindings(logger, redact(bindings)),
+        options
+      ),
+  };
+}
+
+/**
+ * Returns a copy of `value` with credentials and, unless disabled, message
+ * content replaced by "[REDACTED]". Errors become plain objects with their
+ * name, message, stack, cause and own fields, redacted the same way.
+ */
+export function redactLogFields(
+  value: unknown,
+  options: RedactionOptions = {},
+  depth = 0
+): unknown {
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+
+  if (depth >= MAX_REDACTION_DEPTH) {
+    return "[Truncated]";
+  }
+
+  if (value instanceof Error) {
+    // stack and cause are not enumerable, so they are copied explicitly
+    const { cause } = value as Error & { cause?: unknown };
+    return {
+      name: value.name,
+      message: value.message,
+      ...(redactLogFields({ ...value }, options, depth) as LogFields),
+      ...(value.stack !== undefined ? { stack: value.stack } : {}),
+      ...(cause !== undefined
+        ? { cause: redactLogFields(cause, options, depth + 1) }
+        : {}),
+    };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactLogFields(item, options, depth + 1));
+  }
+
+  const redactContent = options.redactContent ?? true;
+  const result: LogFields = {};
+  for (const [key, fieldValue] of Object.entries(value)) {
+    if (isSecretField(key)) {
+      result[key] = REDACTED;
+    } else if (redactContent && CONTENT_FIELDS.has(key)) {
+      result[key] = REDACTED;
+    } else {
+      result[key] = redactLogFields(fieldValue, options, depth + 1);
+    }
+  }
+  return result;
+}
+
+/**
+ * Whether a field name holds credentials. camelCase words are split first,
+ * so SECRET_FIELD_PATTERN sees `accessToken` as `access_Token`.
+ */
+function isSecretField(key: string): boolean {
+  return SECRET_FIELD_PATTERN.test(key.replace(/([a-z\d])([A-Z])/g, "$1_$2"));
+}
+
+/**
+ * Adds bindings to a logger without child() support.
+ */
+function withBindings(logger: Logger, bindings: LogFields): Logger {
+  return {
+    debug: (fields, message) => logger.debug({ ...bindings, ...fields }, message),
+    info: (fields, message) => logger.info({ ...bindings, ...fields }, message),
+    warn: (fields, message) => logger.warn({ ...bindings, ...fields }, message),
+    error: (fields, message) => logger.error({ ...bindings, ...fields }, message),
+    child: (childBindings) =>
+      withBindings(logger, { ...bindings, ...childBindings }),
+  };
+}
@@ -13,3 +13,66 @@ export const DEFAULT_HISTORY_LIMIT = 100;
  * Maximum history limit allowed by the LangGraph API.
  */
 export const MAX_HISTORY_LIMIT = 1000;
+
+/**
+ * Maximum number of checkpoint windows walked back to find older messages
+ * for one history page.
+ */
+export const MAX_HISTORY_PAGE_WINDOWS = 10;
+
+/**
+ * Default time isRunning() results are cached per thread (2 seconds).
+ */
+export const DEFAULT_RUNNING_STATUS_TTL = 2000;
+
+/**
+ * Default reconnect behavior for streams joined by connect():
+ * up to 3 rejoins, backing off from 500ms to at most 10 seconds.
+ */
+export const DEFAULT_STREAM_RECONNECT = Object.freeze({
+  maxRetries: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 10_000,
+});
+
+/**
+ * Default retry policy for LangGraph API calls: up to 3 attempts, backing
+ * off from 250ms to at most 4 seconds, on rate limits, gateway errors and
+ * network failures.
+ */
+export const DEFAULT_RETRY_POLICY = Object.freeze({
+  maxAttempts: 3,
+  initialDelayMs: 250,
+  maxDelayMs: 4000,
+  jitter: true,
+  retryableStatusCodes: Object.freeze([408, 425, 429, 500, 502, 503, 504]),
+});
+
+/**
+ * Checkpoint metadata key recording the fork point of runs started with
+ * `forkFromMessageId`. Used to skip abandoned branches during hydration.
+ */
+export const FORK_METADATA_KEY = "copilotkit_fork_checkpoint_id";
+
+/**
+ * Key added to state snapshots truncated to `stateProjection.maxBytes`,
+ * listing the top-level keys that were removed.
+ */
+export const STATE_TRUNCATED_KEY = "__truncated_keys";
+
+/**
+ * Thread metadata keys written by ThreadManager and read by ThreadDirectory.
+ */
+export const THREAD_METADATA_KEYS = Object.freeze({
+  title: "title",
+  tags: "tags",
+  archived: "archived",
+  archivedAt: "archived_at",
+  copiedFrom: "copied_from",
+});
+
+/**
+ * Version of the ThreadTranscript format produced by exportThread().
+ * Incremented on breaking changes to the format.
+ */
+export const TRANSCRIPT_FORMAT_VERSION = 1;
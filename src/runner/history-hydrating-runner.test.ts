@@ -0,0 +1,1318 @@
+import { type BaseEvent, EventType } from "@ag-ui/core";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { FORK_METADATA_KEY } from "./constants";
+import type { HistoryHydratingAgentRunner } from "./history-hydrating-runner";
+import { InMemoryHydrationCache } from "../cache/hydration-cache";
+import { ThreadAccessDeniedError } from "../errors/thread-access-errors";
+import { HydrationEventNames } from "../events/hydration-events";
+import { noopLogger, type LogFields } from "../logging/logger";
+import { checkpoint, forkedHistory } from "../testing/checkpoints";
+import {
+  collectEvents,
+  createTestRunner,
+  FakeLangGraphServer,
+  runRequest,
+} from "../testing/fake-langgraph";
+import { encodeHistoryCursor } from "../utils/history-pagination";
+
+// Two turns, one checkpoint per message (newest-first)
+const turns = [
+  checkpoint("c4", "c3", ["m1", "a1", "m2", "a2"]),
+  checkpoint("c3", "c2", ["m1", "a1", "m2"]),
+  checkpoint("c2", "c1", ["m1", "a1"]),
+  checkpoint("c1", "c0", ["m1"]),
+  checkpoint("c0", undefined, []),
+];
+
+let server: FakeLangGraphServer;
+
+beforeEach(async () => {
+  server = await FakeLangGraphServer.start();
+});
+
+afterEach(async () => {
+  await server.close();
+});
+
+function customEvent(
+  events: BaseEvent[],
+  name: string
+): Record<string, unknown> | undefined {
+  const found = events.find(
+    (event) =>
+      event.type === EventType.CUSTOM &&
+      (event as BaseEvent & { name?: string }).name === name
+  ) as (BaseEvent & { value: Record<string, unknown> }) | undefined;
+  return found?.value;
+}
+
+function messageIds(messages: unknown): string[] {
+  return (messages as Array<{ id: string }>).map((message) => message.id);
+}
+
+/**
+ * Builds a run() request whose messages continue the thread, using the
+ * checkpoint fixture's ID convention.
+ */
+function continueRequest(threadId: string, messageIds: string[]) {
+  const request = runRequest(threadId);
+  request.input.messages = messageIds.map((id) =>
+    id.startsWith("a")
+      ? { id, role: "assistant" as const, content: id }
+      : { id, role: "user" as const, content: id }
+  );
+  return request;
+}
+
+function snapshotIds(events: BaseEvent[]): string[] {
+  const snapshot = events.find(
+    (event) => event.type === EventType.MESSAGES_SNAPSHOT
+  ) as (BaseEvent & { messages: unknown }) | undefined;
+  return messageIds(snapshot?.messages ?? []);
+}
+
+function errorCode(events: BaseEvent[]): string | undefined {
+  const error = events.find((event) => event.type === EventType.RUN_ERROR);
+  return (error as (BaseEvent & { code?: string }) | undefined)?.code;
+}
+
+describe("history pages", () => {
+  it("connect() pages back with the emitted cursor", async () => {
+    server.thread("t1", { checkpoints: turns });
+    const runner = createTestRunner(server, { historyPageSize: 2 });
+
+    const events = await collectEvents(runner.connect({ threadId: "t1" }));
+    expect(snapshotIds(events)).toEqual(["m2", "a2"]);
+    const { cursor } = customEvent(events, HydrationEventNames.HistoryPage)!;
+
+    const page = await collectEvents(
+      runner.connect({ threadId: "t1", cursor: cursor as string })
+    );
+    expect(page.map((event) => event.type)).toEqual([
+      EventType.RUN_STARTED,
+      EventType.CUSTOM,
+      EventType.RUN_FINISHED,
+    ]);
+    const value = customEvent(page, HydrationEventNames.HistoryPage)!;
+    expect(messageIds(value["messages"])).toEqual(["m1", "a1"]);
+    expect(value).toMatchObject({ cursor: null, hasMore: false });
+  });
+
+  it("loadHistoryPage() continues into older checkpoint windows", async () => {
+    server.thread("t1", {
+      checkpoints: [
+        checkpoint("c6", "c5", ["m3", "a3"]),
+        checkpoint("c5", "c4", ["m3"]),
+        // Older messages were removed from the state after c4
+        ...turns,
+      ],
+    });
+    const runner = createTestRunner(server, {
+      historyLimit: 2,
+      historyPageSize: 2,
+    });
+
+    const events = await collectEvents(runner.connect({ threadId: "t1" }));
+    expect(snapshotIds(events)).toEqual(["m3", "a3"]);
+    const { cursor } = customEvent(events, HydrationEventNames.HistoryPage)!;
+
+    const page = await runner.loadHistoryPage("t1", cursor as string);
+    expect(messageIds(page.messages)).toEqual(["m2", "a2"]);
+    expect(page.hasMore).toBe(true);
+
+    const last = await runner.loadHistoryPage("t1", page.cursor!);
+    expect(messageIds(last.messages)).toEqual(["m1", "a1"]);
+    expect(last).toMatchObject({ cursor: null, hasMore: false });
+  });
+
+  it("doesn't offer a cursor when older windows hold no older messages", async () => {
+    server.thread("t1", { checkpoints: turns });
+    const runner = createTestRunner(server, {
+      historyLimit: 2,
+      historyPageSize: 10,
+    });
+
+    const events = await collectEvents(runner.connect({ threadId: "t1" }));
+
+    expect(snapshotIds(events)).toEqual(["m1", "a1", "m2", "a2"]);
+    expect(
+      customEvent(events, HydrationEventNames.HistoryPage)
+    ).toBeUndefined();
+  });
+
+  it("stops walking back after a bounded number of windows", async () => {
+    // Every window repeats the same message and has a parent
+    server.on("POST", "/threads/t1/history", (request) => {
+      const before = (
+        request.body as { before?: { configurable: { checkpoint_id: string } } }
+      ).before?.configurable.checkpoint_id;
+      const next = Number(before?.slice(1) ?? 0) + 1;
+      return {
+        body: [
+          checkpoint(`c${next}`, `c${next + 1}`, ["m1"]),
+          checkpoint(`c${next + 1}`, `c${next + 2}`, ["m1"]),
+        ],
+      };
+    });
+    const runner = createTestRunner(server, {
+      historyLimit: 2,
+      historyPageSize: 2,
+    });
+
+    const page = await runner.loadHistoryPage(
+      "t1",
+      encodeHistoryCursor({ checkpointId: "c0", messageId: "m1" })
+    );
+
+    expect(page).toEqual({ messages: [], cursor: null, hasMore: false });
+    expect(server.calls("POST", "/threads/t1/history")).toHaveLength(10);
+  });
+
+  it("emits RUN_ERROR with a code when a page fails to load", async () => {
+    const runner = createTestRunner(server);
+
+    const events = await collectEvents(
+      runner.connect({ threadId: "t1", cursor: "not-a-cursor" })
+    );
+
+    expect(events.map((event) => event.type)).toEqual([
+      EventType.RUN_STARTED,
+      EventType.RUN_ERROR,
+    ]);
+    expect(events[1]).toMatchObject({ code: "HISTORY_PAGE_FAILED" });
+  });
+
+  it("emits nothing more once unsubscribed", async () => {
+    let release: () => void = () => {};
+    const requested = new Promise<void>((resolve) => {
+      server.on("POST", "/threads/t1/history", async () => {
+        resolve();
+        await new Promise<void>((done) => (release = done));
+        return { body: turns };
+      });
+    });
+    const runner = createTestRunner(server);
+    const events: BaseEvent[] = [];
+
+    const subscription = runner
+      .connect({
+        threadId: "t1",
+        cursor: encodeHistoryCursor({ messageId: "m2" }),
+      })
+      .subscribe((event) => events.push(event));
+    await requested;
+    subscription.unsubscribe();
+    release();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(events.map((event) => event.type)).toEqual([EventType.RUN_STARTED]);
+  });
+});
+
+describe("hydration cache", () => {
+  it("serves an unchanged head from the cache", async () => {
+    server.thread("t1", { checkpoints: turns });
+    const runner = createTestRunner(server, {
+      cache: new InMemoryHydrationCache(),
+    });
+
+    const first = await collectEvents(runner.connect({ threadId: "t1" }));
+    const second = await collectEvents(runner.connect({ threadId: "t1" }));
+
+    expect(snapshotIds(second)).toEqual(snapshotIds(first));
+    expect(server.calls("POST", "/threads/t1/history")).toHaveLength(1);
+    expect(server.calls("GET", "/threads/t1/state")).toHaveLength(2);
+  });
+
+  it("rebuilds the hydration once the head moved on", async () => {
+    server.thread("t1", { checkpoints: turns });
+    const runner = createTestRunner(server, {
+      cache: new InMemoryHydrationCache(),
+    });
+
+    await collectEvents(runner.connect({ threadId: "t1" }));
+    server.thread("t1", {
+      checkpoints: [
+        checkpoint("c5", "c4", ["m1", "a1", "m2", "a2", "m3"]),
+        ...turns,
+      ],
+    });
+    const events = await collectEvents(runner.connect({ threadId: "t1" }));
+
+    expect(snapshotIds(events)).toEqual(["m1", "a1", "m2", "a2", "m3"]);
+    expect(server.calls("POST", "/threads/t1/history")).toHaveLength(2);
+  });
+
+  it("forgets a thread when a run starts on it", async () => {
+    server.thread("t1", { checkpoints: turns }).assistant();
+    const runner = createTestRunner(server, {
+      cache: new InMemoryHydrationCache(),
+    });
+
+    await collectEvents(runner.connect({ threadId: "t1" }));
+    await collectEvents(
+      runner.run(continueRequest("t1", ["m1", "a1", "m2", "a2", "m3"]))
+    );
+    await collectEvents(runner.connect({ threadId: "t1" }));
+
+    expect(server.calls("POST", "/threads/t1/runs/stream")).toHaveLength(1);
+    expect(server.calls("POST", "/threads/t1/history")).toHaveLength(2);
+  });
+
+  it("bypasses the cache for branches and time travel", async () => {
+    server.thread("t1", { checkpoints: forkedHistory });
+    const stored: string[] = [];
+    const runner = createTestRunner(server, {
+      cache: {
+        get: () => undefined,
+        set: (_threadId, entry) => {
+          stored.push(entry.checkpointId);
+        },
+        invalidate: () => {},
+      },
+    });
+
+    await collectEvents(
+      runner.connect({ threadId: "t1", branchCheckpointId: "c2" })
+    );
+    await collectEvents(runner.connect({ threadId: "t1", checkpointId: "c2" }));
+    await collectEvents(runner.connect({ threadId: "t1" }));
+
+    expect(stored).toEqual(["c4"]);
+  });
+});
+
+describe("hydration failures", () => {
+  function types(events: BaseEvent[]): string[] {
+    return events.map((event) =>
+      event.type === EventType.RUN_ERROR
+        ? `${event.type}:${(event as BaseEvent & { code?: string }).code}`
+        : event.type
+    );
+  }
+
+  it.each([
+    [
+      "empty",
+      [
+        EventType.RUN_STARTED,
+        EventType.MESSAGES_SNAPSHOT,
+        EventType.RUN_FINISHED,
+      ],
+    ],
+    [
+      "error",
+      [EventType.RUN_STARTED, `${EventType.RUN_ERROR}:THREAD_NOT_FOUND`],
+    ],
+    ["skip", [EventType.RUN_STARTED, EventType.RUN_FINISHED]],
+  ] as const)(
+    "%s: reports a missing thread by the mode",
+    async (mode, expected) => {
+      const runner = createTestRunner(server, { hydrationFailureMode: mode });
+
+      const events = await collectEvents(runner.connect({ threadId: "t1" }));
+
+      expect(types(events)).toEqual(expected);
+    }
+  );
+
+  it.each([
+    [
+      "empty",
+      [
+        EventType.RUN_STARTED,
+        EventType.MESSAGES_SNAPSHOT,
+        EventType.RUN_FINISHED,
+      ],
+    ],
+    [
+      "error",
+      [EventType.RUN_STARTED, `${EventType.RUN_ERROR}:DEPLOYMENT_UNREACHABLE`],
+    ],
+    ["skip", [EventType.RUN_STARTED, EventType.RUN_FINISHED]],
+  ] as const)(
+    "%s: reports a failed hydration by the mode",
+    async (mode, expected) => {
+      server.on("POST", "/threads/t1/history", { status: 503, body: {} });
+      const runner = createTestRunner(server, { hydrationFailureMode: mode });
+
+      const events = await collectEvents(runner.connect({ threadId: "t1" }));
+
+      expect(types(events)).toEqual(expected);
+      expect(server.calls("POST", "/threads/t1/history")).toHaveLength(3);
+    }
+  );
+
+  it("hydrates a thread without checkpoints as new in every mode", async () => {
+    server.thread("t1");
+
+    for (const mode of ["empty", "error", "skip"] as const) {
+      const runner = createTestRunner(server, { hydrationFailureMode: mode });
+
+      const events = await collectEvents(runner.connect({ threadId: "t1" }));
+
+      expect(types(events)).toEqual([
+        EventType.RUN_STARTED,
+        EventType.MESSAGES_SNAPSHOT,
+        EventType.RUN_FINISHED,
+      ]);
+    }
+  });
+
+  it("fails time travel to a missing thread", async () => {
+    const runner = createTestRunner(server, { hydrationFailureMode: "error" });
+
+    const events = await collectEvents(
+      runner.connect({ threadId: "t1", checkpointId: "c1" })
+    );
+
+    expect(types(events)).toEqual([
+      EventType.RUN_STARTED,
+      `${EventType.RUN_ERROR}:CHECKPOINT_NOT_FOUND`,
+    ]);
+  });
+});
+
+describe("forks", () => {
+  it("runs on a branch forked before the edited message", async () => {
+    server.thread("t1", { checkpoints: turns }).assistant();
+    // The fork point becomes the head once the state is written back
+    server
+      .on("POST", "/threads/t1/state", {
+        body: { configurable: { thread_id: "t1", checkpoint_id: "c5" } },
+      })
+      .on("GET", "/threads/t1/state", { body: turns[2] });
+    const runner = createTestRunner(server);
+    const request = runRequest("t1", {
+      forkFromMessageId: "m2",
+      metadata: { source: "editor" },
+    });
+    request.input.messages = [
+      { id: "m1", role: "user", content: "m1" },
+      { id: "a1", role: "assistant", content: "a1" },
+      { id: "m3", role: "user", content: "edited" },
+    ];
+
+    const events = await collectEvents(runner.run(request));
+
+    expect(events.map((event) => event.type)).not.toContain(
+      EventType.RUN_ERROR
+    );
+    expect(server.calls("POST", "/threads/t1/state")[0]?.body).toEqual({
+      values: turns[2]!.values,
+      checkpoint_id: "c2",
+      as_node: "__start__",
+    });
+    // The fork point travels with the run, not as a separate patch
+    expect(server.calls("PATCH", "/threads/t1/state")).toHaveLength(0);
+    const stream = server.calls("POST", "/threads/t1/runs/stream")[0]
+      ?.body as Record<string, unknown>;
+    expect(stream["metadata"]).toEqual({
+      source: "editor",
+      [FORK_METADATA_KEY]: "c2",
+    });
+  });
+
+  it("fails the run when the message has no checkpoint before it", async () => {
+    server.thread("t1", { checkpoints: turns }).assistant();
+    const runner = createTestRunner(server);
+
+    const events = await collectEvents(
+      runner.run(runRequest("t1", { forkFromMessageId: "missing" }))
+    );
+
+    expect(events[events.length - 1]).toMatchObject({
+      type: EventType.RUN_ERROR,
+      code: "FORK_FAILED",
+    });
+    expect(server.calls("POST", "/threads/t1/state")).toHaveLength(0);
+    expect(server.calls("POST", "/threads/t1/runs/stream")).toHaveLength(0);
+  });
+});
+
+describe("interrupts", () => {
+  // Two parallel nodes waiting for input
+  const interrupted = {
+    ...checkpoint("c1", undefined, ["m1"]),
+    next: ["legal", "finance"],
+    tasks: [
+      {
+        id: "task-1",
+        name: "legal",
+        interrupts: [{ id: "i1", value: { question: "Refund?" } }],
+      },
+      {
+        id: "task-2",
+        name: "finance",
+        interrupts: [{ id: "i2", value: "Budget?", resumable: false }],
+      },
+    ],
+  };
+
+  function interruptEvents(events: BaseEvent[]) {
+    return events.filter(
+      (event) =>
+        event.type === EventType.CUSTOM &&
+        (event as BaseEvent & { name?: string }).name === "on_interrupt"
+    ) as Array<BaseEvent & { value: string; rawEvent: unknown }>;
+  }
+
+  it("emits every pending interrupt on connect", async () => {
+    server.thread("t1", { checkpoints: [interrupted] });
+    const runner = createTestRunner(server);
+
+    const events = await collectEvents(runner.connect({ threadId: "t1" }));
+
+    const interrupts = interruptEvents(events);
+    expect(interrupts.map((event) => event.value)).toEqual([
+      JSON.stringify({ question: "Refund?" }),
+      JSON.stringify("Budget?"),
+    ]);
+    expect(interrupts[0]?.rawEvent).toMatchObject({
+      interruptId: "i1",
+      taskId: "task-1",
+      taskName: "legal",
+    });
+    expect(interrupts[1]?.rawEvent).toMatchObject({
+      interruptId: "i2",
+      resumable: false,
+    });
+  });
+
+  it("leaves interrupts out of time travel", async () => {
+    server.thread("t1", { checkpoints: [interrupted] });
+    const runner = createTestRunner(server);
+
+    const events = await collectEvents(
+      runner.connect({ threadId: "t1", checkpointId: "c1" })
+    );
+
+    expect(interruptEvents(events)).toEqual([]);
+  });
+
+  it("resumes interrupts by ID", async () => {
+    server.thread("t1", { checkpoints: [interrupted] }).assistant();
+    const runner = createTestRunner(server);
+    const request = continueRequest("t1", ["m1"]);
+    request.input.forwardedProps = {
+      resumeInterrupts: { i1: { approved: true } },
+    };
+
+    const events = await collectEvents(runner.run(request));
+
+    expect(errorCode(events)).toBeUndefined();
+    const stream = server.calls("POST", "/threads/t1/runs/stream")[0]
+      ?.body as Record<string, unknown>;
+    expect(stream["command"]).toEqual({ resume: { i1: { approved: true } } });
+  });
+
+  it.each([
+    ["unknown", { i3: true }],
+    ["non-resumable", { i2: true }],
+  ])("fails to resume %s interrupts", async (_label, resumeInterrupts) => {
+    server.thread("t1", { checkpoints: [interrupted] }).assistant();
+    const runner = createTestRunner(server);
+
+    const events = await collectEvents(
+      runner.run(runRequest("t1", { resumeInterrupts }))
+    );
+
+    expect(errorCode(events)).toBe("INTERRUPT_RESUME_FAILED");
+    expect(server.calls("POST", "/threads/t1/runs/stream")).toHaveLength(0);
+  });
+});
+
+describe("branch navigation", () => {
+  it("hydrates a branch other than the head read-only", async () => {
+    server.thread("t1", {
+      checkpoints: forkedHistory.map((state) => ({
+        ...state,
+        next: ["agent"],
+      })),
+      runs: [{ run_id: "r1", status: "running" }],
+    });
+    const runner = createTestRunner(server);
+
+    const events = await collectEvents(
+      runner.connect({ threadId: "t1", branchCheckpointId: "c2" })
+    );
+
+    expect(snapshotIds(events)).toEqual(["m1", "a1"]);
+    expect(customEvent(events, HydrationEventNames.ReadOnly)).toEqual({
+      readOnly: true,
+      checkpointId: "c2",
+      branchCheckpointId: "c2",
+    });
+    // Runs on the head are not joined from another branch
+    expect(server.calls("GET", /\/runs\/r1\/stream$/)).toHaveLength(0);
+    expect(events[events.length - 1]?.type).toBe(EventType.RUN_FINISHED);
+  });
+
+  it("keeps the head branch writable", async () => {
+    server.thread("t1", { checkpoints: forkedHistory });
+    const runner = createTestRunner(server);
+
+    const events = await collectEvents(
+      runner.connect({ threadId: "t1", branchCheckpointId: "c4" })
+    );
+
+    expect(snapshotIds(events)).toEqual(["m1", "a2"]);
+    expect(customEvent(events, HydrationEventNames.ReadOnly)).toBeUndefined();
+  });
+});
+
+describe("stop", () => {
+  const runs = [
+    { run_id: "r1", status: "running" },
+    { run_id: "r2", status: "pending" },
+    { run_id: "r3", status: "success" },
+  ];
+
+  function cancelledRunIds(): Array<string | undefined> {
+    return server
+      .calls("POST", /\/runs\/[^/]+\/cancel$/)
+      .map((request) => request.path.split("/")[4]);
+  }
+
+  it("cancels the thread's running and pending runs", async () => {
+    server
+      .thread("t1", { runs })
+      .on("POST", /\/runs\/[^/]+\/cancel$/, { body: {} });
+    const runner = createTestRunner(server);
+
+    expect(await runner.stop({ threadId: "t1" })).toBe(true);
+
+    expect(cancelledRunIds().sort()).toEqual(["r1", "r2"]);
+    const cancel = server.calls("POST", /\/cancel$/)[0];
+    expect(cancel?.query.get("action")).toBe("interrupt");
+    expect(cancel?.query.get("wait")).toBe("0");
+  });
+
+  it("cancels with the configured action and waits if asked", async () => {
+    server
+      .thread("t1", { runs })
+      .on("POST", /\/runs\/[^/]+\/cancel$/, { body: {} });
+    const runner = createTestRunner(server, {
+      cancelAction: "rollback",
+      waitForCancel: true,
+    });
+
+    await runner.stop({ threadId: "t1" });
+
+    const cancel = server.calls("POST", /\/cancel$/)[0];
+    expect(cancel?.query.get("action")).toBe("rollback");
+    expect(cancel?.query.get("wait")).toBe("1");
+  });
+
+  it("reports nothing stopped without active runs", async () => {
+    server.thread("t1", { runs: [{ run_id: "r3", status: "success" }] });
+    const runner = createTestRunner(server);
+
+    expect(await runner.stop({ threadId: "t1" })).toBe(false);
+    expect(cancelledRunIds()).toEqual([]);
+  });
+
+  it("reports a failed cancel", async () => {
+    server.thread("t1", { runs });
+    const runner = createTestRunner(server);
+
+    expect(await runner.stop({ threadId: "t1" })).toBe(false);
+  });
+
+  it("closes streams joined by connect()", async () => {
+    server
+      .thread("t1", {
+        checkpoints: [
+          { ...checkpoint("c1", undefined, ["m1"]), next: ["agent"] },
+        ],
+        runs: [{ run_id: "r1", status: "running" }],
+      })
+      // The run never sends anything until the stream is closed
+      .on("GET", "/threads/t1/runs/r1/stream", () => new Promise(() => {}))
+      .on("POST", /\/runs\/[^/]+\/cancel$/, { body: {} });
+    const runner = createTestRunner(server);
+
+    const connected = collectEvents(runner.connect({ threadId: "t1" }));
+    await vi.waitFor(() =>
+      expect(server.calls("GET", "/threads/t1/runs/r1/stream")).toHaveLength(1)
+    );
+
+    expect(await runner.stop({ threadId: "t1" })).toBe(true);
+    const events = await connected;
+    expect(events[events.length - 1]?.type).toBe(EventType.RUN_FINISHED);
+    expect(cancelledRunIds()).toEqual(["r1"]);
+  });
+});
+
+describe("isRunning", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("reports busy threads and idle threads with a queued run", async () => {
+    server.thread("t1", { status: "busy" });
+    server.thread("t2", { runs: [{ run_id: "r1", status: "pending" }] });
+    server.thread("t3", { runs: [{ run_id: "r1", status: "success" }] });
+    const runner = createTestRunner(server);
+
+    expect(await runner.isRunning({ threadId: "t1" })).toBe(true);
+    expect(await runner.isRunning({ threadId: "t2" })).toBe(true);
+    expect(await runner.isRunning({ threadId: "t3" })).toBe(false);
+  });
+
+  it("reports missing threads as not running", async () => {
+    const runner = createTestRunner(server);
+
+    expect(await runner.isRunning({ threadId: "t1" })).toBe(false);
+  });
+
+  it("caches the status for runningStatusTtlMs", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    server.thread("t1", { status: "busy" });
+    const runner = createTestRunner(server, { runningStatusTtlMs: 1000 });
+
+    await runner.isRunning({ threadId: "t1" });
+    vi.advanceTimersByTime(999);
+    await runner.isRunning({ threadId: "t1" });
+    expect(server.calls("GET", "/threads/t1")).toHaveLength(1);
+
+    vi.advanceTimersByTime(1);
+    await runner.isRunning({ threadId: "t1" });
+    expect(server.calls("GET", "/threads/t1")).toHaveLength(2);
+  });
+
+  it("asks every time with runningStatusTtlMs 0", async () => {
+    server.thread("t1", { status: "busy" });
+    const runner = createTestRunner(server, { runningStatusTtlMs: 0 });
+
+    await runner.isRunning({ threadId: "t1" });
+    await runner.isRunning({ threadId: "t1" });
+
+    expect(server.calls("GET", "/threads/t1")).toHaveLength(2);
+  });
+
+  it("forgets the status once the thread is stopped or run", async () => {
+    server
+      .thread("t1", { checkpoints: turns, status: "busy" })
+      .assistant()
+      .on("POST", /\/runs\/[^/]+\/cancel$/, { body: {} });
+    const runner = createTestRunner(server);
+    // Thread lookups made by isRunning() alone
+    const lookups = async () => {
+      const before = server.calls("GET", "/threads/t1").length;
+      await runner.isRunning({ threadId: "t1" });
+      return server.calls("GET", "/threads/t1").length - before;
+    };
+
+    expect(await lookups()).toBe(1);
+    expect(await lookups()).toBe(0);
+    await runner.stop({ threadId: "t1" });
+    expect(await lookups()).toBe(1);
+    await collectEvents(
+      runner.run(continueRequest("t1", ["m1", "a1", "m2", "a2"]))
+    );
+    expect(await lookups()).toBe(1);
+  });
+});
+
+describe("joined streams", () => {
+  const stream = "/threads/t1/runs/r1/stream";
+
+  function busyThread(): void {
+    server.thread("t1", {
+      checkpoints: [
+        { ...checkpoint("c1", undefined, ["m1"]), next: ["agent"] },
+      ],
+      runs: [{ run_id: "r1", status: "running" }],
+    });
+  }
+
+  function update(id: string) {
+    return { id, event: "updates", data: { step: id } };
+  }
+
+  // Updates received from the stream, leaving out the hydrated state
+  function updates(events: BaseEvent[]): unknown[] {
+    return events
+      .filter(
+        (event) =>
+          (event.rawEvent as { event?: string } | undefined)?.event ===
+          "updates"
+      )
+      .map((event) => (event as BaseEvent & { snapshot: unknown }).snapshot);
+  }
+
+  it("rejoins a dropped stream after the last received event", async () => {
+    busyThread();
+    let joins = 0;
+    server
+      .on("GET", stream, () =>
+        ++joins === 1
+          ? { events: [update("1"), update("2")], drop: true }
+          : { events: [update("3")] }
+      )
+      .on("GET", "/threads/t1/runs/r1", {
+        body: { run_id: "r1", status: "success" },
+      });
+    const runner = createTestRunner(server, {
+      streamReconnect: { initialDelayMs: 0 },
+    });
+
+    const events = await collectEvents(runner.connect({ threadId: "t1" }));
+
+    expect(updates(events)).toEqual([
+      { step: "1" },
+      { step: "2" },
+      { step: "3" },
+    ]);
+    const rejoin = server.calls("GET", stream)[1];
+    expect(rejoin?.headers["last-event-id"]).toBe("2");
+    expect(events[events.length - 1]?.type).toBe(EventType.RUN_FINISHED);
+  });
+
+  it("rejoins a stream that ended while the run is still active", async () => {
+    busyThread();
+    let polls = 0;
+    server
+      .on("GET", stream, { events: [update("1")] })
+      .on("GET", "/threads/t1/runs/r1", () => ({
+        body: { run_id: "r1", status: ++polls === 1 ? "running" : "success" },
+      }));
+    const runner = createTestRunner(server, {
+      streamReconnect: { initialDelayMs: 0 },
+    });
+
+    await collectEvents(runner.connect({ threadId: "t1" }));
+
+    expect(server.calls("GET", stream)).toHaveLength(2);
+  });
+
+  it("gives up after maxRetries rejoins in a row", async () => {
+    busyThread();
+    // Received events reset the count, so every join drops before sending any
+    server.on("GET", stream, { events: [], drop: true });
+    const runner = createTestRunner(server, {
+      streamReconnect: { maxRetries: 2, initialDelayMs: 0 },
+    });
+
+    const events = await collectEvents(runner.connect({ threadId: "t1" }));
+
+    expect(server.calls("GET", stream)).toHaveLength(3);
+    expect(events[events.length - 1]?.type).toBe(EventType.RUN_FINISHED);
+  });
+
+  it("doesn't rejoin with maxRetries 0", async () => {
+    busyThread();
+    server.on("GET", stream, { events: [update("1")], drop: true });
+    const runner = createTestRunner(server, {
+      streamReconnect: { maxRetries: 0 },
+    });
+
+    await collectEvents(runner.connect({ threadId: "t1" }));
+
+    expect(server.calls("GET", stream)).toHaveLength(1);
+  });
+});
+
+describe("replaying active runs", () => {
+  const stream = "/threads/t1/runs/r1/stream";
+
+  function chatChunk(messageId: string, step: number) {
+    return {
+      event: "events",
+      data: {
+        event: "on_chat_model_stream",
+        run_id: messageId,
+        data: { chunk: { content: messageId } },
+        metadata: { langgraph_step: step },
+      },
+    };
+  }
+
+  function textMessageIds(events: BaseEvent[]): unknown[] {
+    return events
+      .filter((event) => event.type === EventType.TEXT_MESSAGE_CONTENT)
+      .map((event) => (event as BaseEvent & { messageId: string }).messageId);
+  }
+
+  beforeEach(() => {
+    server
+      .thread("t1", {
+        checkpoints: [
+          {
+            ...checkpoint("c2", "c1", ["m1", "a1"], { step: 2 }),
+            next: ["agent"],
+          },
+        ],
+        runs: [{ run_id: "r1", status: "running" }],
+      })
+      .on("GET", stream, {
+        // a0 streamed before the snapshot, a1 is in it, a2 is new
+        events: [chatChunk("a0", 1), chatChunk("a1", 3), chatChunk("a2", 3)],
+      });
+  });
+
+  it("replays the run from its start without what the snapshot holds", async () => {
+    const runner = createTestRunner(server, { replayActiveRun: true });
+
+    const events = await collectEvents(runner.connect({ threadId: "t1" }));
+
+    expect(textMessageIds(events)).toEqual(["a2"]);
+    expect(server.calls("GET", stream)[0]?.headers["last-event-id"]).toBe("-1");
+  });
+
+  it("passes on every event when joining mid-run", async () => {
+    const runner = createTestRunner(server);
+
+    const events = await collectEvents(runner.connect({ threadId: "t1" }));
+
+    expect(textMessageIds(events)).toEqual(["a0", "a1", "a2"]);
+    expect(
+      server.calls("GET", stream)[0]?.headers["last-event-id"]
+    ).toBeUndefined();
+  });
+});
+
+describe("hooks", () => {
+  it("lets hydration hooks observe and replace history and messages", async () => {
+    server.thread("t1", { checkpoints: turns });
+    const calls: string[] = [];
+    const runner = createTestRunner(server, {
+      hooks: {
+        onBeforeHydrate: ({ threadId }) => {
+          calls.push(`before ${threadId}`);
+        },
+        // Hydrates as if the last turn hadn't happened
+        onHistoryLoaded: (checkpoints, { threadId }) => {
+          calls.push(`loaded ${threadId}`);
+          return checkpoints.slice(2);
+        },
+        transformSnapshot: (messages, _state, { request }) => {
+          calls.push(`transform ${request.threadId}`);
+          return messages.filter((message) => message.role === "user");
+        },
+      },
+    });
+
+    const events = await collectEvents(runner.connect({ threadId: "t1" }));
+
+    expect(snapshotIds(events)).toEqual(["m1"]);
+    expect(calls).toEqual(["before t1", "loaded t1", "transform t1"]);
+  });
+
+  it("handles a failing onBeforeHydrate like a failed hydration", async () => {
+    server.thread("t1", { checkpoints: turns });
+    const runner = createTestRunner(server, {
+      hydrationFailureMode: "error",
+      hooks: {
+        onBeforeHydrate: () => {
+          throw new Error("Not now");
+        },
+      },
+    });
+
+    const events = await collectEvents(runner.connect({ threadId: "t1" }));
+
+    expect(events.map((event) => event.type)).toContain(EventType.RUN_ERROR);
+    expect(server.calls("POST", "/threads/t1/history")).toHaveLength(0);
+  });
+
+  it("calls onRunStart before the run and onRunEnd once after it", async () => {
+    server.thread("t1", { checkpoints: turns }).assistant();
+    const calls: unknown[] = [];
+    const runner = createTestRunner(server, {
+      hooks: {
+        onRunStart: ({ threadId }) => {
+          calls.push(["start", threadId, server.requests.length]);
+        },
+        onRunEnd: ({ threadId, error, cancelled }) => {
+          calls.push(["end", threadId, error, cancelled]);
+        },
+      },
+    });
+
+    await collectEvents(
+      runner.run(continueRequest("t1", ["m1", "a1", "m2", "a2"]))
+    );
+
+    // onRunStart ran before any LangGraph call
+    expect(calls).toEqual([
+      ["start", "t1", 0],
+      ["end", "t1", undefined, undefined],
+    ]);
+  });
+
+  it("refuses the run when onRunStart throws, ending it once", async () => {
+    server.thread("t1", { checkpoints: turns }).assistant();
+    const ends: unknown[] = [];
+    const runner = createTestRunner(server, {
+      hooks: {
+        onRunStart: () => {
+          throw new Error("Quota exceeded");
+        },
+        onRunEnd: ({ error }) => {
+          ends.push(error);
+        },
+      },
+    });
+
+    const events = await collectEvents(runner.run(runRequest("t1")));
+
+    expect(errorCode(events)).toBe("RUN_START_REJECTED");
+    expect(ends).toHaveLength(1);
+    expect(ends[0]).toBeDefined();
+    expect(server.calls("POST", "/threads/t1/runs/stream")).toHaveLength(0);
+  });
+
+  it("ends unsubscribed runs once as cancelled", async () => {
+    server.thread("t1", { checkpoints: turns }).assistant();
+    const ends: unknown[] = [];
+    const runner = createTestRunner(server, {
+      hooks: {
+        onRunEnd: ({ cancelled }) => {
+          ends.push(cancelled);
+        },
+      },
+    });
+
+    const subscription = runner
+      .run(continueRequest("t1", ["m1", "a1", "m2", "a2"]))
+      .subscribe({});
+    subscription.unsubscribe();
+    subscription.unsubscribe();
+
+    await vi.waitFor(() => expect(ends).toEqual([true]));
+  });
+
+  it("completes the run when onRunEnd throws", async () => {
+    server.thread("t1", { checkpoints: turns }).assistant();
+    const runner = createTestRunner(server, {
+      hooks: {
+        onRunEnd: () => {
+          throw new Error("Audit log unavailable");
+        },
+      },
+    });
+
+    const events = await collectEvents(
+      runner.run(continueRequest("t1", ["m1", "a1", "m2", "a2"]))
+    );
+
+    expect(errorCode(events)).toBeUndefined();
+    expect(events[events.length - 1]?.type).toBe(EventType.RUN_FINISHED);
+  });
+});
+
+describe("event middleware", () => {
+  it("passes connect() events through the middleware chain", async () => {
+    server.thread("t1", { checkpoints: turns });
+    const sources: unknown[] = [];
+    const runner = createTestRunner(server, {
+      eventMiddleware: [
+        (event, context) => {
+          sources.push(context);
+          return event.type === EventType.STATE_SNAPSHOT ? null : undefined;
+        },
+      ],
+    });
+
+    const events = await collectEvents(runner.connect({ threadId: "t1" }));
+
+    expect(events.map((event) => event.type)).not.toContain(
+      EventType.STATE_SNAPSHOT
+    );
+    expect(sources[0]).toEqual({ source: "connect", threadId: "t1" });
+  });
+
+  it("errors the stream when a middleware throws", async () => {
+    server.thread("t1", { checkpoints: turns });
+    const runner = createTestRunner(server, {
+      eventMiddleware: [
+        () => {
+          throw new Error("Broken middleware");
+        },
+      ],
+    });
+
+    await expect(
+      collectEvents(runner.connect({ threadId: "t1" }))
+    ).rejects.toThrow("Broken middleware");
+  });
+});
+
+describe("state projection", () => {
+  it("projects hydrated and streamed state before middleware sees it", async () => {
+    const values = { plan: { steps: ["a"], draft: "internal" }, apiKey: "k" };
+    const head = checkpoint("c1", undefined, ["m1"]);
+    server
+      .thread("t1", {
+        checkpoints: [
+          {
+            ...head,
+            values: { ...head.values, ...values },
+            next: ["agent"],
+          },
+        ],
+        runs: [{ run_id: "r1", status: "running" }],
+      })
+      .on("GET", "/threads/t1/runs/r1/stream", {
+        events: [{ event: "values", data: values }],
+      });
+    const seen: unknown[] = [];
+    const runner = createTestRunner(server, {
+      stateProjection: { exclude: ["apiKey", "plan.draft"] },
+      eventMiddleware: [
+        (event) => {
+          if (event.type === EventType.STATE_SNAPSHOT) {
+            seen.push((event as BaseEvent & { snapshot: unknown }).snapshot);
+          }
+        },
+      ],
+    });
+
+    const events = await collectEvents(runner.connect({ threadId: "t1" }));
+
+    const snapshots = events
+      .filter((event) => event.type === EventType.STATE_SNAPSHOT)
+      .map((event) => (event as BaseEvent & { snapshot: unknown }).snapshot);
+    expect(snapshots).toEqual([
+      expect.objectContaining({ plan: { steps: ["a"] } }),
+      { plan: { steps: ["a"] } },
+    ]);
+    expect(snapshots[0]).not.toHaveProperty("apiKey");
+    expect(seen).toEqual(snapshots);
+  });
+});
+
+describe("resolveTarget", () => {
+  let tenant: FakeLangGraphServer;
+
+  beforeEach(async () => {
+    tenant = await FakeLangGraphServer.start();
+  });
+
+  afterEach(async () => {
+    await tenant.close();
+  });
+
+  it("sends each call to the target resolved for its request", async () => {
+    tenant
+      .thread("t1", { checkpoints: turns })
+      .on("POST", /\/runs\/[^/]+\/cancel$/, { body: {} });
+    server.thread("t2", { checkpoints: turns });
+    const runner = createTestRunner(server, {
+      langsmithApiKey: "default-key",
+      resolveTarget: ({ threadId }) =>
+        threadId === "t1"
+          ? {
+              deploymentUrl: tenant.url,
+              langsmithApiKey: "tenant-key",
+              headers: { "x-tenant": "acme" },
+            }
+          : {},
+    });
+
+    await collectEvents(runner.connect({ threadId: "t1" }));
+    await runner.isRunning({ threadId: "t1" });
+    await runner.stop({ threadId: "t1" });
+    await collectEvents(runner.connect({ threadId: "t2" }));
+
+    expect(tenant.requests.length).toBeGreaterThan(0);
+    for (const request of tenant.requests) {
+      expect(request.headers["x-tenant"]).toBe("acme");
+      expect(request.headers["x-api-key"]).toBe("tenant-key");
+    }
+    // Unresolved fields fall back to the configured target
+    expect(server.requests.map((request) => request.path)).toContain(
+      "/threads/t2/history"
+    );
+    for (const request of server.requests) {
+      expect(request.headers["x-tenant"]).toBeUndefined();
+      expect(request.headers["x-api-key"]).toBe("default-key");
+    }
+  });
+
+  it("runs on the resolved deployment", async () => {
+    tenant.thread("t1", { checkpoints: turns }).assistant();
+    const runner = createTestRunner(server, {
+      resolveTarget: () => ({
+        deploymentUrl: tenant.url,
+        langsmithApiKey: "tenant-key",
+        headers: { "x-tenant": "acme" },
+      }),
+    });
+
+    const events = await collectEvents(
+      runner.run(continueRequest("t1", ["m1", "a1", "m2", "a2"]))
+    );
+
+    expect(errorCode(events)).toBeUndefined();
+    const stream = tenant.calls("POST", "/threads/t1/runs/stream");
+    expect(stream).toHaveLength(1);
+    expect(stream[0]?.headers).toMatchObject({
+      "x-tenant": "acme",
+      "x-api-key": "tenant-key",
+    });
+    expect(server.requests).toHaveLength(0);
+  });
+});
+
+describe("logging", () => {
+  it("logs structured entries and errors to the configured logger", async () => {
+    server.thread("t1", { checkpoints: turns });
+    const entries: Array<[string, LogFields]> = [];
+    const runner = createTestRunner(server, {
+      logger: {
+        ...noopLogger,
+        info: (fields, message = "") => entries.push([message, fields]),
+        warn: (fields, message = "") => entries.push([message, fields]),
+      },
+    });
+
+    await collectEvents(runner.connect({ threadId: "t1" }));
+    await runner.isRunning({ threadId: "t2" });
+
+    expect(entries).toEqual([
+      [
+        "Hydrated thread history",
+        expect.objectContaining({ threadId: "t1", checkpointId: "c4" }),
+      ],
+      [
+        "Failed to get thread status",
+        {
+          threadId: "t2",
+          err: expect.objectContaining({
+            name: "ThreadNotFoundError",
+            code: "THREAD_NOT_FOUND",
+            status: 404,
+          }),
+        },
+      ],
+    ]);
+  });
+});
+
+describe("thread ownership", () => {
+  function denied(error: unknown): boolean {
+    if (error instanceof ThreadAccessDeniedError) {
+      return false;
+    }
+    throw error;
+  }
+
+  // Each resolves to whether the caller was let through
+  const operations: Record<
+    string,
+    (runner: HistoryHydratingAgentRunner) => Promise<boolean>
+  > = {
+    run: async (runner) =>
+      errorCode(await collectEvents(runner.run(runRequest("t1")))) ===
+      "RUN_START_REJECTED",
+    connect: async (runner) =>
+      errorCode(await collectEvents(runner.connect({ threadId: "t1" }))) ===
+      undefined,
+    stop: async (runner) => (await runner.stop({ threadId: "t1" })) === true,
+    isRunning: (runner) => runner.isRunning({ threadId: "t1" }),
+    export: (runner) => runner.exportThread("t1").then(() => true, denied),
+  };
+
+  const callers = [
+    ["the owner", { user_id: "u1" }, { user_id: "u1" }, false, true],
+    ["another user", { user_id: "u2" }, { user_id: "u1" }, false, false],
+    ["a user of an unowned thread", { user_id: "u2" }, {}, false, false],
+    ["a user with allowUnowned", { user_id: "u2" }, {}, true, true],
+    ["an empty identity", {}, {}, true, false],
+  ] as const;
+
+  describe.each(Object.keys(operations))("%s", (operation) => {
+    it.each(callers)(
+      "checks %s",
+      async (_caller, identity, metadata, allowUnowned, allowed) => {
+        server.thread("t1", {
+          checkpoints: [checkpoint("c1", undefined, ["m1"])],
+          metadata,
+          status: "busy",
+          runs: [{ run_id: "r1", status: "running" }],
+        });
+        server.on("POST", "/threads/t1/runs/r1/cancel", { body: {} });
+        const runner = createTestRunner(server, {
+          ownership: { getIdentity: () => ({ ...identity }), allowUnowned },
+          // Authorized runs stop before the agent is called
+          hooks: {
+            onRunStart: () => {
+              throw new Error("Not running in tests");
+            },
+          },
+        });
+
+        expect(await operations[operation]!(runner)).toBe(allowed);
+        if (!allowed) {
+          expect(server.calls("POST", "/threads/t1/runs/r1/cancel")).toEqual(
+            []
+          );
+        }
+      }
+    );
+  });
+
+  it("import: creates new threads for any identity but an empty one", async () => {
+    server
+      .on("POST", "/threads", (request) => ({ body: request.body }))
+      .on("POST", "/threads/t2/state", {
+        body: { configurable: { checkpoint_id: "c1" } },
+      });
+    const messages = [{ id: "m1", role: "user" as const, content: "Hi" }];
+
+    const owned = createTestRunner(server, {
+      ownership: { getIdentity: () => ({ user_id: "u1" }) },
+    });
+    await expect(
+      owned.importThread(messages, { threadId: "t2" })
+    ).resolves.toEqual({ threadId: "t2", checkpointId: "c1", messageCount: 1 });
+    expect(server.calls("POST", "/threads")[0]?.body).toMatchObject({
+      thread_id: "t2",
+      metadata: { user_id: "u1" },
+    });
+
+    const anonymous = createTestRunner(server, {
+      ownership: { getIdentity: () => ({}), allowUnowned: true },
+    });
+    await expect(
+      anonymous.importThread(messages, { threadId: "t3" })
+    ).rejects.toThrow(ThreadAccessDeniedError);
+  });
+
+  it("import: refuses to import into another user's thread", async () => {
+    server.thread("t1", { metadata: { user_id: "u1" } });
+    const runner = createTestRunner(server, {
+      ownership: { getIdentity: () => ({ user_id: "u2" }) },
+    });
+
+    await expect(
+      runner.importThread([{ role: "user", content: "Hi" }], {
+        threadId: "t1",
+      })
+    ).rejects.toThrow(ThreadAccessDeniedError);
+    expect(server.calls("POST", "/threads")).toEqual([]);
+  });
+
+  it("run: leaves the cache alone when access is denied", async () => {
+    server.thread("t1", { metadata: { user_id: "u1" } });
+    const invalidated: string[] = [];
+    const runner = createTestRunner(server, {
+      ownership: { getIdentity: () => ({ user_id: "u2" }) },
+      cache: {
+        get: () => undefined,
+        set: () => {},
+        invalidate: (threadId) => {
+          invalidated.push(threadId);
+        },
+      },
+    });
+
+    await collectEvents(runner.run(runRequest("t1")));
+
+    expect(invalidated).toEqual([]);
+  });
+});
@@ -8,11 +8,13 @@
  * by fetching thread state and emitting MESSAGES_SNAPSHOT events.
  */
 
+import { randomUUID } from "node:crypto";
+
 import { type BaseEvent, EventType } from "@ag-ui/core";
 import { LangGraphAgent } from "@copilotkit/runtime/langgraph";
 import {
   AgentRunner,
-  type AgentRunnerConnectRequest,
+  type AgentRunnerIsRunningRequest,
   type AgentRunnerRunRequest,
   type AgentRunnerStopRequest,
 } from "@copilotkitnext/runtime";
@@ -21,19 +23,167 @@ import { Observable } from "rxjs";
 
 import {
   DEFAULT_HISTORY_LIMIT,
+  DEFAULT_RETRY_POLICY,
+  DEFAULT_RUNNING_STATUS_TTL,
+  DEFAULT_STREAM_RECONNECT,
   DEFAULT_TIMEOUT,
+  FORK_METADATA_KEY,
   MAX_HISTORY_LIMIT,
+  MAX_HISTORY_PAGE_WINDOWS,
 } from "./constants";
 import type {
+  CancelAction,
   FrozenAgentConfig,
+  HistoryConnectRequest,
+  HistoryForwardedProps,
   HistoryHydratingRunnerConfig,
+  HydrationFailureMode,
+  HydrationStrategy,
+  ImportedThread,
+  ImportThreadOptions,
   LangGraphMessage,
+  MessageRedactionOptions,
+  RetryPolicy,
+  RunHookContext,
+  RunnerRequest,
+  RunnerHooks,
   StateExtractor,
+  StreamReconnectOptions,
+  ThreadAccessContext,
+  ThreadAccessRequest,
+  ThreadOwnershipPolicy,
   ThreadState,
 } from "./types";
+import type {
+  HydrationCache,
+  HydrationCacheEntry,
+} from "../cache/hydration-cache";
+import {
+  LangGraphRequestError,
+  ThreadNotFoundError,
+} from "../errors/langgraph-errors";
+import { ThreadAccessDeniedError } from "../errors/thread-access-errors";
+import { HydrationEventNames } from "../events/hydration-events";
+import {
+  createConsoleLogger,
+  createRedactingLogger,
+  type LogFields,
+  type Logger,
+} from "../logging/logger";
+import {
+  createTelemetry,
+  type Telemetry,
+  type TelemetryAttributes,
+  type TelemetrySpan,
+} from "../telemetry/telemetry";
+import {
+  ThreadDirectory,
+  type ThreadDirectoryOptions,
+} from "../threads/thread-directory";
+import { ThreadManager } from "../threads/thread-manager";
+import {
+  createThreadTranscript,
+  getMessageTimestamps,
+  type ThreadTranscript,
+} from "../threads/thread-transcript";
+import { getBackoffDelay, sleep } from "../utils/backoff";
+import { withRetry, type RequestOptions } from "../utils/retry";
+import {
+  findCheckpointBeforeMessage,
+  getMessageBranches,
+} from "../utils/checkpoint-tree";
 import { createIsolatedAgent } from "../utils/create-isolated-agent";
-import { transformMessages } from "../utils/message-transformer";
-import { processStreamChunk, type StreamChunk } from "../utils/stream-processor";
+import {
+  applyEventMiddleware,
+  type EventMiddleware,
+  type EventMiddlewareContext,
+} from "../utils/event-middleware";
+import {
+  decodeHistoryCursor,
+  encodeHistoryCursor,
+  getCheckpointId,
+  getCheckpointStep,
+  sliceHistoryPage,
+  type HistoryCursor,
+  type HistoryPage,
+} from "../utils/history-pagination";
+import { resolveHydrationWindow } from "../utils/hydration-strategy";
+import {
+  getPendingInterrupts,
+  type PendingInterrupt,
+} from "../utils/interrupts";
+import {
+  toLangGraphMessages,
+  type ImportableMessage,
+} from "../utils/message-import";
+import { StreamRedactor } from "../utils/message-redaction";
+import {
+  transformMessages,
+  type TransformedMessage,
+} from "../utils/message-transformer";
+import {
+  createStateProjectionMiddleware,
+  createStateProjector,
+  type StateProjector,
+} from "../utils/state-projection";
+import {
+  processStreamChunk,
+  type ReplayFilter,
+  type StreamChunk,
+} from "../utils/stream-processor";
+
+/**
+ * Maximum number of threads whose running status is cached.
+ */
+const MAX_RUNNING_STATUS_ENTRIES = 1000;
+
+/**
+ * Converts a RUN_ERROR event to an Error carrying the event's code.
+ */
+function toRunError(event: BaseEvent): Error {
+  const { message, code } = event as BaseEvent & {
+    message?: string;
+    code?: string;
+  };
+  return Object.assign(new Error(message ?? "Run failed"), { code });
+}
+
+/**
+ * Checks whether thread metadata matches every key of the caller's
+ * identity. Metadata without any of the keys is unowned. An empty identity
+ * owns nothing.
+ */
+function isThreadOwner(
+  metadata: Record<string, unknown>,
+  identity: Record<string, string>,
+  allowUnowned = false
+): boolean {
+  const entries = Object.entries(identity);
+  if (entries.length === 0) {
+    return false;
+  }
+  if (allowUnowned && entries.every(([key]) => metadata[key] === undefined)) {
+    return true;
+  }
+  return entries.every(([key, value]) => metadata[key] === value);
+}
+
+/**
+ * Adds the caller's identity to the metadata the thread is created with.
+ */
+function withThreadOwner(
+  input: AgentRunnerRunRequest["input"],
+  owner: Record<string, string>
+): AgentRunnerRunRequest["input"] {
+  const forwardedProps = (input.forwardedProps ?? {}) as HistoryForwardedProps;
+  return {
+    ...input,
+    forwardedProps: {
+      ...forwardedProps,
+      threadMetadata: { ...forwardedProps.threadMetadata, ...owner },
+    },
+  };
+}
 
 /**
  * Custom AgentRunner that extends CopilotKit's base runner to add
@@ -66,12 +216,44 @@ import { processStreamChunk, type StreamChunk } from "../utils/stream-processor"
 export class HistoryHydratingAgentRunner extends AgentRunner {
   private agent: LangGraphAgent;
   private historyLimit: number;
+  private historyPageSize: number;
+  private hydrationStrategy: HydrationStrategy;
+  private cache?: HydrationCache;
+  private cancelAction: CancelAction;
+  private waitForCancel: boolean;
+  private runningStatusTtlMs: number;
+  private streamReconnect: Required<StreamReconnectOptions>;
+  private replayActiveRun: boolean;
+  private retryPolicy: Required<RetryPolicy>;
+  private hydrationFailureMode: HydrationFailureMode;
   private debug: boolean;
+  private logger: Logger;
+  private telemetry: Telemetry;
   private stateExtractor?: StateExtractor;
+  private targetResolver?: HistoryHydratingRunnerConfig["resolveTarget"];
+  private hooks: RunnerHooks;
+  private eventMiddleware: EventMiddleware[];
+  private stateProjector?: StateProjector;
+  private redaction: MessageRedactionOptions;
+  private ownership?: ThreadOwnershipPolicy;
   private activeRun: {
     manuallyEmittedState?: Record<string, unknown>;
   } = {};
 
+  /**
+   * Abort controllers of the streams joined by connect(), per thread,
+   * so stop() can close them.
+   */
+  private readonly joinedStreams = new Map<string, Set<AbortController>>();
+
+  /**
+   * Recent isRunning() results per thread.
+   */
+  private readonly runningStatus = new Map<
+    string,
+    { running: boolean; expiresAt: number }
+  >();
+
   /**
    * Frozen agent config to prevent shared state contamination.
    * We store the raw config values and create fresh Agent/Client instances per request.
@@ -84,13 +266,50 @@ export class HistoryHydratingAgentRunner extends AgentRunner {
     super();
     this.agent = config.agent;
     this.debug = config.debug ?? false;
+    this.logger = createRedactingLogger(
+      config.logger ??
+        createConsoleLogger({
+          prefix: "HistoryHydratingRunner",
+          debug: this.debug,
+        }),
+      { redactContent: !config.logMessageContent }
+    );
+    this.telemetry = createTelemetry(config.telemetry);
     this.stateExtractor = config.stateExtractor;
+    this.targetResolver = config.resolveTarget;
+    this.hooks = config.hooks ?? {};
+    // Projection runs first, so middleware only sees what the client gets
+    this.eventMiddleware = [
+      ...(config.stateProjection
+        ? [createStateProjectionMiddleware(config.stateProjection)]
+        : []),
+      ...(config.eventMiddleware ?? []),
+    ];
+    this.stateProjector = config.stateProjection
+      ? createStateProjector(config.stateProjection)
+      : undefined;
+    this.redaction = config.redaction ?? {};
+    this.ownership = config.ownership;
 
     // LangGraph API has a maximum limit of 1000 for history endpoint
     this.historyLimit = Math.min(
       config.historyLimit ?? DEFAULT_HISTORY_LIMIT,
       MAX_HISTORY_LIMIT
     );
+    this.historyPageSize = config.historyPageSize ?? this.historyLimit;
+    this.hydrationStrategy = config.hydrationStrategy ?? "merge";
+    this.cache = config.cache;
+    this.cancelAction = config.cancelAction ?? "interrupt";
+    this.waitForCancel = config.waitForCancel ?? false;
+    this.runningStatusTtlMs =
+      config.runningStatusTtlMs ?? DEFAULT_RUNNING_STATUS_TTL;
+    this.streamReconnect = {
+      ...DEFAULT_STREAM_RECONNECT,
+      ...config.streamReconnect,
+    };
+    this.replayActiveRun = config.replayActiveRun ?? false;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...config.retry };
+    this.hydrationFailureMode = config.hydrationFailureMode ?? "empty";
 
     // Freeze the config to prevent mutation
     this.frozenConfig = Object.freeze({
@@ -102,51 +321,221 @@ export class HistoryHydratingAgentRunner extends AgentRunner {
   }
 
   /**
-   * Creates a fresh LangGraphAgent instance using the frozen config.
+   * Resolves the deployment and credentials for a call: the frozen config,
+   * with the fields returned by `resolveTarget` applied. The result is a
+   * frozen copy, so a resolver reusing its objects cannot affect clients
+   * that were already created.
+   */
+  private async resolveTarget(
+    request: RunnerRequest
+  ): Promise<Readonly<FrozenAgentConfig>> {
+    if (!this.targetResolver) {
+      return this.frozenConfig;
+    }
+
+    const target = await this.targetResolver(request);
+    return Object.freeze({
+      ...this.frozenConfig,
+      deploymentUrl: target.deploymentUrl ?? this.frozenConfig.deploymentUrl,
+      langsmithApiKey:
+        target.langsmithApiKey ?? this.frozenConfig.langsmithApiKey,
+      headers: target.headers
+        ? Object.freeze({ ...target.headers })
+        : undefined,
+    });
+  }
+
+  /**
+   * Creates a fresh LangGraphAgent instance for the request's target.
    * Uses our isolated agent creator to prevent shared state contamination.
    */
-  private createFreshAgent(): LangGraphAgent {
+  private async createFreshAgent(
+    request: RunnerRequest
+  ): Promise<LangGraphAgent> {
+    const target = await this.resolveTarget(request);
     return createIsolatedAgent({
-      deploymentUrl: this.frozenConfig.deploymentUrl,
-      graphId: this.frozenConfig.graphId,
-      langsmithApiKey: this.frozenConfig.langsmithApiKey,
-      clientTimeoutMs: this.frozenConfig.clientTimeoutMs,
+      deploymentUrl: target.deploymentUrl,
+      graphId: target.graphId,
+      langsmithApiKey: target.langsmithApiKey,
+      headers: target.headers,
+      clientTimeoutMs: target.clientTimeoutMs,
+      logger: this.logger,
     });
   }
 
   /**
-   * Creates a fresh LangGraph Client instance using the frozen config.
+   * Creates a fresh LangGraph Client instance for the request's target.
    * This prevents shared state contamination in serverless environments.
    */
-  private createFreshClient(): Client {
+  private async createFreshClient(request: RunnerRequest): Promise<Client> {
+    const target = await this.resolveTarget(request);
     return new Client({
-      apiUrl: this.frozenConfig.deploymentUrl,
-      apiKey: this.frozenConfig.langsmithApiKey,
-      timeoutMs: this.frozenConfig.clientTimeoutMs,
+      apiUrl: target.deploymentUrl,
+      apiKey: target.langsmithApiKey,
+      timeoutMs: target.clientTimeoutMs,
+      // A copy, as the client adds its API key header to them
+      defaultHeaders: target.headers ? { ...target.headers } : undefined,
+      // Retries are handled by the runner's retry policy
+      callerOptions: { maxRetries: 0 },
+    });
+  }
+
+  /**
+   * Calls the LangGraph API with the configured retry policy. Calls that
+   * are not idempotent are attempted once.
+   * Failures are thrown as typed errors (see LangGraphRequestError).
+   */
+  private request<T>(
+    operation: string,
+    threadId: string,
+    fn: () => Promise<T>,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    return this.telemetry.trace(
+      `client.${operation}`,
+      { "langgraph.thread_id": threadId },
+      (span) =>
+        withRetry(fn, this.retryPolicy, {
+          operation,
+          idempotent: options.idempotent ?? true,
+          threadId,
+          resource: options.resource,
+          onRetry: (error, attempt, delayMs) => {
+            span.setAttribute("langgraph_history.retry_count", attempt);
+            this.warn(`${operation} failed, retrying`, {
+              threadId,
+              operation,
+              attempt,
+              maxAttempts: this.retryPolicy.maxAttempts,
+              delayMs: Math.round(delayMs),
+              err: error,
+            });
+          },
+        })
+    );
+  }
+
+  /**
+   * Transforms LangGraph messages to CopilotKit format inside a span.
+   */
+  private transform(messages: LangGraphMessage[]): TransformedMessage[] {
+    return this.telemetry.trace(
+      "transform_messages",
+      { "langgraph_history.input_message_count": messages.length },
+      (span) => {
+        const transformed = transformMessages(messages, {
+          debug: this.debug,
+          logger: this.logger,
+          redact: this.redaction.redact,
+          dropSystemMessages: this.redaction.dropSystemMessages,
+        });
+        span.setAttribute("langgraph.message_count", transformed.length);
+        return transformed;
+      }
+    );
+  }
+
+  /**
+   * Wraps an event stream in a span that lasts from subscription until the
+   * stream completes, errors or is unsubscribed. Events are counted, and a
+   * RUN_ERROR event - or a call to `fail` for errors handled without one -
+   * marks the span as failed, once.
+   *
+   * The stream is created by `factory` inside the span, so work it starts
+   * (including LangGraph client calls) is traced as children of the span.
+   */
+  private instrument(
+    operation: string,
+    attributes: TelemetryAttributes,
+    factory: (
+      span: TelemetrySpan,
+      fail: (error: unknown) => void
+    ) => Observable<BaseEvent>
+  ): Observable<BaseEvent> {
+    return new Observable<BaseEvent>((subscriber) => {
+      let subscription: { unsubscribe: () => void } | undefined;
+      let finish: (() => void) | undefined;
+
+      this.telemetry
+        .trace(
+          operation,
+          attributes,
+          (span) =>
+            new Promise<void>((resolve, reject) => {
+              let eventCount = 0;
+              let failed = false;
+              let settled = false;
+              const fail = (error: unknown) => {
+                if (!failed) {
+                  failed = true;
+                  this.telemetry.recordFailure(span, operation, error);
+                }
+              };
+              const settle = (error?: unknown) => {
+                if (settled) {
+                  return;
+                }
+                settled = true;
+                span.setAttribute("langgraph_history.event_count", eventCount);
+                this.telemetry.recordEvents(eventCount, {
+                  "langgraph_history.operation": operation,
+                });
+                if (error === undefined) {
+                  resolve();
+                } else {
+                  reject(error);
+                }
+              };
+              finish = () => settle();
+
+              subscription = factory(span, fail).subscribe({
+                next: (event) => {
+                  eventCount++;
+                  if (event.type === EventType.RUN_ERROR) {
+                    fail(toRunError(event));
+                  }
+                  subscriber.next(event);
+                },
+                error: (error: unknown) => {
+                  settle(error);
+                  subscriber.error(error);
+                },
+                complete: () => {
+                  settle();
+                  subscriber.complete();
+                },
+              });
+            })
+        )
+        // Errors reach the subscriber directly; this only ends the span
+        .catch(() => {});
+
+      return () => {
+        subscription?.unsubscribe();
+        finish?.();
+      };
     });
   }
 
   /**
    * Log a message if debug mode is enabled.
    */
-  private log(message: string, ...args: unknown[]): void {
-    if (this.debug) {
-      console.log(`[HistoryHydratingRunner] ${message}`, ...args);
-    }
+  private log(message: string, fields: LogFields = {}): void {
+    this.logger.debug(fields, message);
   }
 
   /**
    * Log a warning.
    */
-  private warn(message: string, ...args: unknown[]): void {
-    console.warn(`[HistoryHydratingRunner] ${message}`, ...args);
+  private warn(message: string, fields: LogFields = {}): void {
+    this.logger.warn(fields, message);
   }
 
   /**
    * Log an error.
    */
-  private error(message: string, ...args: unknown[]): void {
-    console.error(`[HistoryHydratingRunner] ${message}`, ...args);
+  private error(message: string, fields: LogFields = {}): void {
+    this.logger.error(fields, message);
   }
 
   /**
@@ -156,13 +545,10 @@ export class HistoryHydratingAgentRunner extends AgentRunner {
    * Vercel serverless environments. Create a completely fresh agent with
    * our frozen config to guarantee the correct deployment URL is used.
    */
-  run(request: AgentRunnerRunRequest) {
-    // Create a fresh agent to bypass any shared state contamination
-    const freshAgent = this.createFreshAgent();
-
+  run(request: AgentRunnerRunRequest): Observable<BaseEvent> {
     // Extract state values using the configured extractor or default passthrough
     const inputWithProps = request.input as typeof request.input & {
-      forwardedProps?: { configurable?: Record<string, unknown> };
+      forwardedProps?: HistoryForwardedProps;
     };
     const forwardedProps = inputWithProps.forwardedProps;
     const existingState = (request.input.state || {}) as Record<string, unknown>;
@@ -181,17 +567,13 @@ export class HistoryHydratingAgentRunner extends AgentRunner {
       enrichedState = existingState;
     }
 
-    this.log("State extraction:", {
+    this.log("State extraction", {
       hasStateExtractor: !!this.stateExtractor,
       hasForwardedProps: !!forwardedProps,
       hasState: !!request.input.state,
       threadId: request.input.threadId,
     });
 
-    // CRITICAL: Set state on the fresh agent before running
-    // This ensures the agent has the state configured before the run starts
-    freshAgent.setState(enrichedState);
-
     // Create modified input with state values injected
     // This ensures LangGraph starts with these values from the first message
     const inputWithState = {
@@ -199,322 +581,2116 @@ export class HistoryHydratingAgentRunner extends AgentRunner {
       state: enrichedState,
     };
 
-    return freshAgent.run(inputWithState);
-  }
+    return this.instrument(
+      "run",
+      {
+        "langgraph.thread_id": request.threadId,
+        "langgraph.run_id": request.input.runId,
+        "langgraph.message_count": request.input.messages.length,
+      },
+      () =>
+        this.applyMiddleware(
+          "run",
+          request.threadId,
+          this.redactEvents(
+            this.withAuthorization(
+              "run",
+              request,
+              request.input.runId,
+              (owner) => {
+                // The run will move the thread head, so cached state is stale
+                this.invalidateThread(request.threadId);
 
-  /**
-   * Delegate isRunning to the agent.
-   */
-  async isRunning(): Promise<boolean> {
-    return this.agent.isRunning;
+                return this.withRunHooks(inputWithState, () =>
+                  // Create a fresh agent to bypass any shared state contamination
+                  this.runAfter(
+                    inputWithState,
+                    "TARGET_RESOLUTION_FAILED",
+                    async () =>
+                      this.startRun(
+                        await this.createFreshAgent(request),
+                        request,
+                        owner
+                          ? withThreadOwner(inputWithState, owner)
+                          : inputWithState,
+                        forwardedProps
+                      )
+                  )
+                );
+              }
+            )
+          )
+        )
+    );
   }
 
   /**
-   * Delegate stop to the agent.
+   * Starts the run on the fresh agent, forking or resuming interrupts when
+   * requested by the forwarded props.
    */
-  async stop(_request: AgentRunnerStopRequest): Promise<boolean | undefined> {
-    const result = this.agent.abortRun();
-    return result !== undefined ? result : true;
+  private startRun(
+    freshAgent: LangGraphAgent,
+    request: AgentRunnerRunRequest,
+    input: AgentRunnerRunRequest["input"],
+    forwardedProps: HistoryForwardedProps | undefined
+  ): Observable<BaseEvent> {
+    // CRITICAL: Set state on the fresh agent before running
+    // This ensures the agent has the state configured before the run starts
+    freshAgent.setState(input.state);
+
+    const runAgent = (runInput: AgentRunnerRunRequest["input"]) =>
+      freshAgent.run(runInput) as unknown as Observable<BaseEvent>;
+
+    // Edit / regenerate: run on a new branch forked before the given message
+    if (typeof forwardedProps?.forkFromMessageId === "string") {
+      const messageId = forwardedProps.forkFromMessageId;
+      return this.runAfter(input, "FORK_FAILED", async () => {
+        const client = await this.createFreshClient(request);
+        return runAgent(await this.prepareFork(client, input, messageId));
+      });
+    }
+
+    // Resume specific interrupts by ID
+    const resumeInterrupts = forwardedProps?.resumeInterrupts;
+    if (resumeInterrupts && typeof resumeInterrupts === "object") {
+      return this.runAfter(input, "INTERRUPT_RESUME_FAILED", async () => {
+        const client = await this.createFreshClient(request);
+        return runAgent(
+          await this.prepareResume(client, input, resumeInterrupts)
+        );
+      });
+    }
+
+    return runAgent(input);
   }
 
   /**
-   * Override connect to add history hydration support.
+   * Checks access to the request's thread before subscribing to the stream
+   * created by `start`. Refused or failed checks emit RUN_STARTED and
+   * RUN_ERROR instead.
    *
-   * When reconnecting to a thread:
-   * 1. Fetches ALL thread history (checkpoints) from LangGraph
-   * 2. Extracts and deduplicates messages from all checkpoints
-   * 3. Transforms historical messages to CopilotKit format
-   * 4. Emits MESSAGES_SNAPSHOT and STATE_SNAPSHOT events
-   * 5. Completes the observable
+   * `start` receives the caller's identity when the thread does not exist
+   * yet, so run() can create it with ownership metadata.
    */
-  connect(request: AgentRunnerConnectRequest): Observable<BaseEvent> {
-    const { threadId } = request;
+  private withAuthorization(
+    source: ThreadAccessContext["source"],
+    request: ThreadAccessRequest,
+    runId: string,
+    start: (owner?: Record<string, string>) => Observable<BaseEvent>
+  ): Observable<BaseEvent> {
+    if (!this.ownership && !this.hooks.authorizeThread) {
+      return start();
+    }
 
-    // CRITICAL: Create a fresh Client per connect() call to prevent
-    // shared state contamination in Vercel serverless environments.
-    const client = this.createFreshClient();
+    const { threadId } = request;
 
     return new Observable<BaseEvent>((subscriber) => {
-      const hydrate = async () => {
-        try {
-          // Fetch ALL thread history (checkpoints) from LangGraph
-          // Using fresh client to ensure correct URL
-          const history = await client.threads.getHistory(threadId, {
-            limit: this.historyLimit > 0 ? this.historyLimit : DEFAULT_HISTORY_LIMIT,
-          });
+      let innerSubscription: { unsubscribe: () => void } | undefined;
+      let closed = false;
 
-          if (!history || history.length === 0) {
-            this.warn(`No history found for thread ${threadId}`);
-            // Still emit required events so frontend doesn't get empty response
-            const fallbackRunId =
-              "hydration_" + Math.random().toString(36).slice(2);
-            subscriber.next({
-              type: EventType.RUN_STARTED,
-              timestamp: Date.now(),
-              threadId,
-              runId: fallbackRunId,
-            } as BaseEvent);
-            subscriber.next({
-              type: EventType.MESSAGES_SNAPSHOT,
-              messages: [],
-              timestamp: Date.now(),
-              threadId,
-              runId: fallbackRunId,
-            } as BaseEvent);
-            subscriber.next({
-              type: EventType.RUN_FINISHED,
-              timestamp: Date.now(),
-              threadId,
-              runId: fallbackRunId,
-            } as BaseEvent);
-            subscriber.complete();
+      this.authorizeThread(request, { source, threadId })
+        .then(({ identity, exists }) => {
+          if (closed) {
             return;
           }
-
-          // Extract messages from all checkpoints
-          // Checkpoints are returned newest-first, so we reverse to get chronological order
-          const allMessages: LangGraphMessage[] = [];
-          const seenMessageIds = new Set<string>();
-
-          // Process checkpoints in reverse order (oldest to newest) to maintain chronological order
-          for (const checkpoint of history.reverse()) {
-            const state = checkpoint as unknown as ThreadState;
-            if (state.values?.messages) {
-              const messages = (state.values.messages ||
-                []) as LangGraphMessage[];
-
-              // Add messages we haven't seen yet (deduplicate by ID)
-              for (const msg of messages) {
-                if (!seenMessageIds.has(msg.id)) {
-                  seenMessageIds.add(msg.id);
-                  allMessages.push(msg);
-                }
-              }
-            }
-          }
-
-          this.log(
-            `Loaded ${allMessages.length} unique messages from ${history.length} checkpoints`
+          innerSubscription = start(exists ? undefined : identity).subscribe(
+            subscriber
           );
-
-          // Apply history limit if configured (after deduplication)
-          const limitedMessages =
-            this.historyLimit > 0
-              ? allMessages.slice(-this.historyLimit)
-              : allMessages;
-
-          // Transform LangGraph messages to CopilotKit format
-          const transformedMessages = transformMessages(limitedMessages, {
-            debug: this.debug,
-          });
-
-          // Fetch runs to get the latest runId
-          let runId: string;
-          try {
-            const runs = await client.runs.list(threadId);
-            // Use the most recent run ID if available
-            runId =
-              runs && runs.length > 0
-                ? runs[0]!.run_id
-                : "hydration_" + Math.random().toString(36).slice(2);
-          } catch (error) {
-            this.warn("Failed to fetch runs, using generated ID:", error);
-            runId = "hydration_" + Math.random().toString(36).slice(2);
+        })
+        .catch((error: unknown) => {
+          if (closed) {
+            return;
+          }
+          const code = (error as { code?: unknown } | null)?.code;
+          if (error instanceof ThreadAccessDeniedError) {
+            this.warn("Thread access denied", { threadId, source, err: error });
+          } else {
+            this.error("Thread authorization failed", {
+              threadId,
+              source,
+              err: error,
+            });
           }
-
-          // Emit RUN_STARTED event first - CopilotKit requires this as the first event
           subscriber.next({
             type: EventType.RUN_STARTED,
             timestamp: Date.now(),
             threadId,
             runId,
           } as BaseEvent);
-
-          // Emit MESSAGES_SNAPSHOT event - this is what the frontend needs for hydration
           subscriber.next({
-            type: EventType.MESSAGES_SNAPSHOT,
-            messages: transformedMessages,
+            type: EventType.RUN_ERROR,
+            message: error instanceof Error ? error.message : String(error),
+            code: typeof code === "string" ? code : "THREAD_ACCESS_DENIED",
             timestamp: Date.now(),
             threadId,
             runId,
           } as BaseEvent);
+          subscriber.complete();
+        });
 
-          // Get the latest checkpoint state (first in original history, last after reverse)
-          const latestState = history[
-            history.length - 1
-          ] as unknown as ThreadState;
+      return () => {
+        closed = true;
+        innerSubscription?.unsubscribe();
+      };
+    });
+  }
 
-          // Emit STATE_SNAPSHOT event with latest state values
-          // This hydrates other state fields like searchTools, triggers, plan, etc.
-          if (latestState.values) {
-            subscriber.next({
-              type: "STATE_SNAPSHOT" as unknown as typeof EventType.CUSTOM,
-              snapshot: latestState.values,
-              rawEvent: {
-                id: runId,
-                event: "values",
-                data: latestState.values,
-              },
-              timestamp: Date.now(),
-              threadId,
-              runId,
-            } as unknown as BaseEvent);
-          }
+  /**
+   * Applies the ownership policy, then `hooks.authorizeThread`.
+   * Throws ThreadAccessDeniedError when access is refused.
+   *
+   * @returns The caller's identity (with an ownership policy), and whether
+   *   the thread exists - false when the policy found no thread to check
+   */
+  private async authorizeThread(
+    request: ThreadAccessRequest,
+    context: ThreadAccessContext
+  ): Promise<{ identity?: Record<string, string>; exists: boolean }> {
+    const { threadId } = context;
+    let identity: Record<string, string> | undefined;
+    let exists = true;
 
-          // Check for interrupts in tasks from the latest checkpoint
-          const interruptedTask = latestState.tasks?.find(
-            (task) => task.interrupts && task.interrupts.length > 0
-          );
+    if (this.ownership) {
+      identity = await this.resolveIdentity(this.ownership, request, context);
 
-          if (
-            interruptedTask &&
-            interruptedTask.interrupts &&
-            interruptedTask.interrupts.length > 0
-          ) {
-            const interrupt = interruptedTask.interrupts[0];
-            const interruptValue = interrupt?.value;
+      const client = await this.createFreshClient(request);
+      let metadata: Record<string, unknown> | undefined;
+      try {
+        const thread = await this.request("getThread", threadId, () =>
+          client.threads.get(threadId)
+        );
+        metadata = (thread.metadata ?? {}) as Record<string, unknown>;
+      } catch (error) {
+        // A new thread has no owner yet; run() creates it for the caller
+        if (!(error instanceof ThreadNotFoundError)) {
+          throw error;
+        }
+      }
 
-            // Emit custom interrupt event
-            subscriber.next({
-              type: "CUSTOM" as unknown as typeof EventType.CUSTOM,
-              name: "on_interrupt",
-              value: JSON.stringify(interruptValue),
-              rawEvent: {
-                id: runId,
-                value: interruptValue,
-              },
-              timestamp: Date.now(),
-              threadId,
-              runId,
-            } as unknown as BaseEvent);
-          }
+      if (!metadata) {
+        exists = false;
+      } else if (
+        !isThreadOwner(metadata, identity, this.ownership.allowUnowned)
+      ) {
+        throw new ThreadAccessDeniedError(
+          `Access to thread ${threadId} denied`,
+          { threadId }
+        );
+      }
+    }
 
-          // Check if thread is busy and has an active run to join (from latest checkpoint)
-          const isThreadBusy = latestState.next && latestState.next.length > 0;
+    const allowed = await this.hooks.authorizeThread?.(
+      threadId,
+      request,
+      context
+    );
+    if (allowed === false) {
+      throw new ThreadAccessDeniedError(`Access to thread ${threadId} denied`, {
+        threadId,
+      });
+    }
 
-          let activeRun: Run | undefined;
-          if (isThreadBusy) {
-            try {
-              const runs = await client.runs.list(threadId);
-              // Find the most recent active run
-              activeRun = runs?.find(
-                (run: Run) =>
-                  run.status === "running" || run.status === "pending"
-              );
-            } catch (error) {
-              this.warn("Failed to check for active runs:", error);
-            }
-          }
+    return { identity, exists };
+  }
 
-          // If there's an active run, join the stream
-          if (activeRun) {
-            this.log(`Joining active stream for run ${activeRun.run_id}`);
-            try {
-              await this.joinAndProcessStream(
-                client,
-                threadId,
-                activeRun.run_id,
-                subscriber
-              );
-            } catch (error) {
-              this.error("Error joining stream:", error);
-              // Continue to complete even if stream joining fails
-            }
-          } else {
-            // No active run - emit RUN_FINISHED and complete
-            subscriber.next({
-              type: EventType.RUN_FINISHED,
-              timestamp: Date.now(),
-              threadId,
-              runId,
-            } as BaseEvent);
-          }
+  /**
+   * Returns the caller's identity from the ownership policy.
+   * Throws ThreadAccessDeniedError when there is none.
+   */
+  private async resolveIdentity(
+    ownership: ThreadOwnershipPolicy,
+    request: ThreadAccessRequest,
+    context: ThreadAccessContext
+  ): Promise<Record<string, string>> {
+    const identity = await ownership.getIdentity(request, context);
+    // An empty identity would match every thread
+    if (!identity || Object.keys(identity).length === 0) {
+      throw new ThreadAccessDeniedError(
+        context.threadId
+          ? `No identity to access thread ${context.threadId}`
+          : "No identity to list threads",
+        { threadId: context.threadId }
+      );
+    }
+    return identity;
+  }
 
-          // Complete - history hydration done
-          subscriber.complete();
-        } catch (error) {
-          this.error("Failed to hydrate history:", error);
-          // Fall back: emit required events so frontend doesn't get empty response
-          const fallbackRunId =
-            "hydration_error_" + Math.random().toString(36).slice(2);
-          subscriber.next({
-            type: EventType.RUN_STARTED,
-            timestamp: Date.now(),
-            threadId,
-            runId: fallbackRunId,
-          } as BaseEvent);
-          subscriber.next({
-            type: EventType.MESSAGES_SNAPSHOT,
-            messages: [],
-            timestamp: Date.now(),
-            threadId,
-            runId: fallbackRunId,
-          } as BaseEvent);
-          subscriber.next({
-            type: EventType.RUN_FINISHED,
-            timestamp: Date.now(),
-            threadId,
-            runId: fallbackRunId,
-          } as BaseEvent);
-          subscriber.complete();
+  /**
+   * Runs `hooks.onRunStart` before the run starts and `hooks.onRunEnd`
+   * after it ends. The run is created by `start` only once onRunStart has
+   * resolved.
+   */
+  private withRunHooks(
+    input: AgentRunnerRunRequest["input"],
+    start: () => Observable<BaseEvent>
+  ): Observable<BaseEvent> {
+    const { onRunStart, onRunEnd } = this.hooks;
+    const context: RunHookContext = {
+      threadId: input.threadId,
+      runId: input.runId,
+      input,
+    };
+
+    const run$ = onRunStart
+      ? this.runAfter(input, "RUN_START_REJECTED", async () => {
+          await onRunStart(context);
+          return start();
+        })
+      : start();
+
+    if (!onRunEnd) {
+      return run$;
+    }
+
+    return new Observable<BaseEvent>((subscriber) => {
+      let runError: unknown;
+      let ended = false;
+      // Runs the hook once, whether the stream ends or is unsubscribed
+      const end = (done: () => void, cancelled = false) => {
+        if (ended) {
+          return;
         }
+        ended = true;
+        Promise.resolve()
+          .then(() =>
+            onRunEnd({
+              ...context,
+              error: runError,
+              ...(cancelled ? { cancelled } : {}),
+            })
+          )
+          .catch((error: unknown) =>
+            this.warn("onRunEnd hook failed", {
+              threadId: context.threadId,
+              runId: context.runId,
+              err: error,
+            })
+          )
+          .finally(done);
       };
 
-      hydrate();
+      const subscription = run$.subscribe({
+        next: (event) => {
+          if (event.type === EventType.RUN_ERROR) {
+            runError = toRunError(event);
+          }
+          subscriber.next(event);
+        },
+        error: (error: unknown) => {
+          runError = error;
+          end(() => subscriber.error(error));
+        },
+        complete: () => end(() => subscriber.complete()),
+      });
+
+      return () => {
+        subscription.unsubscribe();
+        end(() => {}, true);
+      };
     });
   }
 
   /**
-   * Joins an active stream and processes its events.
-   *
-   * This method connects to an already-running LangGraph execution and
-   * processes all incoming events, transforming them to BaseEvent format.
-   *
-   * Tracks started messages and tool calls to handle mid-stream joins where
-   * we might receive CONTENT/END events without having seen START events.
+   * Creates the redactor for one joined stream or run, or undefined when
+   * redaction is not configured.
    */
-  private async joinAndProcessStream(
-    client: Client,
-    threadId: string,
-    runId: string,
-    subscriber: {
-      next: (event: BaseEvent) => void;
-      complete: () => void;
-      error: (err: unknown) => void;
+  private createStreamRedactor(): StreamRedactor | undefined {
+    const { redact, dropSystemMessages, holdback } = this.redaction;
+    if (redact) {
+      return new StreamRedactor(redact, { holdback, dropSystemMessages });
+    }
+    // Only system messages to drop - nothing to hold back
+    return dropSystemMessages
+      ? new StreamRedactor((text) => text, {
+          holdback: 0,
+          dropSystemMessages,
+        })
+      : undefined;
+  }
+
+  /**
+   * Redacts the events of a run, with a new redactor per subscription.
+   */
+  private redactEvents(events$: Observable<BaseEvent>): Observable<BaseEvent> {
+    if (!this.redaction.redact && !this.redaction.dropSystemMessages) {
+      return events$;
+    }
+
+    return new Observable<BaseEvent>((subscriber) => {
+      const redactor = this.createStreamRedactor()!;
+      const subscription = events$.subscribe({
+        next: (event) => {
+          for (const output of redactor.process(event)) {
+            subscriber.next(output);
+          }
+        },
+        error: (error: unknown) => subscriber.error(error),
+        complete: () => subscriber.complete(),
+      });
+
+      return () => subscription.unsubscribe();
+    });
+  }
+
+  /**
+   * Passes every event of `events$` through the configured event middleware.
+   * A middleware that throws errors the stream.
+   */
+  private applyMiddleware(
+    source: EventMiddlewareContext["source"],
+    threadId: string,
+    events$: Observable<BaseEvent>
+  ): Observable<BaseEvent> {
+    if (this.eventMiddleware.length === 0) {
+      return events$;
+    }
+
+    return new Observable<BaseEvent>((subscriber) => {
+      const subscription = events$.subscribe({
+        next: (event) => {
+          let events: BaseEvent[];
+          try {
+            events = applyEventMiddleware(event, this.eventMiddleware, {
+              source,
+              threadId,
+            });
+          } catch (error) {
+            this.error("Event middleware failed", {
+              threadId,
+              eventType: event.type,
+              err: error,
+            });
+            subscriber.error(error);
+            return;
+          }
+          for (const output of events) {
+            subscriber.next(output);
+          }
+        },
+        error: (error: unknown) => subscriber.error(error),
+        complete: () => subscriber.complete(),
+      });
+
+      return () => subscription.unsubscribe();
+    });
+  }
+
+  /**
+   * Subscribes to the run returned by `start` once it resolves.
+   * If `start` fails, emits RUN_STARTED and RUN_ERROR with `code` instead
+   * of running.
+   */
+  private runAfter(
+    input: AgentRunnerRunRequest["input"],
+    code: string,
+    start: () => Promise<Observable<BaseEvent>>
+  ): Observable<BaseEvent> {
+    const { threadId } = input;
+
+    return new Observable<BaseEvent>((subscriber) => {
+      let innerSubscription: { unsubscribe: () => void } | undefined;
+      let closed = false;
+
+      start()
+        .then((run$) => {
+          if (closed) {
+            return;
+          }
+          innerSubscription = run$.subscribe(subscriber);
+        })
+        .catch((error: unknown) => {
+          this.error("Failed to start run", {
+            threadId,
+            runId: input.runId,
+            code,
+            err: error,
+          });
+          subscriber.next({
+            type: EventType.RUN_STARTED,
+            timestamp: Date.now(),
+            threadId,
+            runId: input.runId,
+          } as BaseEvent);
+          subscriber.next({
+            type: EventType.RUN_ERROR,
+            message: error instanceof Error ? error.message : String(error),
+            code,
+            timestamp: Date.now(),
+            threadId,
+            runId: input.runId,
+          } as BaseEvent);
+          subscriber.complete();
+        });
+
+      return () => {
+        closed = true;
+        innerSubscription?.unsubscribe();
+      };
+    });
+  }
+
+  /**
+   * Forks the thread from the checkpoint that precedes the given message,
+   * so an earlier prompt can be edited or an answer regenerated.
+   *
+   * The fork point's state is written back as a new checkpoint (the new
+   * thread head), then the run proceeds normally with the edited input.
+   * The fork point is recorded in the run's metadata, which LangGraph copies
+   * to every checkpoint the run writes, so later hydrations skip the
+   * abandoned branch. updateState() takes no metadata, and patching it
+   * afterwards could mark a checkpoint written by another run in between.
+   */
+  private async prepareFork(
+    client: Client,
+    input: AgentRunnerRunRequest["input"],
+    messageId: string
+  ): Promise<AgentRunnerRunRequest["input"]> {
+    const { threadId } = input;
+    const history = (await this.request("getHistory", threadId, () =>
+      client.threads.getHistory(threadId, {
+        limit: this.getCheckpointLimit(),
+      })
+    )) as unknown as ThreadState[];
+
+    const forkPoint = findCheckpointBeforeMessage(history, messageId);
+    const forkCheckpointId = forkPoint ? getCheckpointId(forkPoint) : undefined;
+    if (!forkPoint || !forkCheckpointId) {
+      throw new Error(
+        `No checkpoint found before message ${messageId} in the last ${history.length} checkpoints`
+      );
+    }
+
+    // Branch off the fork point - the new checkpoint becomes the thread head
+    await this.request(
+      "updateState",
+      threadId,
+      () =>
+        client.threads.updateState(threadId, {
+          values: forkPoint.values,
+          checkpointId: forkCheckpointId,
+          asNode: forkPoint.next?.[0] ?? "__start__",
+        }),
+      { idempotent: false, resource: "checkpoint" }
+    );
+
+    this.log("Forked thread before message", {
+      threadId,
+      checkpointId: forkCheckpointId,
+      messageId,
+    });
+
+    const { forkFromMessageId: _forkFromMessageId, ...forwardedProps } =
+      (input.forwardedProps ?? {}) as HistoryForwardedProps;
+
+    return {
+      ...input,
+      forwardedProps: {
+        ...forwardedProps,
+        metadata: {
+          ...(forwardedProps["metadata"] as Record<string, unknown>),
+          [FORK_METADATA_KEY]: forkCheckpointId,
+        },
+      },
+    };
+  }
+
+  /**
+   * Turns `resumeInterrupts` into a LangGraph `Command({ resume })` keyed by
+   * interrupt ID, after checking every ID against the thread's pending,
+   * resumable interrupts.
+   */
+  private async prepareResume(
+    client: Client,
+    input: AgentRunnerRunRequest["input"],
+    resumeInterrupts: Record<string, unknown>
+  ): Promise<AgentRunnerRunRequest["input"]> {
+    const { threadId } = input;
+    const state = (await this.request("getState", threadId, () =>
+      client.threads.getState(threadId)
+    )) as unknown as ThreadState;
+    const pending = new Map(
+      getPendingInterrupts(state).map((interrupt) => [interrupt.id, interrupt])
+    );
+
+    for (const interruptId of Object.keys(resumeInterrupts)) {
+      const interrupt = pending.get(interruptId);
+      if (!interrupt) {
+        throw new Error(
+          `Interrupt ${interruptId} is not pending on thread ${threadId}`
+        );
+      }
+      if (interrupt.resumable === false) {
+        throw new Error(`Interrupt ${interruptId} is not resumable`);
+      }
+    }
+
+    this.log("Resuming interrupts", {
+      threadId,
+      resumeCount: Object.keys(resumeInterrupts).length,
+      pendingCount: pending.size,
+    });
+
+    const { resumeInterrupts: _resumeInterrupts, ...forwardedProps } =
+      (input.forwardedProps ?? {}) as HistoryForwardedProps;
+
+    return {
+      ...input,
+      forwardedProps: {
+        ...forwardedProps,
+        command: {
+          ...(forwardedProps["command"] as Record<string, unknown>),
+          resume: resumeInterrupts,
+        },
+      },
+    };
+  }
+
+  /**
+   * Reports whether a run is executing on the thread.
+   *
+   * Asks the deployment for the thread's status rather than a local agent,
+   * so runs started by other instances or before a page refresh are seen.
+   * Results are cached per thread for `runningStatusTtlMs`. Threads the
+   * caller may not access are reported as not running.
+   */
+  async isRunning(request: AgentRunnerIsRunningRequest): Promise<boolean> {
+    const { threadId } = request;
+
+    try {
+      await this.authorizeThread(request, { source: "isRunning", threadId });
+    } catch (error) {
+      this.warn("Thread status not authorized", { threadId, err: error });
+      return false;
+    }
+
+    const cached = this.runningStatus.get(threadId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.running;
+    }
+
+    let running: boolean;
+    try {
+      const client = await this.createFreshClient(request);
+      const thread = await this.request("getThread", threadId, () =>
+        client.threads.get(threadId)
+      );
+      // "busy" while a run executes; an idle thread may still have a run queued
+      running =
+        thread.status === "busy" ||
+        (await this.listActiveRuns(client, threadId)).length > 0;
+    } catch (error) {
+      // Threads that don't exist yet are not running
+      this.warn("Failed to get thread status", { threadId, err: error });
+      return false;
+    }
+
+    if (this.runningStatusTtlMs > 0) {
+      this.runningStatus.delete(threadId);
+      this.runningStatus.set(threadId, {
+        running,
+        expiresAt: Date.now() + this.runningStatusTtlMs,
+      });
+
+      // Evict the oldest entry to bound memory
+      if (this.runningStatus.size > MAX_RUNNING_STATUS_ENTRIES) {
+        const oldest = this.runningStatus.keys().next().value;
+        if (oldest !== undefined) {
+          this.runningStatus.delete(oldest);
+        }
+      }
+    }
+
+    return running;
+  }
+
+  /**
+   * Stops the thread's active runs on the LangGraph deployment.
+   *
+   * run() executes on a fresh agent per call, so there is no local run to
+   * abort; instead, every running or pending run of the thread is cancelled
+   * with the configured `cancelAction`. Streams joined by connect() for the
+   * thread are closed as well. Nothing is stopped on threads the caller
+   * may not access.
+   *
+   * @returns true if a run was cancelled or a joined stream closed
+   */
+  async stop(request: AgentRunnerStopRequest): Promise<boolean | undefined> {
+    const { threadId } = request;
+
+    try {
+      await this.authorizeThread(request, { source: "stop", threadId });
+    } catch (error) {
+      this.warn("Stop not authorized", { threadId, err: error });
+      return false;
+    }
+
+    this.runningStatus.delete(threadId);
+
+    // Close joined streams so connect() subscribers stop receiving events
+    const streams = this.joinedStreams.get(threadId);
+    this.joinedStreams.delete(threadId);
+    streams?.forEach((controller) => controller.abort());
+
+    try {
+      const client = await this.createFreshClient(request);
+      const activeRuns = await this.listActiveRuns(client, threadId);
+
+      await Promise.all(
+        activeRuns.map((run) =>
+          this.request(
+            "cancelRun",
+            threadId,
+            () =>
+              client.runs.cancel(
+                threadId,
+                run.run_id,
+                this.waitForCancel,
+                this.cancelAction
+              ),
+            { idempotent: false, resource: "run" }
+          )
+        )
+      );
+
+      this.log("Cancelled active runs", {
+        threadId,
+        runCount: activeRuns.length,
+        cancelAction: this.cancelAction,
+      });
+      return activeRuns.length > 0 || (streams?.size ?? 0) > 0;
+    } catch (error) {
+      this.error("Failed to stop runs", { threadId, err: error });
+      return false;
+    }
+  }
+
+  /**
+   * Lists the thread's running and pending runs, most recent first.
+   */
+  private async listActiveRuns(
+    client: Client,
+    threadId: string
+  ): Promise<Run[]> {
+    const runs = await this.request("listRuns", threadId, () =>
+      client.runs.list(threadId)
+    );
+    return (runs ?? []).filter(
+      (run: Run) => run.status === "running" || run.status === "pending"
+    );
+  }
+
+  /**
+   * Looks a thread up on the runner's deployment, with the runner's client
+   * settings and retry policy. Used by MultiAgentHistoryRunner to find the
+   * agent of a thread; access is not checked, so don't pass the metadata
+   * on to clients.
+   * Throws typed errors (see LangGraphRequestError) on failure.
+   *
+   * @returns The thread's metadata, or undefined if the thread doesn't exist
+   */
+  async getThreadMetadata(
+    threadId: string
+  ): Promise<Record<string, unknown> | undefined> {
+    const client = await this.createFreshClient({ threadId });
+    try {
+      const thread = await this.request("getThread", threadId, () =>
+        client.threads.get(threadId)
+      );
+      return (thread.metadata ?? {}) as Record<string, unknown>;
+    } catch (error) {
+      if (error instanceof ThreadNotFoundError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a ThreadManager to rename, tag, archive, delete and copy threads.
+   *
+   * The manager uses the runner's deployment (via `resolveTarget` when set)
+   * and retry policy, and enforces the same `ownership` policy and
+   * `authorizeThread` hook as connect(), with source "manage".
+   */
+  createThreadManager(): ThreadManager {
+    return new ThreadManager({
+      createClient: (threadId) => this.createFreshClient({ threadId }),
+      authorize: async (threadId, operation) => {
+        const { identity } = await this.authorizeThread(
+          { threadId },
+          { source: "manage", threadId, operation }
+        );
+        return identity;
+      },
+      request: (operation, threadId, fn, options) =>
+        this.request(operation, threadId, fn, options),
+      invalidate: (threadId) => this.invalidateThread(threadId),
+      logger: this.logger,
+    });
+  }
+
+  /**
+   * Creates a ThreadDirectory to search the runner's threads.
+   *
+   * The directory uses the runner's deployment (via `resolveTarget` when
+   * set, with an empty `threadId`), retry policy and logger. With an
+   * `ownership` policy, searches only match threads with the caller's
+   * identity; the `authorizeThread` hook is applied to every listed thread,
+   * with source "list".
+   */
+  createThreadDirectory(options: ThreadDirectoryOptions = {}): ThreadDirectory {
+    return new ThreadDirectory(
+      {
+        createClient: () => this.createFreshClient({ threadId: "" }),
+        identify: async () =>
+          this.ownership
+            ? this.resolveIdentity(
+                this.ownership,
+                { threadId: "" },
+                { source: "list", threadId: "" }
+              )
+            : undefined,
+        authorize: async (threadId) =>
+          (await this.hooks.authorizeThread?.(
+            threadId,
+            { threadId },
+            { source: "list", threadId }
+          )) !== false,
+        request: (operation, fn, requestOptions) =>
+          this.request(operation, "", fn, requestOptions),
+        logger: this.logger,
+      },
+      {
+        graphId: this.frozenConfig.graphId,
+        redaction: this.redaction,
+        debug: this.debug,
+        ...options,
+      }
+    );
+  }
+
+  /**
+   * Forgets the thread's cached running status and hydration, after a
+   * change to the thread.
+   */
+  private invalidateThread(threadId: string): void {
+    this.runningStatus.delete(threadId);
+    if (this.cache) {
+      Promise.resolve(this.cache.invalidate(threadId)).catch((error: unknown) =>
+        this.warn("Failed to invalidate cache", { threadId, err: error })
+      );
+    }
+  }
+
+  /**
+   * Override connect to add history hydration support.
+   *
+   * When reconnecting to a thread:
+   * 1. Fetches thread history (checkpoints) from LangGraph
+   * 2. Selects and deduplicates messages according to the hydration strategy
+   * 3. Transforms the newest page of messages to CopilotKit format
+   * 4. Emits MESSAGES_SNAPSHOT, a `history_page` cursor when older messages
+   *    exist, and STATE_SNAPSHOT events
+   * 5. Completes the observable
+   *
+   * When `request.cursor` is set, only the next older page is emitted.
+   *
+   * When `request.checkpointId` is set, the thread is hydrated as of that
+   * checkpoint and marked read-only: pending interrupts and active runs are
+   * ignored, and a `hydration_read_only` event is emitted.
+   *
+   * When `request.branchCheckpointId` is set, the branch ending at that
+   * checkpoint is hydrated instead of the thread head. Forks along the
+   * hydrated branch are described by a `message_branches` event. A branch
+   * other than the head is read-only like time travel, since runs continue
+   * from the head.
+   */
+  connect(request: HistoryConnectRequest): Observable<BaseEvent> {
+    const { threadId, cursor } = request;
+
+    if (cursor !== undefined) {
+      return this.instrument(
+        "connect",
+        {
+          "langgraph.thread_id": threadId,
+          "langgraph_history.history_page": true,
+        },
+        () =>
+          this.applyMiddleware(
+            "connect",
+            threadId,
+            this.withAuthorization(
+              "connect",
+              request,
+              "hydration_" + Math.random().toString(36).slice(2),
+              () => this.connectHistoryPage(threadId, cursor)
+            )
+          )
+      );
+    }
+
+    return this.instrument(
+      "connect",
+      {
+        "langgraph.thread_id": threadId,
+        "langgraph.checkpoint_id": request.checkpointId,
+        "langgraph_history.branch_checkpoint_id": request.branchCheckpointId,
+      },
+      (span, fail) =>
+        this.applyMiddleware(
+          "connect",
+          threadId,
+          this.withAuthorization(
+            "connect",
+            request,
+            "hydration_" + Math.random().toString(36).slice(2),
+            () => this.hydrateThread(request, span, fail)
+          )
+        )
+    );
+  }
+
+  /**
+   * Hydrates a thread for connect(), recording hydration details on `span`
+   * and failed hydrations with `fail`.
+   */
+  private hydrateThread(
+    request: HistoryConnectRequest,
+    span: TelemetrySpan,
+    fail: (error: unknown) => void
+  ): Observable<BaseEvent> {
+    const { threadId, checkpointId } = request;
+    // Time travel pins an exact checkpoint, so it takes precedence over branches
+    const branchCheckpointId = checkpointId
+      ? undefined
+      : request.branchCheckpointId;
+
+    return new Observable<BaseEvent>((subscriber) => {
+      // Aborted on unsubscribe, closing a joined stream and its rejoins
+      const controller = new AbortController();
+
+      const hydrate = async () => {
+        const startedAt = Date.now();
+        try {
+          // CRITICAL: Create a fresh Client per connect() call to prevent
+          // shared state contamination in Vercel serverless environments.
+          const client = await this.createFreshClient(request);
+
+          await this.hooks.onBeforeHydrate?.({ threadId, request });
+
+          // Serve idle threads from the cache when the head checkpoint is unchanged
+          let head: ThreadState | undefined;
+          let cached: HydrationCacheEntry | undefined;
+          if (this.cache && !checkpointId && !branchCheckpointId) {
+            head = (await this.request("getState", threadId, () =>
+              client.threads.getState(threadId)
+            )) as unknown as ThreadState;
+            const headCheckpointId = head ? getCheckpointId(head) : undefined;
+            if (headCheckpointId) {
+              cached = await this.cache.get(threadId, headCheckpointId);
+            }
+          }
+
+          let hydration: HydrationCacheEntry;
+          let isOffHeadBranch = false;
+          if (cached) {
+            this.log("Serving hydration from cache", {
+              threadId,
+              checkpointId: cached.checkpointId,
+            });
+            hydration = cached;
+          } else {
+            // Fetch thread history (checkpoints) from LangGraph
+            // Using fresh client to ensure correct URL
+            // A branch is followed by lineage, which needs the full checkpoint tree
+            const history = await this.afterHistoryLoaded(
+              threadId,
+              await this.fetchHistory(
+                client,
+                threadId,
+                { at: checkpointId },
+                head,
+                branchCheckpointId ? "lineage" : this.hydrationStrategy
+              )
+            );
+            span.setAttribute("langgraph.checkpoint_count", history.length);
+
+            // An empty history means the thread exists but has no checkpoints yet
+            if (!history || history.length === 0) {
+              this.log("Thread has no checkpoints yet", { threadId });
+              await this.emitNewThreadHydration(request, subscriber);
+              return;
+            }
+
+            hydration = await this.buildHydration(client, threadId, history, {
+              atCheckpointId: checkpointId,
+              branchCheckpointId,
+            });
+            isOffHeadBranch =
+              branchCheckpointId !== undefined &&
+              branchCheckpointId !== getCheckpointId(history[0]!);
+          }
+
+          const { runId } = hydration;
+          const durationMs = Date.now() - startedAt;
+          this.logger.info(
+            {
+              threadId,
+              runId,
+              checkpointId: hydration.checkpointId,
+              messageCount: hydration.messages.length,
+              cached: Boolean(cached),
+              durationMs,
+            },
+            "Hydrated thread history"
+          );
+          span.setAttributes({
+            "langgraph.run_id": runId,
+            "langgraph.message_count": hydration.messages.length,
+            "langgraph_history.cached": Boolean(cached),
+          });
+          this.telemetry.recordHydration(durationMs, {
+            "langgraph_history.cached": Boolean(cached),
+            "langgraph_history.hydration_strategy": branchCheckpointId
+              ? "lineage"
+              : this.hydrationStrategy,
+          });
+
+          // Applied per connect(), so the cache keeps the untransformed entry
+          const snapshot: HydrationCacheEntry = this.hooks.transformSnapshot
+            ? {
+                ...hydration,
+                messages: await this.hooks.transformSnapshot(
+                  hydration.messages,
+                  hydration.state,
+                  { threadId, request }
+                ),
+              }
+            : hydration;
+
+          if (checkpointId || isOffHeadBranch) {
+            // Time travel and branches other than the head: runs continue
+            // from the head, so skip interrupts and active runs
+            this.emitHydration(
+              threadId,
+              { ...snapshot, interrupts: [] },
+              subscriber
+            );
+            subscriber.next({
+              type: "CUSTOM" as unknown as typeof EventType.CUSTOM,
+              name: HydrationEventNames.ReadOnly,
+              value: checkpointId
+                ? { readOnly: true, checkpointId: hydration.checkpointId }
+                : {
+                    readOnly: true,
+                    checkpointId: hydration.checkpointId,
+                    branchCheckpointId,
+                  },
+              timestamp: Date.now(),
+              threadId,
+              runId,
+            } as unknown as BaseEvent);
+            subscriber.next({
+              type: EventType.RUN_FINISHED,
+              timestamp: Date.now(),
+              threadId,
+              runId,
+            } as BaseEvent);
+            subscriber.complete();
+            return;
+          }
+
+          this.emitHydration(threadId, snapshot, subscriber);
+
+          // Check if thread is busy and has an active run to join (from latest checkpoint)
+          const isThreadBusy = hydration.next.length > 0;
+
+          let activeRun: Run | undefined;
+          if (isThreadBusy) {
+            try {
+              // Find the most recent active run
+              activeRun = (await this.listActiveRuns(client, threadId))[0];
+            } catch (error) {
+              this.warn("Failed to check for active runs", {
+                threadId,
+                err: error,
+              });
+            }
+          }
+
+          // If there's an active run, join the stream
+          if (activeRun && !controller.signal.aborted) {
+            this.log("Joining active stream", {
+              threadId,
+              runId: activeRun.run_id,
+              replay: this.replayActiveRun,
+            });
+            try {
+              await this.joinAndProcessStream(
+                client,
+                threadId,
+                activeRun.run_id,
+                subscriber,
+                this.replayActiveRun
+                  ? {
+                      snapshotStep: hydration.step,
+                      messageIds: new Set(
+                        hydration.messages.map((message) => message.id)
+                      ),
+                    }
+                  : undefined,
+                controller.signal
+              );
+            } catch (error) {
+              this.error("Error joining stream", {
+                threadId,
+                runId: activeRun.run_id,
+                err: error,
+              });
+              // Continue to complete even if stream joining fails
+            }
+          } else {
+            // No active run - emit RUN_FINISHED and complete
+            subscriber.next({
+              type: EventType.RUN_FINISHED,
+              timestamp: Date.now(),
+              threadId,
+              runId,
+            } as BaseEvent);
+
+            // Only idle threads are cached; a running thread's head keeps moving
+            if (
+              this.cache &&
+              !cached &&
+              !branchCheckpointId &&
+              hydration.checkpointId
+            ) {
+              try {
+                await this.cache.set(threadId, hydration);
+              } catch (error) {
+                this.warn("Failed to cache hydration", { threadId, err: error });
+              }
+            }
+          }
+
+          // Complete - history hydration done
+          subscriber.complete();
+        } catch (error) {
+          // Expected before the first run creates the thread, so "empty"
+          // hydrates it as a new thread. The other modes report it like any
+          // failure, so a deleted or mistyped thread ID can be told apart.
+          // Time travel and branches need an existing thread, so they fail.
+          if (
+            error instanceof ThreadNotFoundError &&
+            this.hydrationFailureMode === "empty" &&
+            !checkpointId &&
+            !branchCheckpointId
+          ) {
+            this.log("Thread not found, hydrating as a new thread", {
+              threadId,
+            });
+            try {
+              await this.emitNewThreadHydration(request, subscriber);
+              return;
+            } catch (hookError) {
+              error = hookError;
+            }
+          }
+          this.error("Failed to hydrate history", {
+            threadId,
+            durationMs: Date.now() - startedAt,
+            err: error,
+          });
+          fail(error);
+          this.emitHydrationFailure(threadId, error, subscriber);
+        }
+      };
+
+      hydrate();
+
+      return () => controller.abort();
+    });
+  }
+
+  /**
+   * Emits the hydration of a new thread: an empty snapshot, or the messages
+   * returned by the `transformSnapshot` hook, then completes.
+   */
+  private async emitNewThreadHydration(
+    request: HistoryConnectRequest,
+    subscriber: { next: (event: BaseEvent) => void; complete: () => void }
+  ): Promise<void> {
+    const { threadId } = request;
+    const messages = this.hooks.transformSnapshot
+      ? await this.hooks.transformSnapshot([], undefined, {
+          threadId,
+          request,
+        })
+      : [];
+    // Still emit required events so frontend doesn't get empty response
+    const fallbackRunId = "hydration_" + Math.random().toString(36).slice(2);
+    subscriber.next({
+      type: EventType.RUN_STARTED,
+      timestamp: Date.now(),
+      threadId,
+      runId: fallbackRunId,
+    } as BaseEvent);
+    subscriber.next({
+      type: EventType.MESSAGES_SNAPSHOT,
+      messages,
+      timestamp: Date.now(),
+      threadId,
+      runId: fallbackRunId,
+    } as BaseEvent);
+    subscriber.next({
+      type: EventType.RUN_FINISHED,
+      timestamp: Date.now(),
+      threadId,
+      runId: fallbackRunId,
+    } as BaseEvent);
+    subscriber.complete();
+  }
+
+  /**
+   * Emits the events for a failed hydration according to
+   * `hydrationFailureMode`, then completes.
+   */
+  private emitHydrationFailure(
+    threadId: string,
+    error: unknown,
+    subscriber: { next: (event: BaseEvent) => void; complete: () => void }
+  ): void {
+    const fallbackRunId =
+      "hydration_error_" + Math.random().toString(36).slice(2);
+
+    // Still emit required events so frontend doesn't get empty response
+    subscriber.next({
+      type: EventType.RUN_STARTED,
+      timestamp: Date.now(),
+      threadId,
+      runId: fallbackRunId,
+    } as BaseEvent);
+
+    switch (this.hydrationFailureMode) {
+      case "error":
+        subscriber.next({
+          type: EventType.RUN_ERROR,
+          message: error instanceof Error ? error.message : String(error),
+          code:
+            error instanceof LangGraphRequestError
+              ? error.code
+              : "HYDRATION_FAILED",
+          timestamp: Date.now(),
+          threadId,
+          runId: fallbackRunId,
+        } as BaseEvent);
+        subscriber.complete();
+        return;
+
+      case "skip":
+        // No snapshot, so the client keeps the messages it already has
+        break;
+
+      case "empty":
+      default:
+        subscriber.next({
+          type: EventType.MESSAGES_SNAPSHOT,
+          messages: [],
+          timestamp: Date.now(),
+          threadId,
+          runId: fallbackRunId,
+        } as BaseEvent);
+        break;
+    }
+
+    subscriber.next({
+      type: EventType.RUN_FINISHED,
+      timestamp: Date.now(),
+      threadId,
+      runId: fallbackRunId,
+    } as BaseEvent);
+    subscriber.complete();
+  }
+
+  /**
+   * Builds the hydration result from fetched checkpoints (newest-first).
+   *
+   * @param options.atCheckpointId - Checkpoint the history was fetched at,
+   *   when it is not the thread head
+   * @param options.branchCheckpointId - Newest checkpoint of the branch to
+   *   hydrate, when it is not the thread head
+   */
+  private async buildHydration(
+    client: Client,
+    threadId: string,
+    history: ThreadState[],
+    options: { atCheckpointId?: string; branchCheckpointId?: string } = {}
+  ): Promise<HydrationCacheEntry> {
+    const { atCheckpointId, branchCheckpointId } = options;
+    // A selected branch is always followed by lineage so other branches don't leak in
+    const strategy = branchCheckpointId ? "lineage" : this.hydrationStrategy;
+    const limit = this.getCheckpointLimit();
+
+    // Select messages from the checkpoints according to the hydration strategy
+    const window = resolveHydrationWindow(history, strategy, {
+      historyLimit: limit,
+      lineageStartId: branchCheckpointId,
+    });
+
+    if (branchCheckpointId && window.checkpoints.length === 0) {
+      throw new Error(
+        `Branch checkpoint ${branchCheckpointId} not found in the last ${limit} checkpoints of thread ${threadId}`
+      );
+    }
+
+    this.log("Selected messages from checkpoints", {
+      threadId,
+      strategy,
+      checkpointCount: window.checkpoints.length,
+      messageCount: window.messages.length,
+    });
+
+    // Keep only the newest page; older pages are loaded via the cursor
+    const page = sliceHistoryPage(window.messages, {
+      origin: branchCheckpointId
+        ? { atCheckpointId: branchCheckpointId, strategy }
+        : { atCheckpointId },
+      pageSize: this.historyPageSize,
+      continuation:
+        branchCheckpointId && window.continuation
+          ? { ...window.continuation, strategy }
+          : window.continuation,
+    });
+
+    // Don't offer older pages when the older checkpoints hold no messages
+    let cursor = page.cursor;
+    try {
+      if (
+        !(await this.continuesWithMessages(client, threadId, {
+          cursor,
+          window: {},
+        }))
+      ) {
+        cursor = null;
+      }
+    } catch (error) {
+      this.warn("Failed to check for older messages", {
+        threadId,
+        err: error,
+      });
+    }
+
+    // Transform LangGraph messages to CopilotKit format
+    const transformedMessages = this.transform(page.messages);
+
+    // Fetch runs to get the latest runId
+    let runId: string;
+    try {
+      const runs = await this.request("listRuns", threadId, () =>
+        client.runs.list(threadId)
+      );
+      // Use the most recent run ID if available
+      runId =
+        runs && runs.length > 0
+          ? runs[0]!.run_id
+          : "hydration_" + Math.random().toString(36).slice(2);
+    } catch (error) {
+      this.warn("Failed to fetch runs, using generated ID", {
+        threadId,
+        err: error,
+      });
+      runId = "hydration_" + Math.random().toString(36).slice(2);
+    }
+
+    // Get the latest checkpoint state (history is newest-first)
+    const latestState = branchCheckpointId
+      ? window.checkpoints[0]!
+      : history[0]!;
+
+    return {
+      checkpointId: getCheckpointId(latestState) ?? "",
+      runId,
+      messages: transformedMessages,
+      cursor: cursor ? encodeHistoryCursor(cursor) : undefined,
+      branches: getMessageBranches(history, getCheckpointId(latestState)),
+      state: latestState.values,
+      // Every pending interrupt, across parallel tasks
+      interrupts: getPendingInterrupts(latestState),
+      next: latestState.next ?? [],
+      step: getCheckpointStep(latestState),
+    };
+  }
+
+  /**
+   * Emits the hydration events: RUN_STARTED, MESSAGES_SNAPSHOT, the history
+   * cursor, STATE_SNAPSHOT and pending interrupts.
+   */
+  private emitHydration(
+    threadId: string,
+    hydration: HydrationCacheEntry,
+    subscriber: { next: (event: BaseEvent) => void }
+  ): void {
+    const { runId } = hydration;
+
+    // Emit RUN_STARTED event first - CopilotKit requires this as the first event
+    subscriber.next({
+      type: EventType.RUN_STARTED,
+      timestamp: Date.now(),
+      threadId,
+      runId,
+    } as BaseEvent);
+
+    // Emit MESSAGES_SNAPSHOT event - this is what the frontend needs for hydration
+    subscriber.next({
+      type: EventType.MESSAGES_SNAPSHOT,
+      messages: hydration.messages,
+      timestamp: Date.now(),
+      threadId,
+      runId,
+    } as BaseEvent);
+
+    // Tell the client where to continue when loading older messages
+    if (hydration.cursor) {
+      subscriber.next({
+        type: "CUSTOM" as unknown as typeof EventType.CUSTOM,
+        name: HydrationEventNames.HistoryPage,
+        value: {
+          cursor: hydration.cursor,
+          hasMore: true,
+        },
+        timestamp: Date.now(),
+        threadId,
+        runId,
+      } as unknown as BaseEvent);
+    }
+
+    // Describe forks so the client can render a branch switcher
+    if (hydration.branches && hydration.branches.length > 0) {
+      subscriber.next({
+        type: "CUSTOM" as unknown as typeof EventType.CUSTOM,
+        name: HydrationEventNames.MessageBranches,
+        value: {
+          checkpointId: hydration.checkpointId,
+          branches: hydration.branches,
+        },
+        timestamp: Date.now(),
+        threadId,
+        runId,
+      } as unknown as BaseEvent);
     }
-  ): Promise<void> {
-    // Track which messages and tool calls we've started
-    // to handle mid-stream joins
-    const startedMessages = new Set<string>();
-    const startedToolCalls = new Set<string>();
 
-    try {
-      // Join the stream with multiple stream modes to get comprehensive event coverage
-      // Using the fresh client passed from connect() to ensure correct URL
-      const stream = client.runs.joinStream(threadId, runId, {
-        streamMode: ["events", "values", "updates", "custom"] as StreamMode[],
+    // The state and interrupt values still hold unredacted messages
+    const redactor = this.createStreamRedactor();
+    const emit = redactor
+      ? {
+          next: (event: BaseEvent) => {
+            for (const output of redactor.process(event)) {
+              subscriber.next(output);
+            }
+          },
+        }
+      : subscriber;
+
+    // Emit STATE_SNAPSHOT event with latest state values
+    // This hydrates other state fields like searchTools, triggers, plan, etc.
+    if (hydration.state) {
+      emit.next({
+        type: "STATE_SNAPSHOT" as unknown as typeof EventType.CUSTOM,
+        snapshot: hydration.state,
+        rawEvent: {
+          id: runId,
+          event: "values",
+          data: hydration.state,
+        },
+        timestamp: Date.now(),
+        threadId,
+        runId,
+      } as unknown as BaseEvent);
+    }
+
+    this.emitInterrupts(threadId, runId, hydration.interrupts, emit);
+  }
+
+  /**
+   * Emits an `on_interrupt` event per pending interrupt. The value is the
+   * JSON-encoded interrupt value, as CopilotKit expects; the interrupt ID,
+   * task, namespace and resumable flag are included in `rawEvent`.
+   */
+  private emitInterrupts(
+    threadId: string,
+    runId: string,
+    interrupts: PendingInterrupt[],
+    subscriber: { next: (event: BaseEvent) => void }
+  ): void {
+    for (const interrupt of interrupts) {
+      subscriber.next({
+        type: "CUSTOM" as unknown as typeof EventType.CUSTOM,
+        name: "on_interrupt",
+        value: JSON.stringify(interrupt.value),
+        rawEvent: {
+          id: runId,
+          value: interrupt.value,
+          interruptId: interrupt.id,
+          taskId: interrupt.taskId,
+          taskName: interrupt.taskName,
+          ns: interrupt.ns,
+          resumable: interrupt.resumable,
+        },
+        timestamp: Date.now(),
+        threadId,
+        runId,
+      } as unknown as BaseEvent);
+    }
+  }
+
+  /**
+   * Loads the page of messages older than the given cursor.
+   *
+   * Use the cursor from the `history_page` event emitted by connect(), then
+   * the cursor of each returned page, to scroll backwards through a thread
+   * without re-hydrating it. Access is checked like connect(); throws
+   * ThreadAccessDeniedError when it is refused.
+   */
+  async loadHistoryPage(threadId: string, cursor: string): Promise<HistoryPage> {
+    await this.authorizeThread(
+      { threadId, cursor },
+      { source: "connect", threadId }
+    );
+    return this.readHistoryPage(threadId, cursor);
+  }
+
+  /**
+   * Loads a history page for loadHistoryPage() and connect(), after access
+   * was checked.
+   */
+  private async readHistoryPage(
+    threadId: string,
+    cursor: string
+  ): Promise<HistoryPage> {
+    const client = await this.createFreshClient({ threadId, cursor });
+    const page = await this.readOlderMessages(
+      client,
+      threadId,
+      decodeHistoryCursor(cursor)
+    );
+    const next = (await this.continuesWithMessages(client, threadId, page))
+      ? page.cursor
+      : null;
+
+    this.log("Loaded history page", {
+      threadId,
+      messageCount: page.messages.length,
+      hasMore: next !== null,
+    });
+    return {
+      messages: this.transform(page.messages),
+      cursor: next ? encodeHistoryCursor(next) : null,
+      hasMore: next !== null,
+    };
+  }
+
+  /**
+   * Walks back from the cursor until a checkpoint window holds messages
+   * older than the cursor message, or the start of the thread is reached.
+   * A window can hold no older messages (e.g. when every message is still
+   * present in newer checkpoints), so up to MAX_HISTORY_PAGE_WINDOWS
+   * windows are fetched.
+   *
+   * @returns The page, with the cursor of the window it was taken from
+   */
+  private async readOlderMessages(
+    client: Client,
+    threadId: string,
+    cursor: HistoryCursor
+  ): Promise<{
+    messages: LangGraphMessage[];
+    cursor: HistoryCursor | null;
+    window: HistoryCursor;
+  }> {
+    const limit = this.getCheckpointLimit();
+    let current = cursor;
+
+    for (let windows = 0; windows < MAX_HISTORY_PAGE_WINDOWS; windows++) {
+      const strategy = current.strategy ?? this.hydrationStrategy;
+      const history = await this.afterHistoryLoaded(
+        threadId,
+        await this.fetchHistory(
+          client,
+          threadId,
+          { before: current.checkpointId, at: current.atCheckpointId },
+          undefined,
+          strategy
+        )
+      );
+      const window = resolveHydrationWindow(history, strategy, {
+        historyLimit: limit,
+        lineageStartId: current.parentCheckpointId,
       });
 
+      const page = sliceHistoryPage(window.messages, {
+        cursor: current,
+        pageSize: this.historyPageSize,
+        continuation:
+          current.strategy && window.continuation
+            ? { ...window.continuation, strategy: current.strategy }
+            : window.continuation,
+      });
+
+      if (page.messages.length > 0 || !page.cursor) {
+        return { ...page, window: current };
+      }
+
+      current = page.cursor;
+    }
+
+    this.warn("No older messages found in the walked checkpoint windows", {
+      threadId,
+      windowCount: MAX_HISTORY_PAGE_WINDOWS,
+    });
+    return { messages: [], cursor: null, window: current };
+  }
+
+  /**
+   * Checks whether a page's cursor leads to older messages. A cursor into
+   * older checkpoint windows is only followed when one of them holds
+   * messages, so clients aren't offered a next page that turns out empty.
+   */
+  private async continuesWithMessages(
+    client: Client,
+    threadId: string,
+    page: { cursor: HistoryCursor | null; window: Partial<HistoryCursor> }
+  ): Promise<boolean> {
+    if (!page.cursor) {
+      return false;
+    }
+    // More messages remain in the same window
+    if (page.cursor.checkpointId === page.window.checkpointId) {
+      return true;
+    }
+    const older = await this.readOlderMessages(client, threadId, page.cursor);
+    return older.messages.length > 0;
+  }
+
+  /**
+   * Exports the thread's whole conversation as a ThreadTranscript.
+   *
+   * Walks back through the thread's checkpoints until the start of the
+   * hydration window, so the transcript holds every message connect() and
+   * loadHistoryPage() would deliver, with `redaction` applied. The final
+   * state is projected by `stateProjection`, as for connect(). Access is
+   * checked like a ThreadManager operation, with operation "export".
+   * Throws typed errors (see LangGraphRequestError) on failure.
+   *
+   * Render the transcript with renderTranscriptMarkdown() or
+   * renderTranscriptHtml(), or serialize it as JSON.
+   */
+  async exportThread(threadId: string): Promise<ThreadTranscript> {
+    await this.authorizeThread(
+      { threadId },
+      { source: "manage", threadId, operation: "export" }
+    );
+
+    const client = await this.createFreshClient({ threadId });
+    const limit = this.getCheckpointLimit();
+    const history = await this.afterHistoryLoaded(
+      threadId,
+      await this.fetchHistory(client, threadId)
+    );
+    const head = history[0];
+    let window = resolveHydrationWindow(history, this.hydrationStrategy, {
+      historyLimit: limit,
+    });
+    let messages = window.messages;
+    const checkpoints = [...window.checkpoints];
+
+    // Older windows hold the start of long threads
+    const visited = new Set<string>();
+    while (
+      window.continuation?.checkpointId &&
+      !visited.has(window.continuation.checkpointId)
+    ) {
+      const { continuation } = window;
+      visited.add(continuation.checkpointId!);
+
+      window = resolveHydrationWindow(
+        await this.afterHistoryLoaded(
+          threadId,
+          await this.fetchHistory(client, threadId, {
+            before: continuation.checkpointId,
+            at: continuation.atCheckpointId,
+          })
+        ),
+        this.hydrationStrategy,
+        {
+          historyLimit: limit,
+          lineageStartId: continuation.parentCheckpointId,
+        }
+      );
+
+      const seen = new Set(messages.map((message) => message.id));
+      messages = [
+        ...window.messages.filter((message) => !seen.has(message.id)),
+        ...messages,
+      ];
+      checkpoints.push(...window.checkpoints);
+    }
+
+    const state: Record<string, unknown> = { ...head?.values };
+    delete state["messages"];
+    const transcript = createThreadTranscript(this.transform(messages), {
+      threadId,
+      checkpointId: head ? getCheckpointId(head) : undefined,
+      timestamps: getMessageTimestamps(checkpoints),
+      interrupts: head ? getPendingInterrupts(head) : [],
+      state: this.stateProjector
+        ? (this.stateProjector(state, { source: "connect", threadId }) ?? {})
+        : state,
+    });
+
+    this.log("Exported thread", {
+      threadId,
+      messageCount: transcript.messages.length,
+      checkpointCount: checkpoints.length,
+    });
+    return transcript;
+  }
+
+  /**
+   * Creates a thread holding the given messages, e.g. to migrate
+   * conversations from another backend or to build test fixtures.
+   *
+   * Messages are converted to LangGraph messages and written to the new
+   * thread's state, so connect() hydrates them with the same IDs, roles,
+   * content and tool calls. They are validated first: every tool result
+   * must answer a tool call of the preceding assistant message, and every
+   * tool call must have a result. Invalid messages throw
+   * InvalidTranscriptError before anything is created.
+   *
+   * Access is checked like a ThreadManager operation, with operation
+   * "import", and the thread is created with the caller's identity as
+   * metadata. If seeding the state fails, the thread is deleted again.
+   * Throws typed errors (see LangGraphRequestError) on failure.
+   */
+  async importThread(
+    messages: ImportableMessage[],
+    options: ImportThreadOptions = {}
+  ): Promise<ImportedThread> {
+    const converted = toLangGraphMessages(messages);
+    const threadId = options.threadId ?? randomUUID();
+
+    const { identity } = await this.authorizeThread(
+      { threadId },
+      { source: "manage", threadId, operation: "import" }
+    );
+
+    const client = await this.createFreshClient({ threadId });
+    await this.request(
+      "createThread",
+      threadId,
+      () =>
+        client.threads.create({
+          threadId,
+          graphId: this.frozenConfig.graphId,
+          metadata: { ...options.metadata, ...identity },
+          ifExists: "raise",
+        }),
+      { idempotent: false }
+    );
+
+    let config: Awaited<ReturnType<typeof client.threads.updateState>>;
+    try {
+      config = await this.request(
+        "updateState",
+        threadId,
+        () =>
+          client.threads.updateState(threadId, {
+            values: { ...options.state, messages: converted },
+            asNode: options.asNode,
+          }),
+        { idempotent: false }
+      );
+    } catch (error) {
+      // Don't leave an empty thread behind
+      await this.request(
+        "deleteThread",
+        threadId,
+        () => client.threads.delete(threadId),
+        { idempotent: false }
+      ).catch((deleteError: unknown) =>
+        this.warn("Failed to delete partially imported thread", {
+          threadId,
+          err: deleteError,
+        })
+      );
+      throw error;
+    }
+
+    const checkpointId = (
+      config?.configurable as { checkpoint_id?: string } | undefined
+    )?.checkpoint_id;
+    this.log("Imported thread", {
+      threadId,
+      messageCount: converted.length,
+    });
+    return { threadId, checkpointId, messageCount: converted.length };
+  }
+
+  /**
+   * Emits an older history page as a `history_page` custom event.
+   * Does not emit MESSAGES_SNAPSHOT so the client keeps its current messages.
+   */
+  private connectHistoryPage(
+    threadId: string,
+    cursor: string
+  ): Observable<BaseEvent> {
+    return new Observable<BaseEvent>((subscriber) => {
+      const runId = "hydration_" + Math.random().toString(36).slice(2);
+      // The page is still loaded, but not emitted after unsubscribing
+      let closed = false;
+
+      subscriber.next({
+        type: EventType.RUN_STARTED,
+        timestamp: Date.now(),
+        threadId,
+        runId,
+      } as BaseEvent);
+
+      this.readHistoryPage(threadId, cursor)
+        .then((page) => {
+          if (closed) {
+            return;
+          }
+          subscriber.next({
+            type: "CUSTOM" as unknown as typeof EventType.CUSTOM,
+            name: HydrationEventNames.HistoryPage,
+            value: page,
+            timestamp: Date.now(),
+            threadId,
+            runId,
+          } as unknown as BaseEvent);
+          subscriber.next({
+            type: EventType.RUN_FINISHED,
+            timestamp: Date.now(),
+            threadId,
+            runId,
+          } as BaseEvent);
+          subscriber.complete();
+        })
+        .catch((error: unknown) => {
+          this.error("Failed to load history page", { threadId, err: error });
+          if (closed) {
+            return;
+          }
+          subscriber.next({
+            type: EventType.RUN_ERROR,
+            message: error instanceof Error ? error.message : String(error),
+            code:
+              error instanceof LangGraphRequestError
+                ? error.code
+                : "HISTORY_PAGE_FAILED",
+            timestamp: Date.now(),
+            threadId,
+            runId,
+          } as BaseEvent);
+          subscriber.complete();
+        });
+
+      return () => {
+        closed = true;
+      };
+    });
+  }
+
+  /**
+   * Fetches the checkpoints required by the hydration strategy (newest-first).
+   * The "latest" strategy only needs the head, so it uses a single getState call.
+   *
+   * @param position.before - Only return checkpoints older than this checkpoint ID
+   * @param position.at - Treat this checkpoint as the head (time travel)
+   * @param head - Already fetched head state, reused by the "latest" strategy
+   * @param strategy - Strategy to fetch for. Default: the runner's strategy
+   */
+  private async fetchHistory(
+    client: Client,
+    threadId: string,
+    position: { before?: string; at?: string } = {},
+    head?: ThreadState,
+    strategy: HydrationStrategy = this.hydrationStrategy
+  ): Promise<ThreadState[]> {
+    const { at, before } = position;
+
+    if (strategy === "latest" || at) {
+      const state =
+        (at ? undefined : head) ??
+        ((await this.request(
+          "getState",
+          threadId,
+          () => client.threads.getState(threadId, at),
+          { resource: at ? "checkpoint" : "thread" }
+        )) as unknown as ThreadState);
+      // A thread without checkpoints has no history to hydrate
+      if (!state || !getCheckpointId(state)) {
+        return [];
+      }
+      if (strategy === "latest") {
+        return [state];
+      }
+
+      // Everything up to and including the requested checkpoint
+      const older = (await this.request(
+        "getHistory",
+        threadId,
+        () =>
+          client.threads.getHistory(threadId, {
+            limit: this.getCheckpointLimit(),
+            before: { configurable: { checkpoint_id: at } },
+          }),
+        { resource: "checkpoint" }
+      )) as unknown as ThreadState[];
+      return [state, ...older];
+    }
+
+    return (await this.request(
+      "getHistory",
+      threadId,
+      () =>
+        client.threads.getHistory(threadId, {
+          limit: this.getCheckpointLimit(),
+          before: before
+            ? { configurable: { checkpoint_id: before } }
+            : undefined,
+        }),
+      { resource: before ? "checkpoint" : "thread" }
+    )) as unknown as ThreadState[];
+  }
+
+  /**
+   * Passes fetched checkpoints through `hooks.onHistoryLoaded`.
+   */
+  private async afterHistoryLoaded(
+    threadId: string,
+    checkpoints: ThreadState[]
+  ): Promise<ThreadState[]> {
+    const replaced = await this.hooks.onHistoryLoaded?.(checkpoints, {
+      threadId,
+    });
+    return replaced ?? checkpoints;
+  }
+
+  /**
+   * Number of checkpoints to fetch per getHistory() call.
+   */
+  private getCheckpointLimit(): number {
+    return this.historyLimit > 0 ? this.historyLimit : DEFAULT_HISTORY_LIMIT;
+  }
+
+  /**
+   * Checks whether a run is still running or pending.
+   * Runs that cannot be fetched are treated as finished.
+   */
+  private async isRunActive(
+    client: Client,
+    threadId: string,
+    runId: string
+  ): Promise<boolean> {
+    try {
+      const run = await this.request(
+        "getRun",
+        threadId,
+        () => client.runs.get(threadId, runId),
+        { resource: "run" }
+      );
+      return run.status === "running" || run.status === "pending";
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Joins an active stream and processes its events.
+   *
+   * This method connects to an already-running LangGraph execution and
+   * processes all incoming events, transforming them to BaseEvent format.
+   *
+   * Tracks started messages and tool calls to handle mid-stream joins where
+   * we might receive CONTENT/END events without having seen START events.
+   *
+   * If the connection drops while the run is still active, the stream is
+   * rejoined after the last received event ID, with exponential backoff.
+   *
+   * @param replayFilter - When set, the stream is replayed from the start of
+   *   the run and events already in the hydrated snapshot are skipped
+   * @param signal - Closes the stream and stops rejoining it, e.g. when the
+   *   connect() subscriber unsubscribes
+   */
+  private joinAndProcessStream(
+    client: Client,
+    threadId: string,
+    runId: string,
+    subscriber: {
+      next: (event: BaseEvent) => void;
+      complete: () => void;
+      error: (err: unknown) => void;
+    },
+    replayFilter?: ReplayFilter,
+    signal?: AbortSignal
+  ): Promise<void> {
+    return this.telemetry.trace(
+      "join_stream",
+      {
+        "langgraph.thread_id": threadId,
+        "langgraph.run_id": runId,
+        "langgraph_history.replay": Boolean(replayFilter),
+      },
+      async (span) => {
+        let eventCount = 0;
+        // Wraps every event of the join, so RUN_FINISHED flushes held text
+        const redactor = this.createStreamRedactor();
+        try {
+          await this.processJoinedStream(
+            client,
+            threadId,
+            runId,
+            {
+              next: (event) => {
+                for (const output of redactor?.process(event) ?? [event]) {
+                  eventCount++;
+                  subscriber.next(output);
+                }
+              },
+              complete: () => subscriber.complete(),
+              error: (err) => subscriber.error(err),
+            },
+            span,
+            replayFilter,
+            signal
+          );
+        } finally {
+          span.setAttribute("langgraph_history.event_count", eventCount);
+        }
+      }
+    );
+  }
+
+  /**
+   * Joins the stream for joinAndProcessStream(), recording rejoins on `span`.
+   */
+  private async processJoinedStream(
+    client: Client,
+    threadId: string,
+    runId: string,
+    subscriber: {
+      next: (event: BaseEvent) => void;
+      complete: () => void;
+      error: (err: unknown) => void;
+    },
+    span: TelemetrySpan,
+    replayFilter?: ReplayFilter,
+    signal?: AbortSignal
+  ): Promise<void> {
+    // Track which messages and tool calls we've started
+    // to handle mid-stream joins
+    const startedMessages = new Set<string>();
+    const startedToolCalls = new Set<string>();
+
+    // Register the stream so stop() can close it
+    const controller = new AbortController();
+    const threadStreams = this.joinedStreams.get(threadId) ?? new Set();
+    threadStreams.add(controller);
+    this.joinedStreams.set(threadId, threadStreams);
+
+    // Closing the caller's signal closes the stream too
+    const abort = () => controller.abort();
+    if (signal?.aborted) {
+      abort();
+    }
+    signal?.addEventListener("abort", abort, { once: true });
+
+    try {
       let currentRunId = runId;
       let manuallyEmittedState = this.activeRun.manuallyEmittedState;
+      // Last received event, so a rejoin continues right after it.
+      // "-1" asks LangGraph to replay the stream from the start.
+      let lastEventId: string | undefined = replayFilter ? "-1" : undefined;
+      let retries = 0;
+      let reconnects = 0;
 
-      // Process each chunk from the stream
-      for await (const chunk of stream) {
+      for (;;) {
         try {
-          const result = await processStreamChunk(chunk as StreamChunk, {
+          // Join the stream with multiple stream modes to get comprehensive event coverage
+          // Using the fresh client passed from connect() to ensure correct URL
+          const stream = client.runs.joinStream(threadId, runId, {
+            signal: controller.signal,
+            lastEventId,
+            streamMode: [
+              "events",
+              "values",
+              "updates",
+              "custom",
+            ] as StreamMode[],
+          });
+
+          // Process each chunk from the stream
+          for await (const chunk of stream) {
+            retries = 0;
+            if (chunk.id) {
+              lastEventId = chunk.id;
+            }
+
+            try {
+              const result = await processStreamChunk(chunk as StreamChunk, {
+                threadId,
+                runId: currentRunId,
+                subscriber,
+                startedMessages,
+                startedToolCalls,
+                debug: this.debug,
+                logger: this.logger,
+                manuallyEmittedState,
+                replayFilter,
+              });
+              currentRunId = result.runId;
+              manuallyEmittedState = result.manuallyEmittedState;
+            } catch (chunkError) {
+              this.error("Error processing stream chunk", {
+                threadId,
+                runId: currentRunId,
+                err: chunkError,
+              });
+              // Continue processing other chunks even if one fails
+            }
+          }
+
+          // Proxies can also close the connection cleanly mid-run
+          if (
+            this.streamReconnect.maxRetries === 0 ||
+            !(await this.isRunActive(client, threadId, runId))
+          ) {
+            break;
+          }
+          throw new Error(`Stream ended while run ${runId} is still active`);
+        } catch (error) {
+          if (
+            controller.signal.aborted ||
+            retries >= this.streamReconnect.maxRetries
+          ) {
+            throw error;
+          }
+
+          retries++;
+          reconnects++;
+          span.setAttribute("langgraph_history.reconnect_count", reconnects);
+          const delayMs = getBackoffDelay(retries, this.streamReconnect);
+          this.warn("Joined stream dropped, rejoining", {
             threadId,
-            runId: currentRunId,
-            subscriber,
-            startedMessages,
-            startedToolCalls,
-            debug: this.debug,
-            manuallyEmittedState,
+            runId,
+            lastEventId,
+            attempt: retries,
+            maxRetries: this.streamReconnect.maxRetries,
+            delayMs,
+            err: error,
           });
-          currentRunId = result.runId;
-          manuallyEmittedState = result.manuallyEmittedState;
-        } catch (chunkError) {
-          this.error("Error processing stream chunk:", chunkError);
-          // Continue processing other chunks even if one fails
+          await sleep(delayMs, controller.signal);
         }
       }
 
@@ -523,38 +2699,24 @@ export class HistoryHydratingAgentRunner extends AgentRunner {
 
       // Stream completed - check for interrupts before finishing
       try {
-        const state = await client.threads.getState(threadId);
+        const state = await this.request("getState", threadId, () =>
+          client.threads.getState(threadId)
+        );
         const threadState = state as unknown as ThreadState;
 
-        // Check for interrupts in the final state
-        const interruptedTask = threadState.tasks?.find(
-          (task) => task.interrupts && task.interrupts.length > 0
+        // Emit every interrupt in the final state
+        this.emitInterrupts(
+          threadId,
+          currentRunId,
+          getPendingInterrupts(threadState),
+          subscriber
         );
-
-        if (
-          interruptedTask &&
-          interruptedTask.interrupts &&
-          interruptedTask.interrupts.length > 0
-        ) {
-          const interrupt = interruptedTask.interrupts[0];
-          const interruptValue = interrupt?.value;
-
-          // Emit custom interrupt event
-          subscriber.next({
-            type: "CUSTOM" as unknown as typeof EventType.CUSTOM,
-            name: "on_interrupt",
-            value: JSON.stringify(interruptValue),
-            rawEvent: {
-              id: currentRunId,
-              value: interruptValue,
-            },
-            timestamp: Date.now(),
-            threadId,
-            runId: currentRunId,
-          } as unknown as BaseEvent);
-        }
       } catch (stateError) {
-        this.warn("Failed to check for interrupts after stream:", stateError);
+        this.warn("Failed to check for interrupts after stream", {
+          threadId,
+          runId: currentRunId,
+          err: stateError,
+        });
       }
 
       // Stream completed - emit RUN_FINISHED
@@ -565,7 +2727,23 @@ export class HistoryHydratingAgentRunner extends AgentRunner {
         runId: currentRunId,
       } as BaseEvent);
     } catch (error) {
-      this.error("Error in joinAndProcessStream:", error);
+      // Closed by stop() or unsubscribed - finish the run quietly
+      if (controller.signal.aborted) {
+        this.log("Joined stream closed", { threadId, runId });
+        subscriber.next({
+          type: EventType.RUN_FINISHED,
+          timestamp: Date.now(),
+          threadId,
+          runId,
+        } as BaseEvent);
+        return;
+      }
+
+      this.error("Error in joinAndProcessStream", {
+        threadId,
+        runId,
+        err: error,
+      });
 
       // Emit error event
       subscriber.next({
@@ -576,6 +2754,15 @@ export class HistoryHydratingAgentRunner extends AgentRunner {
       } as BaseEvent);
 
       throw error;
+    } finally {
+      signal?.removeEventListener("abort", abort);
+      threadStreams.delete(controller);
+      if (
+        threadStreams.size === 0 &&
+        this.joinedStreams.get(threadId) === threadStreams
+      ) {
+        this.joinedStreams.delete(threadId);
+      }
     }
   }
 }
@@ -1,13 +1,46 @@
 export { HistoryHydratingAgentRunner } from "./history-hydrating-runner";
+export {
+  MultiAgentHistoryRunner,
+  type MultiAgentConnectRequest,
+} from "./multi-agent-runner";
 export {
   DEFAULT_HISTORY_LIMIT,
+  DEFAULT_RETRY_POLICY,
+  DEFAULT_RUNNING_STATUS_TTL,
+  DEFAULT_STREAM_RECONNECT,
   DEFAULT_TIMEOUT,
+  FORK_METADATA_KEY,
   MAX_HISTORY_LIMIT,
+  STATE_TRUNCATED_KEY,
+  THREAD_METADATA_KEYS,
+  TRANSCRIPT_FORMAT_VERSION,
 } from "./constants";
 export type {
+  AgentTarget,
   HistoryHydratingRunnerConfig,
+  HydrationFailureMode,
+  CancelAction,
+  HistoryConnectRequest,
+  HistoryForwardedProps,
+  HydrationHookContext,
+  HydrationStrategy,
+  ImportedThread,
+  ImportThreadOptions,
+  MultiAgentRunnerConfig,
+  ResolvedTarget,
+  RetryPolicy,
+  RunHookContext,
+  RunnerHooks,
+  RunnerRequest,
   StateExtractor,
+  StateProjectionOptions,
+  StreamReconnectOptions,
   LangGraphMessage,
+  MessageRedactionOptions,
+  ThreadAccessContext,
+  ThreadAccessRequest,
+  ThreadOperation,
+  ThreadOwnershipPolicy,
   ThreadState,
   FrozenAgentConfig,
   PredictStateTool,
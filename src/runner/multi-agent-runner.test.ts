@@ -0,0 +1,240 @@
+import { type BaseEvent, EventType } from "@ag-ui/core";
+import type { AgentRunnerRunRequest } from "@copilotkitnext/runtime";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { MultiAgentHistoryRunner } from "./multi-agent-runner";
+import type { MultiAgentRunnerConfig } from "./types";
+import { noopLogger, type Logger } from "../logging/logger";
+import { checkpoint } from "../testing/checkpoints";
+import {
+  collectEvents,
+  FakeLangGraphServer,
+  runRequest,
+} from "../testing/fake-langgraph";
+
+let research: FakeLangGraphServer;
+let support: FakeLangGraphServer;
+
+beforeEach(async () => {
+  research = await FakeLangGraphServer.start();
+  support = await FakeLangGraphServer.start();
+});
+
+afterEach(async () => {
+  await research.close();
+  await support.close();
+});
+
+/**
+ * Two graphs on the research deployment, one on the support deployment.
+ */
+function createRunner(
+  config: Partial<MultiAgentRunnerConfig> = {}
+): MultiAgentHistoryRunner {
+  return new MultiAgentHistoryRunner({
+    agents: {
+      researcher: { deploymentUrl: research.url, graphId: "agent" },
+      writer: { deploymentUrl: research.url, graphId: "writer" },
+      helpdesk: { deploymentUrl: support.url, graphId: "support" },
+    },
+    logger: noopLogger,
+    retry: { initialDelayMs: 0, jitter: false },
+    ...config,
+  });
+}
+
+function snapshotIds(events: BaseEvent[]): string[] | undefined {
+  const snapshot = events.find(
+    (event) => event.type === EventType.MESSAGES_SNAPSHOT
+  ) as (BaseEvent & { messages: Array<{ id: string }> }) | undefined;
+  return snapshot?.messages.map((message) => message.id);
+}
+
+function errorCode(events: BaseEvent[]): unknown {
+  const error = events.find((event) => event.type === EventType.RUN_ERROR);
+  return (error as (BaseEvent & { code?: string }) | undefined)?.code;
+}
+
+const history = [
+  checkpoint("c2", "c1", ["m1", "a1"]),
+  checkpoint("c1", undefined, ["m1"]),
+];
+
+describe("MultiAgentHistoryRunner", () => {
+  it("requires agents and a configured default agent", () => {
+    expect(() => createRunner({ agents: {} })).toThrow(/at least one agent/);
+    expect(() => createRunner({ defaultAgentId: "missing" })).toThrow(
+      /not configured/
+    );
+  });
+
+  describe("connect()", () => {
+    it("finds the deployment and graph of a thread", async () => {
+      support.thread("t1", {
+        checkpoints: history,
+        metadata: { graph_id: "support" },
+      });
+      const runner = createRunner();
+
+      const events = await collectEvents(runner.connect({ threadId: "t1" }));
+
+      expect(snapshotIds(events)).toEqual(["m1", "a1"]);
+      expect(research.calls("GET", "/threads/t1")).toHaveLength(1);
+      expect(support.calls("POST", "/threads/t1/history")).toHaveLength(1);
+    });
+
+    it("matches the graph among several on one deployment", async () => {
+      research.thread("t1", {
+        checkpoints: history,
+        metadata: { graph_id: "writer" },
+      });
+      // Every runner logs with its agent ID bound
+      const hydratedBy: unknown[] = [];
+      const logger: Logger = {
+        ...noopLogger,
+        child: (bindings) => ({
+          ...noopLogger,
+          info: (_fields, message) => {
+            if (message === "Hydrated thread history") {
+              hydratedBy.push(bindings["agentId"]);
+            }
+          },
+        }),
+      };
+      const runner = createRunner({ logger });
+
+      await collectEvents(runner.connect({ threadId: "t1" }));
+      // Remembered, so the next connect skips the lookup
+      await collectEvents(runner.connect({ threadId: "t1" }));
+
+      expect(hydratedBy).toEqual(["writer", "writer"]);
+      expect(research.calls("GET", "/threads/t1")).toHaveLength(1);
+      expect(support.requests).toHaveLength(0);
+    });
+
+    it("takes the only graph of a deployment without graph_id", async () => {
+      support.thread("t1", { checkpoints: history });
+      const runner = createRunner();
+
+      const events = await collectEvents(runner.connect({ threadId: "t1" }));
+
+      expect(snapshotIds(events)).toEqual(["m1", "a1"]);
+    });
+
+    it("uses the request's agentId and resolveAgentId before looking up", async () => {
+      support.thread("t1", { checkpoints: history });
+      support.thread("t2", { checkpoints: history });
+      const runner = createRunner({
+        resolveAgentId: (threadId) =>
+          threadId === "t2" ? "helpdesk" : undefined,
+      });
+
+      await collectEvents(
+        runner.connect({ threadId: "t1", agentId: "helpdesk" })
+      );
+      await collectEvents(runner.connect({ threadId: "t2" }));
+
+      expect(research.requests).toHaveLength(0);
+      expect(support.calls("POST", /\/history$/)).toHaveLength(2);
+    });
+
+    it.each([
+      ["empty", [], undefined],
+      ["skip", undefined, undefined],
+      ["error", undefined, "THREAD_NOT_FOUND"],
+    ] as const)(
+      "%s mode: hydrates a thread found on no deployment",
+      async (mode, messages, code) => {
+        const runner = createRunner({ hydrationFailureMode: mode });
+
+        const events = await collectEvents(runner.connect({ threadId: "t1" }));
+
+        expect(snapshotIds(events)).toEqual(messages);
+        expect(errorCode(events)).toBe(code);
+        expect(events[0]?.type).toBe(EventType.RUN_STARTED);
+      }
+    );
+
+    it("falls back to the default agent for a thread found nowhere", async () => {
+      const runner = createRunner({ defaultAgentId: "helpdesk" });
+
+      const events = await collectEvents(runner.connect({ threadId: "t1" }));
+
+      expect(snapshotIds(events)).toEqual([]);
+      expect(support.calls("POST", "/threads/t1/history")).toHaveLength(1);
+    });
+
+    it("reports an unresolved agent when a lookup fails", async () => {
+      research.on("GET", "/threads/t1", {
+        status: 503,
+        body: { detail: "Unavailable" },
+      });
+      const runner = createRunner();
+
+      const events = await collectEvents(runner.connect({ threadId: "t1" }));
+
+      expect(errorCode(events)).toBe("AGENT_NOT_FOUND");
+    });
+  });
+
+  describe("run()", () => {
+    function agentRequest(
+      threadId: string,
+      agent: Record<string, unknown>
+    ): AgentRunnerRunRequest {
+      return {
+        ...runRequest(threadId),
+        agent: agent as unknown as AgentRunnerRunRequest["agent"],
+      };
+    }
+
+    it("runs on the agent of the request and remembers the thread", async () => {
+      research.thread("t1").assistant();
+      const runner = createRunner();
+
+      const events = await collectEvents(
+        runner.run(agentRequest("t1", { agentId: "researcher" }))
+      );
+      await runner.isRunning({ threadId: "t1" });
+
+      expect(errorCode(events)).toBeUndefined();
+      expect(research.calls("POST", "/threads/t1/runs/stream")).toHaveLength(1);
+      // No lookup: the thread was remembered from run()
+      expect(support.requests).toHaveLength(0);
+    });
+
+    it("matches the agent by graph and deployment", async () => {
+      research.thread("t1").assistant();
+      const runner = createRunner();
+
+      await collectEvents(
+        runner.run(
+          agentRequest("t1", {
+            graphId: "agent",
+            config: { deploymentUrl: `${research.url}/` },
+          })
+        )
+      );
+
+      expect(research.calls("POST", "/threads/t1/runs/stream")).toHaveLength(1);
+    });
+
+    it("refuses runs for unknown agents", async () => {
+      const runner = createRunner();
+
+      const events = await collectEvents(
+        runner.run(agentRequest("t1", { agentId: "unknown" }))
+      );
+
+      expect(errorCode(events)).toBe("AGENT_NOT_FOUND");
+      expect(research.requests).toHaveLength(0);
+    });
+  });
+
+  it("reports no run and stops nothing on unresolved threads", async () => {
+    const runner = createRunner();
+
+    expect(await runner.isRunning({ threadId: "t1" })).toBe(false);
+    expect(await runner.stop({ threadId: "t1" })).toBe(false);
+  });
+});
@@ -0,0 +1,424 @@
+/**
+ * MultiAgentHistoryRunner
+ *
+ * Routes run(), connect(), isRunning() and stop() to one
+ * HistoryHydratingAgentRunner per agent, so a single CopilotRuntime can host
+ * several LangGraph graphs, including graphs on different deployments.
+ */
+
+import { type BaseEvent, EventType } from "@ag-ui/core";
+import type { LangGraphAgent } from "@copilotkit/runtime/langgraph";
+import {
+  AgentRunner,
+  type AgentRunnerIsRunningRequest,
+  type AgentRunnerRunRequest,
+  type AgentRunnerStopRequest,
+} from "@copilotkitnext/runtime";
+import { Observable } from "rxjs";
+
+import { HistoryHydratingAgentRunner } from "./history-hydrating-runner";
+import type {
+  AgentTarget,
+  HistoryConnectRequest,
+  MultiAgentRunnerConfig,
+} from "./types";
+import {
+  createConsoleLogger,
+  createRedactingLogger,
+  type Logger,
+} from "../logging/logger";
+import { createIsolatedAgent } from "../utils/create-isolated-agent";
+
+/**
+ * Connect request accepted by MultiAgentHistoryRunner.connect().
+ */
+export interface MultiAgentConnectRequest extends HistoryConnectRequest {
+  /**
+   * Agent the thread belongs to. When omitted, the runner resolves it.
+   */
+  agentId?: string;
+}
+
+/**
+ * Maximum number of thread-to-agent assignments remembered in memory.
+ */
+const MAX_REMEMBERED_THREADS = 1000;
+
+/**
+ * Runner resolved for a thread known only by its ID.
+ */
+interface ThreadRoute {
+  runner?: HistoryHydratingAgentRunner;
+
+  /**
+   * The thread exists on no deployment, so it is a new conversation.
+   */
+  isNew: boolean;
+}
+
+/**
+ * AgentRunner that dispatches to a HistoryHydratingAgentRunner per agent.
+ *
+ * Each target gets its own isolated agent (via createIsolatedAgent) and
+ * runner, so targets never share clients or configuration.
+ *
+ * The agent for run() is taken from the request's agent. connect(),
+ * isRunning() and stop() only receive a thread ID, so the agent is resolved
+ * in this order: `request.agentId`, the `resolveAgentId` hook, threads seen
+ * by run() in this process, the thread's `graph_id` metadata on each
+ * deployment, and finally `defaultAgentId`. connect() to a thread that
+ * exists on no deployment, without a `defaultAgentId`, emits an empty
+ * hydration.
+ *
+ * @example
+ * ```typescript
+ * const runner = new MultiAgentHistoryRunner({
+ *   agents: {
+ *     "research-agent": { deploymentUrl: RESEARCH_URL, graphId: "research" },
+ *     "support-agent": { deploymentUrl: SUPPORT_URL, graphId: "support" },
+ *   },
+ *   langsmithApiKey: process.env.LANGSMITH_API_KEY,
+ * });
+ *
+ * const runtime = new CopilotRuntime({
+ *   agents: runner.getAgents(),
+ *   runner,
+ * });
+ * ```
+ */
+export class MultiAgentHistoryRunner extends AgentRunner {
+  private readonly targets: Readonly<Record<string, Readonly<AgentTarget>>>;
+  private readonly runners = new Map<string, HistoryHydratingAgentRunner>();
+  private readonly agents: Record<string, LangGraphAgent> = {};
+  private readonly threadAgents = new Map<string, string>();
+  private readonly config: MultiAgentRunnerConfig;
+  private readonly logger: Logger;
+
+  constructor(config: MultiAgentRunnerConfig) {
+    super();
+    this.config = config;
+    this.logger = createRedactingLogger(
+      config.logger ??
+        createConsoleLogger({
+          prefix: "MultiAgentHistoryRunner",
+          debug: config.debug,
+        }),
+      { redactContent: !config.logMessageContent }
+    );
+
+    if (Object.keys(config.agents).length === 0) {
+      throw new Error("MultiAgentHistoryRunner requires at least one agent");
+    }
+    if (config.defaultAgentId && !config.agents[config.defaultAgentId]) {
+      throw new Error(
+        `Default agent '${config.defaultAgentId}' is not configured`
+      );
+    }
+
+    // Freeze a copy of every target to prevent mutation
+    const targets: Record<string, Readonly<AgentTarget>> = {};
+    for (const [agentId, target] of Object.entries(config.agents)) {
+      targets[agentId] = Object.freeze({
+        deploymentUrl: target.deploymentUrl,
+        graphId: target.graphId,
+        langsmithApiKey: target.langsmithApiKey ?? config.langsmithApiKey,
+        clientTimeoutMs: target.clientTimeoutMs ?? config.clientTimeoutMs,
+      });
+    }
+    this.targets = Object.freeze(targets);
+
+    for (const [agentId, target] of Object.entries(this.targets)) {
+      // Bind the agent ID to every entry of the agent's runner
+      const logger = config.logger?.child?.({ agentId }) ?? config.logger;
+      const agent = createIsolatedAgent({
+        deploymentUrl: target.deploymentUrl,
+        graphId: target.graphId,
+        langsmithApiKey: target.langsmithApiKey,
+        clientTimeoutMs: target.clientTimeoutMs,
+        debug: config.debug,
+        logger,
+      });
+
+      this.agents[agentId] = agent;
+      this.runners.set(
+        agentId,
+        new HistoryHydratingAgentRunner({
+          ...config,
+          agent,
+          deploymentUrl: target.deploymentUrl,
+          graphId: target.graphId,
+          langsmithApiKey: target.langsmithApiKey,
+          clientTimeoutMs: target.clientTimeoutMs,
+          logger,
+        })
+      );
+    }
+  }
+
+  /**
+   * Returns the isolated agents keyed by agent ID, for CopilotRuntime's
+   * `agents` option.
+   */
+  getAgents(): Record<string, LangGraphAgent> {
+    return { ...this.agents };
+  }
+
+  /**
+   * Returns the runner that serves the given agent.
+   */
+  getRunner(agentId: string): HistoryHydratingAgentRunner | undefined {
+    return this.runners.get(agentId);
+  }
+
+  run(request: AgentRunnerRunRequest): Observable<BaseEvent> {
+    const agentId = this.resolveRunAgentId(request);
+    const runner = agentId ? this.runners.get(agentId) : undefined;
+
+    if (!agentId || !runner) {
+      return this.errorObservable(
+        request.threadId,
+        `No agent configured for run on thread ${request.threadId}`
+      );
+    }
+
+    this.rememberThread(request.threadId, agentId);
+    return runner.run(request);
+  }
+
+  connect(request: MultiAgentConnectRequest): Observable<BaseEvent> {
+    return new Observable<BaseEvent>((subscriber) => {
+      let innerSubscription: { unsubscribe: () => void } | undefined;
+      let closed = false;
+
+      this.resolveThreadRunner(request.threadId, request.agentId)
+        .then(({ runner, isNew }) => {
+          if (closed) {
+            return;
+          }
+          if (!runner && isNew) {
+            this.missingThreadHydration(request.threadId).subscribe(subscriber);
+            return;
+          }
+          if (!runner) {
+            this.errorObservable(
+              request.threadId,
+              `Unable to resolve agent for thread ${request.threadId}`
+            ).subscribe(subscriber);
+            return;
+          }
+          innerSubscription = runner.connect(request).subscribe(subscriber);
+        })
+        .catch((error: unknown) => subscriber.error(error));
+
+      return () => {
+        closed = true;
+        innerSubscription?.unsubscribe();
+      };
+    });
+  }
+
+  async isRunning(request: AgentRunnerIsRunningRequest): Promise<boolean> {
+    const { runner } = await this.resolveThreadRunner(request.threadId);
+    return runner ? runner.isRunning(request) : false;
+  }
+
+  async stop(request: AgentRunnerStopRequest): Promise<boolean | undefined> {
+    const { runner } = await this.resolveThreadRunner(request.threadId);
+    return runner ? runner.stop(request) : false;
+  }
+
+  /**
+   * Determines the agent for a run from the request's agent instance.
+   * CopilotKit passes a clone of the registered agent, so its agentId or
+   * its deployment URL and graph ID identify the target.
+   */
+  private resolveRunAgentId(request: AgentRunnerRunRequest): string | undefined {
+    const agent = request.agent as unknown as Partial<LangGraphAgent>;
+
+    if (agent.agentId && this.targets[agent.agentId]) {
+      return agent.agentId;
+    }
+
+    const deploymentUrl = agent.config?.deploymentUrl?.replace(/\/$/, "");
+    const match = Object.entries(this.targets).find(
+      ([, target]) =>
+        target.graphId === agent.graphId &&
+        (!deploymentUrl ||
+          target.deploymentUrl.replace(/\/$/, "") === deploymentUrl)
+    );
+
+    return match?.[0] ?? this.config.defaultAgentId;
+  }
+
+  /**
+   * Resolves the runner for a thread when only its ID is known.
+   */
+  private async resolveThreadRunner(
+    threadId: string,
+    agentId?: string
+  ): Promise<ThreadRoute> {
+    let resolvedId =
+      agentId ??
+      (await this.config.resolveAgentId?.(threadId)) ??
+      this.threadAgents.get(threadId);
+    let isNew = false;
+
+    if (!resolvedId) {
+      const discovered = await this.discoverAgentId(threadId);
+      resolvedId = discovered.agentId ?? this.config.defaultAgentId;
+      isNew = discovered.isNew;
+    }
+
+    if (!resolvedId) {
+      return { isNew };
+    }
+
+    this.rememberThread(threadId, resolvedId);
+    return { runner: this.runners.get(resolvedId), isNew };
+  }
+
+  /**
+   * Looks the thread up on each deployment, through the runner of one of
+   * its agents, and matches its `graph_id` metadata against the configured
+   * targets.
+   *
+   * @returns The agent, if found, and whether the thread exists on no
+   *   deployment. A failed lookup means the thread may exist, so it is not
+   *   reported as new.
+   */
+  private async discoverAgentId(
+    threadId: string
+  ): Promise<{ agentId?: string; isNew: boolean }> {
+    const entries = Object.entries(this.targets);
+    const deploymentUrls = [
+      ...new Set(entries.map(([, target]) => target.deploymentUrl)),
+    ];
+    let isNew = true;
+
+    for (const deploymentUrl of deploymentUrls) {
+      const candidates = entries.filter(
+        ([, target]) => target.deploymentUrl === deploymentUrl
+      );
+      const [firstAgentId] = candidates[0]!;
+
+      let metadata: Record<string, unknown> | undefined;
+      try {
+        metadata = await this.runners
+          .get(firstAgentId)!
+          .getThreadMetadata(threadId);
+      } catch (error) {
+        isNew = false;
+        this.logger.warn(
+          { threadId, deploymentUrl, err: error },
+          "Failed to look up thread agent"
+        );
+        continue;
+      }
+      if (!metadata) {
+        continue;
+      }
+      isNew = false;
+
+      const graphId = metadata["graph_id"];
+      const match =
+        candidates.find(([, target]) => target.graphId === graphId) ??
+        // The thread exists here; with a single graph on this deployment it must be it
+        (candidates.length === 1 ? candidates[0] : undefined);
+      if (match) {
+        return { agentId: match[0], isNew };
+      }
+    }
+
+    return { isNew };
+  }
+
+  /**
+   * Remembers which agent a thread belongs to, evicting the oldest entries.
+   */
+  private rememberThread(threadId: string, agentId: string): void {
+    this.threadAgents.delete(threadId);
+    this.threadAgents.set(threadId, agentId);
+
+    if (this.threadAgents.size > MAX_REMEMBERED_THREADS) {
+      const oldest = this.threadAgents.keys().next().value;
+      if (oldest !== undefined) {
+        this.threadAgents.delete(oldest);
+      }
+    }
+  }
+
+  /**
+   * Emits the hydration of a thread that exists on no deployment. With
+   * the default "empty" `hydrationFailureMode` it is a new thread, which
+   * its first run() creates: the snapshot is empty. The other modes report
+   * it like the runners do, with code THREAD_NOT_FOUND.
+   */
+  private missingThreadHydration(threadId: string): Observable<BaseEvent> {
+    const mode = this.config.hydrationFailureMode ?? "empty";
+    if (mode === "error") {
+      return this.errorObservable(
+        threadId,
+        `Thread ${threadId} not found`,
+        "THREAD_NOT_FOUND"
+      );
+    }
+    this.logger.debug({ threadId }, "New thread, nothing to hydrate");
+
+    return new Observable<BaseEvent>((subscriber) => {
+      const runId = "hydration_" + Math.random().toString(36).slice(2);
+      subscriber.next({
+        type: EventType.RUN_STARTED,
+        timestamp: Date.now(),
+        threadId,
+        runId,
+      } as BaseEvent);
+      // "skip" keeps the messages the client has
+      if (mode === "empty") {
+        subscriber.next({
+          type: EventType.MESSAGES_SNAPSHOT,
+          messages: [],
+          timestamp: Date.now(),
+          threadId,
+          runId,
+        } as BaseEvent);
+      }
+      subscriber.next({
+        type: EventType.RUN_FINISHED,
+        timestamp: Date.now(),
+        threadId,
+        runId,
+      } as BaseEvent);
+      subscriber.complete();
+    });
+  }
+
+  /**
+   * Emits RUN_STARTED followed by RUN_ERROR for requests that cannot be served.
+   */
+  private errorObservable(
+    threadId: string,
+    message: string,
+    code = "AGENT_NOT_FOUND"
+  ): Observable<BaseEvent> {
+    this.logger.warn({ threadId }, message);
+
+    return new Observable<BaseEvent>((subscriber) => {
+      const runId = "routing_error_" + Math.random().toString(36).slice(2);
+      subscriber.next({
+        type: EventType.RUN_STARTED,
+        timestamp: Date.now(),
+        threadId,
+        runId,
+      } as BaseEvent);
+      subscriber.next({
+        type: EventType.RUN_ERROR,
+        message,
+        code,
+        timestamp: Date.now(),
+        threadId,
+        runId,
+      } as BaseEvent);
+      subscriber.complete();
+    });
+  }
+}
@@ -1,5 +1,19 @@
 import type { LangGraphAgent } from "@copilotkit/runtime/langgraph";
-import type { AgentRunnerRunRequest } from "@copilotkitnext/runtime";
+import type { HydrationCache } from "../cache/hydration-cache";
+import type { Logger } from "../logging/logger";
+import type { TelemetryOptions } from "../telemetry/telemetry";
+import type {
+  EventMiddleware,
+  EventMiddlewareContext,
+} from "../utils/event-middleware";
+import type { MessageRedactor } from "../utils/message-redaction";
+import type { TransformedMessage } from "../utils/message-transformer";
+import type {
+  AgentRunnerConnectRequest,
+  AgentRunnerIsRunningRequest,
+  AgentRunnerRunRequest,
+  AgentRunnerStopRequest,
+} from "@copilotkitnext/runtime";
 
 /**
  * Configuration for the HistoryHydratingAgentRunner.
@@ -26,12 +40,113 @@ export interface HistoryHydratingRunnerConfig {
    */
   langsmithApiKey?: string;
 
+  /**
+   * Resolves the deployment, API key and headers per call, e.g. per tenant.
+   * Called for every connect(), run(), isRunning(), stop(),
+   * loadHistoryPage(), ThreadManager operation and ThreadDirectory search
+   * (with an empty `threadId`); fields left undefined fall back to
+   * `deploymentUrl` and `langsmithApiKey`. Every call still gets its own
+   * isolated client and agent.
+   * Default: the configured deployment for every call
+   */
+  resolveTarget?: (
+    request: RunnerRequest
+  ) => ResolvedTarget | Promise<ResolvedTarget>;
+
   /**
    * Maximum number of history checkpoints to fetch.
    * Default: 100, Maximum: 1000 (LangGraph API limit)
    */
   historyLimit?: number;
 
+  /**
+   * Maximum number of messages emitted per history page.
+   * The initial connect() emits the newest page; older pages are loaded
+   * with the cursor from the `history_page` event.
+   * Default: historyLimit
+   */
+  historyPageSize?: number;
+
+  /**
+   * How messages are selected from the thread's checkpoints.
+   * - "merge": union of messages across all fetched checkpoints
+   * - "latest": only the head checkpoint's messages (one getState call)
+   * - "lineage": union of messages along the head's parent_checkpoint chain
+   * Default: "merge"
+   */
+  hydrationStrategy?: HydrationStrategy;
+
+  /**
+   * Cache for hydration results (optional).
+   * Repeated connects to an idle thread whose head checkpoint is unchanged
+   * are served with a single getState call. Entries for a thread are
+   * invalidated when run() is called on it.
+   */
+  cache?: HydrationCache;
+
+  /**
+   * What stop() asks the deployment to do with the thread's active runs.
+   * - "interrupt": stop the run and keep the state it reached
+   * - "rollback": stop the run and discard the checkpoints it created
+   * Default: "interrupt"
+   */
+  cancelAction?: CancelAction;
+
+  /**
+   * Whether stop() waits until the deployment has cancelled the runs.
+   * Default: false
+   */
+  waitForCancel?: boolean;
+
+  /**
+   * How long isRunning() results are cached per thread, in milliseconds.
+   * Set to 0 to query the deployment on every call.
+   * Default: 2000
+   */
+  runningStatusTtlMs?: number;
+
+  /**
+   * Reconnect behavior when a stream joined by connect() drops while its
+   * run is still active. The stream is rejoined after the last received
+   * event, so no deltas are duplicated or lost.
+   * Default: 3 retries, 500ms initial delay, 10s maximum delay
+   */
+  streamReconnect?: StreamReconnectOptions;
+
+  /**
+   * When connect() joins an active run, replay its stream from the start
+   * instead of joining at the current position. Events already reflected
+   * in the hydrated snapshot are skipped, so a refreshed page shows the
+   * complete in-progress message and tool calls.
+   * Requires runs created with `streamResumable: true`.
+   * Default: false
+   */
+  replayActiveRun?: boolean;
+
+  /**
+   * Retry policy for the runner's LangGraph API calls (history, state,
+   * runs). Failures that are not retried, or still fail after the last
+   * attempt, are thrown as typed errors (ThreadNotFoundError,
+   * RunNotFoundError, CheckpointNotFoundError, UnauthorizedError,
+   * DeploymentUnreachableError, RequestTimeoutError). Writes that are not
+   * idempotent (creating, forking, copying or deleting a thread, cancelling
+   * a run) are attempted once.
+   * Default: 3 attempts, 250ms initial delay, 4s maximum delay, jitter
+   */
+  retry?: RetryPolicy;
+
+  /**
+   * What connect() emits when hydration fails, including for threads
+   * that don't exist:
+   * - "empty": an empty MESSAGES_SNAPSHOT (clears the client's messages)
+   * - "error": a RUN_ERROR with the error's code and message
+   * - "skip": no snapshot, so the client keeps the messages it has
+   * Threads without checkpoints yet always hydrate empty. Missing threads
+   * hydrate empty in "empty" mode only; "error" reports THREAD_NOT_FOUND.
+   * Default: "empty"
+   */
+  hydrationFailureMode?: HydrationFailureMode;
+
   /**
    * Client timeout in milliseconds.
    * Default: 1800000 (30 minutes) - supports long-running agents.
@@ -44,6 +159,27 @@ export interface HistoryHydratingRunnerConfig {
    */
   debug?: boolean;
 
+  /**
+   * Structured logger (pino-compatible; see the Logger interface).
+   * API keys and, unless `logMessageContent` is set, message content are
+   * redacted before entries reach it.
+   * Default: console logger; debug entries only when `debug` is enabled
+   */
+  logger?: Logger;
+
+  /**
+   * Include message content (text, deltas, tool arguments) in log entries.
+   * Default: false
+   */
+  logMessageContent?: boolean;
+
+  /**
+   * OpenTelemetry tracer and meter providers. Spans and metrics are only
+   * recorded for the providers given here.
+   * Default: no instrumentation
+   */
+  telemetry?: TelemetryOptions;
+
   /**
    * Optional function to extract additional state from the request.
    * Called during run() to enrich the state passed to the agent.
@@ -53,6 +189,511 @@ export interface HistoryHydratingRunnerConfig {
    * @returns State object to merge with existing state
    */
   stateExtractor?: StateExtractor;
+
+  /**
+   * Lifecycle hooks for hydration and runs.
+   */
+  hooks?: RunnerHooks;
+
+  /**
+   * Event middleware applied, in order, to every event emitted by
+   * connect() and run(). Each middleware receives the events produced by
+   * the previous one.
+   */
+  eventMiddleware?: EventMiddleware[];
+
+  /**
+   * Filters, transforms and limits the state sent to the client in
+   * STATE_SNAPSHOT events and in the RAW and CUSTOM events repeating it,
+   * for both hydration and live streams.
+   * Default: state is sent as-is
+   */
+  stateProjection?: StateProjectionOptions;
+
+  /**
+   * Redacts messages in every event sent by connect() and run(): message
+   * and state snapshots, history pages, deltas, tool results and CUSTOM
+   * values. RAW events are dropped and `rawEvent` is removed.
+   * Default: no redaction
+   */
+  redaction?: MessageRedactionOptions;
+
+  /**
+   * Restricts connect(), run(), loadHistoryPage(), isRunning() and stop()
+   * to threads owned by the caller, by
+   * comparing thread metadata to the caller's identity. New threads are
+   * created with the identity as metadata.
+   * Default: any thread ID is accepted
+   */
+  ownership?: ThreadOwnershipPolicy;
+}
+
+/**
+ * Request the runner was called with. loadHistoryPage() passes
+ * `{ threadId, cursor }`.
+ */
+export type RunnerRequest =
+  | HistoryConnectRequest
+  | AgentRunnerRunRequest
+  | AgentRunnerIsRunningRequest
+  | AgentRunnerStopRequest;
+
+/**
+ * Deployment and credentials returned by `resolveTarget`.
+ */
+export interface ResolvedTarget {
+  deploymentUrl?: string;
+  langsmithApiKey?: string;
+
+  /**
+   * Headers sent with every request to the deployment, e.g. a tenant's
+   * auth token.
+   */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Request a thread is accessed with: a connect() or a run() request, or
+ * `{ threadId }` for ThreadManager operations and ThreadDirectory searches.
+ */
+export type ThreadAccessRequest =
+  | HistoryConnectRequest
+  | AgentRunnerRunRequest
+  | AgentRunnerIsRunningRequest
+  | AgentRunnerStopRequest;
+
+/**
+ * Context passed to thread authorization callbacks.
+ */
+export interface ThreadAccessContext {
+  /**
+   * Method the thread is accessed from. "connect" includes
+   * loadHistoryPage(); "manage" is a ThreadManager operation,
+   * exportThread() or importThread(); "list" is a ThreadDirectory search.
+   */
+  source: "connect" | "run" | "isRunning" | "stop" | "manage" | "list";
+
+  /**
+   * Thread accessed. Empty when the identity for a ThreadDirectory search
+   * is requested, before any thread is listed.
+   */
+  threadId: string;
+
+  /**
+   * Operation performed, when `source` is "manage".
+   */
+  operation?: ThreadOperation;
+}
+
+/**
+ * Thread management operations: those performed by ThreadManager, and
+ * "export" and "import" for exportThread() and importThread().
+ */
+export type ThreadOperation =
+  | "rename"
+  | "tag"
+  | "archive"
+  | "delete"
+  | "copy"
+  | "export"
+  | "import";
+
+/**
+ * Metadata-based thread ownership policy.
+ */
+export interface ThreadOwnershipPolicy {
+  /**
+   * Returns the caller's identity as thread metadata, e.g.
+   * `{ user_id: "u_1", tenant_id: "acme" }`. A thread is owned by the caller
+   * when its metadata has every key with the same value. Returning
+   * undefined or an empty object refuses access.
+   *
+   * CopilotKit does not pass HTTP requests to runners, so read the identity
+   * from request-scoped storage (e.g. AsyncLocalStorage) set by your route
+   * handler. Forwarded props come from the browser and must not be trusted.
+   */
+  getIdentity: (
+    request: ThreadAccessRequest,
+    context: ThreadAccessContext
+  ) =>
+    | Record<string, string>
+    | undefined
+    | Promise<Record<string, string> | undefined>;
+
+  /**
+   * Allow threads whose metadata has none of the identity keys, e.g.
+   * threads created before the policy was enabled.
+   * Default: false
+   */
+  allowUnowned?: boolean;
+}
+
+/**
+ * Message redaction settings.
+ */
+export interface MessageRedactionOptions {
+  /**
+   * Redacts message content and tool call arguments, e.g. a redactor
+   * created by createRegexRedactor().
+   */
+  redact?: MessageRedactor;
+
+  /**
+   * Leave system messages out of message and state snapshots and history
+   * pages.
+   * Default: false
+   */
+  dropSystemMessages?: boolean;
+
+  /**
+   * Characters held back per streamed message or tool call so a pattern
+   * spanning several deltas is still redacted. Must be at least the length
+   * of the longest text a pattern can match.
+   * Default: 64
+   */
+  holdback?: number;
+}
+
+/**
+ * Projection applied to state snapshots before they reach the client.
+ * Steps run in order: `include`, `exclude`, `project`, then `maxBytes`.
+ */
+export interface StateProjectionOptions {
+  /**
+   * Dot paths to keep (e.g. "plan", "user.name"); everything else is
+   * removed. Paths only traverse plain objects.
+   */
+  include?: string[];
+
+  /**
+   * Dot paths to remove (e.g. "messages", "config.apiKey").
+   */
+  exclude?: string[];
+
+  /**
+   * Custom projection. Return undefined to drop the snapshot.
+   */
+  project?: (
+    state: Record<string, unknown>,
+    context: EventMiddlewareContext
+  ) => Record<string, unknown> | undefined;
+
+  /**
+   * Maximum size of a snapshot, in bytes of UTF-8 encoded JSON.
+   */
+  maxBytes?: number;
+
+  /**
+   * What to do with snapshots larger than `maxBytes`:
+   * - "truncate": remove the largest top-level keys until the snapshot
+   *   fits, listing them under STATE_TRUNCATED_KEY
+   * - "skip": drop the snapshot
+   * Default: "truncate"
+   */
+  overflow?: "truncate" | "skip";
+}
+
+/**
+ * Context passed to hydration hooks.
+ */
+export interface HydrationHookContext {
+  threadId: string;
+  request: HistoryConnectRequest;
+}
+
+/**
+ * Context passed to run hooks.
+ */
+export interface RunHookContext {
+  threadId: string;
+  runId: string;
+  input: AgentRunnerRunRequest["input"];
+}
+
+/**
+ * Lifecycle hooks of HistoryHydratingAgentRunner. Hooks may be async.
+ */
+export interface RunnerHooks {
+  /**
+   * Called before a thread is hydrated by connect(). Throwing fails the
+   * hydration, which is then handled according to `hydrationFailureMode`.
+   */
+  onBeforeHydrate?: (context: HydrationHookContext) => void | Promise<void>;
+
+  /**
+   * Called with each batch of checkpoints fetched for hydration or a
+   * history page (newest-first). Return checkpoints to replace the batch.
+   */
+  onHistoryLoaded?: (
+    checkpoints: ThreadState[],
+    context: { threadId: string }
+  ) => ThreadState[] | void | Promise<ThreadState[] | void>;
+
+  /**
+   * Transforms the messages of the MESSAGES_SNAPSHOT emitted by connect().
+   * `state` is the hydrated checkpoint's state values. Cached hydrations
+   * are stored untransformed, so the hook runs on every connect().
+   */
+  transformSnapshot?: (
+    messages: TransformedMessage[],
+    state: Record<string, unknown> | undefined,
+    context: HydrationHookContext
+  ) => TransformedMessage[] | Promise<TransformedMessage[]>;
+
+  /**
+   * Called when a run() stream is subscribed, before the agent runs.
+   * Throwing rejects the run with RUN_ERROR code "RUN_START_REJECTED".
+   */
+  onRunStart?: (context: RunHookContext) => void | Promise<void>;
+
+  /**
+   * Called once when a run() stream ends. `error` is set when the run
+   * failed, either with a RUN_ERROR event or a stream error; `cancelled`
+   * when the subscriber unsubscribed first. Errors thrown by the hook are
+   * logged.
+   */
+  onRunEnd?: (
+    context: RunHookContext & { error?: unknown; cancelled?: boolean }
+  ) => void | Promise<void>;
+
+  /**
+   * Called before connect() hydrates a thread or loads a history page,
+   * before run() starts, and by loadHistoryPage(), isRunning() and stop(),
+   * after the `ownership` policy has passed. Return false to refuse access;
+   * errors thrown also refuse it. Refused connects and runs emit
+   * RUN_STARTED and RUN_ERROR with code `THREAD_ACCESS_DENIED` (or the
+   * thrown error's code). ThreadDirectory calls it for every listed
+   * thread and leaves refused threads out.
+   */
+  authorizeThread?: (
+    threadId: string,
+    request: ThreadAccessRequest,
+    context: ThreadAccessContext
+  ) => boolean | void | Promise<boolean | void>;
+}
+
+/**
+ * LangGraph deployment and graph serving one agent of a MultiAgentHistoryRunner.
+ */
+export interface AgentTarget {
+  /**
+   * LangGraph deployment URL.
+   */
+  deploymentUrl: string;
+
+  /**
+   * Graph ID on the deployment.
+   */
+  graphId: string;
+
+  /**
+   * LangSmith API key for this deployment.
+   * Default: the runner-level `langsmithApiKey`
+   */
+  langsmithApiKey?: string;
+
+  /**
+   * Client timeout in milliseconds.
+   * Default: the runner-level `clientTimeoutMs`
+   */
+  clientTimeoutMs?: number;
+}
+
+/**
+ * Configuration for the MultiAgentHistoryRunner.
+ * Options other than the targets apply to every agent's runner.
+ * `resolveTarget` is not supported: each agent has a fixed target.
+ */
+export interface MultiAgentRunnerConfig
+  extends Omit<
+    HistoryHydratingRunnerConfig,
+    "agent" | "deploymentUrl" | "graphId" | "resolveTarget"
+  > {
+  /**
+   * Map of CopilotKit agent IDs to the LangGraph target serving them.
+   */
+  agents: Record<string, AgentTarget>;
+
+  /**
+   * Agent used when a request cannot be attributed to a configured agent.
+   */
+  defaultAgentId?: string;
+
+  /**
+   * Resolves the agent for connect(), isRunning() and stop(), which only
+   * receive a thread ID. Return undefined to fall back to the built-in
+   * resolution (threads seen by run(), then thread `graph_id` metadata).
+   */
+  resolveAgentId?: (
+    threadId: string
+  ) => string | undefined | Promise<string | undefined>;
+}
+
+/**
+ * Retry settings for LangGraph API calls.
+ */
+export interface RetryPolicy {
+  /**
+   * Maximum number of attempts, including the first one.
+   * Set to 1 to disable retries.
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry, in milliseconds. Doubles per attempt.
+   */
+  initialDelayMs?: number;
+
+  /**
+   * Upper bound for the delay between attempts, in milliseconds.
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Randomize delays to spread out retries from concurrent clients.
+   */
+  jitter?: boolean;
+
+  /**
+   * HTTP status codes that are retried. Network failures are always retried.
+   */
+  retryableStatusCodes?: readonly number[];
+}
+
+/**
+ * Retry and backoff settings for rejoining dropped streams.
+ */
+export interface StreamReconnectOptions {
+  /**
+   * Maximum consecutive rejoin attempts. Set to 0 to disable reconnects.
+   */
+  maxRetries?: number;
+
+  /**
+   * Delay before the first rejoin, in milliseconds. Doubles per attempt.
+   */
+  initialDelayMs?: number;
+
+  /**
+   * Upper bound for the delay between rejoins, in milliseconds.
+   */
+  maxDelayMs?: number;
+}
+
+/**
+ * How connect() reports a failed hydration.
+ */
+export type HydrationFailureMode = "empty" | "error" | "skip";
+
+/**
+ * Cancel action used by stop() for a thread's active runs.
+ */
+export type CancelAction = "interrupt" | "rollback";
+
+/**
+ * Strategy used to select messages during hydration.
+ */
+export type HydrationStrategy = "latest" | "merge" | "lineage";
+
+/**
+ * Connect request accepted by HistoryHydratingAgentRunner.connect().
+ * Extends CopilotKit's request with optional hydration controls.
+ */
+export interface HistoryConnectRequest extends AgentRunnerConnectRequest {
+  /**
+   * Cursor from a previous `history_page` event.
+   * When set, connect() emits the next older page of messages instead of
+   * re-hydrating the whole thread.
+   */
+  cursor?: string;
+
+  /**
+   * Checkpoint to hydrate the thread at, instead of its head ("time travel").
+   * The session is read-only: pending interrupts and active runs are
+   * ignored, and a `hydration_read_only` event is emitted.
+   */
+  checkpointId?: string;
+
+  /**
+   * Newest checkpoint of the branch to hydrate, from a `message_branches`
+   * event. Messages, state and forks follow that branch instead of the
+   * thread head. Unless the branch is the head, the session is read-only
+   * like time travel. Ignored when `checkpointId` is set.
+   */
+  branchCheckpointId?: string;
+}
+
+/**
+ * Options for HistoryHydratingAgentRunner.importThread().
+ */
+export interface ImportThreadOptions {
+  /**
+   * ID of the thread to create. The import fails if it already exists.
+   * Default: a random UUID
+   */
+  threadId?: string;
+
+  /**
+   * Thread metadata. With an `ownership` policy, the caller's identity
+   * overrides the ownership keys.
+   */
+  metadata?: Record<string, unknown>;
+
+  /**
+   * State values seeded along with the messages, e.g. other channels of
+   * the graph's state.
+   */
+  state?: Record<string, unknown>;
+
+  /**
+   * Node the state update is attributed to. Needed when LangGraph cannot
+   * infer it for the graph.
+   */
+  asNode?: string;
+}
+
+/**
+ * A thread created by HistoryHydratingAgentRunner.importThread().
+ */
+export interface ImportedThread {
+  threadId: string;
+
+  /**
+   * Checkpoint holding the imported messages.
+   */
+  checkpointId?: string;
+
+  messageCount: number;
+}
+
+/**
+ * Forwarded props recognized by HistoryHydratingAgentRunner.run().
+ * Set them through CopilotKit's `forwardedProps`; all other props are
+ * passed through to the LangGraph run.
+ */
+export interface HistoryForwardedProps {
+  /**
+   * Fork the thread before this message and run on the new branch.
+   * Used to edit an earlier prompt or regenerate an answer.
+   */
+  forkFromMessageId?: string;
+
+  /**
+   * Resume pending interrupts by ID, e.g. `{ [interruptId]: value }`.
+   * Sent to LangGraph as `Command({ resume })`, so parallel interrupts can
+   * be resolved individually or together.
+   */
+  resumeInterrupts?: Record<string, unknown>;
+
+  /**
+   * Metadata for the thread when the run creates it. With an `ownership`
+   * policy, the caller's identity overrides the ownership keys.
+   */
+  threadMetadata?: Record<string, unknown>;
+
+  configurable?: Record<string, unknown>;
+
+  [key: string]: unknown;
 }
 
 /**
@@ -94,7 +735,13 @@ export interface ThreadState {
     id: string;
     name: string;
     interrupts?: Array<{
+      id?: string;
+      /** Interrupt ID on older LangGraph API versions. */
+      interrupt_id?: string;
       value?: unknown;
+      ns?: string[];
+      resumable?: boolean;
+      when?: string;
       [key: string]: unknown;
     }>;
     [key: string]: unknown;
@@ -120,5 +767,6 @@ export interface FrozenAgentConfig {
   deploymentUrl: string;
   graphId: string;
   langsmithApiKey?: string;
+  headers?: Readonly<Record<string, string>>;
   clientTimeoutMs: number;
 }
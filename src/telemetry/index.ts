@@ -0,0 +1,12 @@
+export {
+  TELEMETRY_SCOPE,
+  type TelemetryAttributes,
+  type TelemetryCounter,
+  type TelemetryHistogram,
+  type TelemetryMeter,
+  type TelemetryMeterProvider,
+  type TelemetryOptions,
+  type TelemetrySpan,
+  type TelemetryTracer,
+  type TelemetryTracerProvider,
+} from "./telemetry";
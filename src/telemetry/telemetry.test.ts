@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { createTelemetry } from "./telemetry";
+import { ThreadNotFoundError } from "../errors/langgraph-errors";
+import { checkpoint } from "../testing/checkpoints";
+import {
+  collectEvents,
+  createTestRunner,
+  FakeLangGraphServer,
+} from "../testing/fake-langgraph";
+import { createInMemoryTelemetry } from "../testing/telemetry";
+
+describe("createTelemetry", () => {
+  it("traces calls in spans named after the operation", async () => {
+    const recorder = createInMemoryTelemetry();
+    const telemetry = createTelemetry(recorder);
+
+    const result = await telemetry.trace(
+      "connect",
+      { "langgraph.thread_id": "t1", "langgraph.run_id": undefined },
+      async (span) => {
+        span.setAttribute("langgraph.message_count", 2);
+        return "done";
+      }
+    );
+
+    expect(result).toBe("done");
+    expect(recorder.spans).toEqual([
+      {
+        name: "langgraph_history.connect",
+        attributes: {
+          "langgraph.thread_id": "t1",
+          "langgraph.message_count": 2,
+        },
+        exceptions: [],
+        ended: true,
+      },
+    ]);
+  });
+
+  it.each([
+    [
+      "thrown",
+      () => {
+        throw new ThreadNotFoundError("Thread t1 not found");
+      },
+    ],
+    [
+      "rejected",
+      () => Promise.reject(new ThreadNotFoundError("Thread t1 not found")),
+    ],
+  ])("records %s errors and counts the failure", async (_label, fn) => {
+    const recorder = createInMemoryTelemetry();
+    const telemetry = createTelemetry(recorder);
+
+    await expect(
+      (async () => telemetry.trace("client.getState", {}, fn))()
+    ).rejects.toBeInstanceOf(ThreadNotFoundError);
+
+    expect(recorder.spans[0]).toMatchObject({
+      status: { code: 2, message: "Thread t1 not found" },
+      exceptions: [expect.any(ThreadNotFoundError)],
+      ended: true,
+    });
+    expect(recorder.measurements).toEqual([
+      {
+        name: "langgraph_history.failures",
+        value: 1,
+        attributes: {
+          "langgraph_history.operation": "client.getState",
+          "error.type": "THREAD_NOT_FOUND",
+        },
+      },
+    ]);
+  });
+
+  it("records hydration durations and event counts", () => {
+    const recorder = createInMemoryTelemetry();
+    const telemetry = createTelemetry(recorder);
+
+    telemetry.recordHydration(12, { "langgraph_history.cached": false });
+    telemetry.recordEvents(3, { "langgraph_history.operation": "run" });
+
+    expect(recorder.measurements).toEqual([
+      {
+        name: "langgraph_history.hydration.duration",
+        value: 12,
+        attributes: { "langgraph_history.cached": false },
+      },
+      {
+        name: "langgraph_history.events",
+        value: 3,
+        attributes: { "langgraph_history.operation": "run" },
+      },
+    ]);
+  });
+
+  it("runs calls as-is without providers", () => {
+    const telemetry = createTelemetry();
+
+    expect(telemetry.trace("connect", {}, () => "done")).toBe("done");
+    expect(() => telemetry.recordEvents(1, {})).not.toThrow();
+  });
+});
+
+describe("runner instrumentation", () => {
+  let server: FakeLangGraphServer;
+
+  beforeEach(async () => {
+    server = await FakeLangGraphServer.start();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it("traces connect() with its LangGraph calls and metrics", async () => {
+    server.thread("t1", {
+      checkpoints: [checkpoint("c1", undefined, ["m1", "a1"])],
+    });
+    const recorder = createInMemoryTelemetry();
+    const runner = createTestRunner(server, { telemetry: recorder });
+
+    const events = await collectEvents(runner.connect({ threadId: "t1" }));
+
+    const connect = recorder.spans.find(
+      (span) => span.name === "langgraph_history.connect"
+    );
+    expect(connect).toMatchObject({
+      attributes: {
+        "langgraph.thread_id": "t1",
+        "langgraph.message_count": 2,
+        "langgraph_history.cached": false,
+        "langgraph_history.event_count": events.length,
+      },
+      ended: true,
+    });
+    expect(connect?.status).toBeUndefined();
+    expect(recorder.spans.map((span) => span.name)).toContain(
+      "langgraph_history.client.getHistory"
+    );
+    expect(
+      recorder.measurements.map((measurement) => measurement.name)
+    ).toEqual([
+      "langgraph_history.hydration.duration",
+      "langgraph_history.events",
+    ]);
+  });
+
+  it("marks connect() failed when it reports a RUN_ERROR", async () => {
+    const recorder = createInMemoryTelemetry();
+    const runner = createTestRunner(server, {
+      telemetry: recorder,
+      hydrationFailureMode: "error",
+    });
+
+    await collectEvents(runner.connect({ threadId: "t1" }));
+
+    const connect = recorder.spans.find(
+      (span) => span.name === "langgraph_history.connect"
+    );
+    expect(connect?.status?.code).toBe(2);
+    expect(recorder.measurements).toContainEqual({
+      name: "langgraph_history.failures",
+      value: 1,
+      attributes: {
+        "langgraph_history.operation": "connect",
+        "error.type": "THREAD_NOT_FOUND",
+      },
+    });
+  });
+});
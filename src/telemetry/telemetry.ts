@@ -0,0 +1,245 @@
+/**
+ * Attributes attached to spans and metric data points.
+ */
+export type TelemetryAttributes = Record<
+  string,
+  string | number | boolean | undefined
+>;
+
+/**
+ * Span as used by the runner. Structurally compatible with an
+ * OpenTelemetry `Span`, so no OpenTelemetry dependency is required.
+ */
+export interface TelemetrySpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setAttributes(attributes: TelemetryAttributes): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): unknown;
+  end(): void;
+}
+
+/**
+ * Tracer as used by the runner (subset of an OpenTelemetry `Tracer`).
+ */
+export interface TelemetryTracer {
+  startActiveSpan<F extends (span: TelemetrySpan) => unknown>(
+    name: string,
+    options: { attributes?: TelemetryAttributes },
+    fn: F
+  ): ReturnType<F>;
+}
+
+/**
+ * Source of tracers, e.g. `trace.getTracerProvider()` from
+ * `@opentelemetry/api` or a `NodeTracerProvider`.
+ */
+export interface TelemetryTracerProvider {
+  getTracer(name: string, version?: string): TelemetryTracer;
+}
+
+/**
+ * Histogram instrument (subset of an OpenTelemetry `Histogram`).
+ */
+export interface TelemetryHistogram {
+  record(value: number, attributes?: TelemetryAttributes): void;
+}
+
+/**
+ * Counter instrument (subset of an OpenTelemetry `Counter`).
+ */
+export interface TelemetryCounter {
+  add(value: number, attributes?: TelemetryAttributes): void;
+}
+
+/**
+ * Meter as used by the runner (subset of an OpenTelemetry `Meter`).
+ */
+export interface TelemetryMeter {
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): TelemetryHistogram;
+  createCounter(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): TelemetryCounter;
+}
+
+/**
+ * Source of meters, e.g. `metrics.getMeterProvider()` from
+ * `@opentelemetry/api` or a `MeterProvider`.
+ */
+export interface TelemetryMeterProvider {
+  getMeter(name: string, version?: string): TelemetryMeter;
+}
+
+/**
+ * OpenTelemetry providers for the runner's spans and metrics.
+ * Instrumentation is a no-op for any provider that is not supplied.
+ */
+export interface TelemetryOptions {
+  tracerProvider?: TelemetryTracerProvider;
+  meterProvider?: TelemetryMeterProvider;
+}
+
+/**
+ * Instrumentation helpers used by the runner.
+ */
+export interface Telemetry {
+  /**
+   * Runs `fn` inside an active span named `langgraph_history.<operation>`.
+   * The span ends when `fn` returns, or when its promise settles. Errors
+   * are recorded on the span and counted as failures before being rethrown.
+   */
+  trace<T>(
+    operation: string,
+    attributes: TelemetryAttributes,
+    fn: (span: TelemetrySpan) => T
+  ): T;
+
+  /**
+   * Marks a span as failed and counts the failure, for errors that are
+   * handled instead of thrown.
+   */
+  recordFailure(span: TelemetrySpan, operation: string, error: unknown): void;
+
+  /**
+   * Records the time taken to hydrate a thread.
+   */
+  recordHydration(durationMs: number, attributes: TelemetryAttributes): void;
+
+  /**
+   * Counts events emitted to the client.
+   */
+  recordEvents(count: number, attributes: TelemetryAttributes): void;
+}
+
+/**
+ * Instrumentation scope name of the runner's tracer and meter.
+ */
+export const TELEMETRY_SCOPE = "copilotkit-langgraph-history";
+
+/**
+ * OpenTelemetry `SpanStatusCode.ERROR`.
+ */
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Span used when no tracer provider is configured.
+ */
+const noopSpan: TelemetrySpan = {
+  setAttribute: () => noopSpan,
+  setAttributes: () => noopSpan,
+  setStatus: () => noopSpan,
+  recordException: () => {},
+  end: () => {},
+};
+
+/**
+ * Drops attributes without a value, which OpenTelemetry rejects.
+ */
+function withoutUndefined(
+  attributes: TelemetryAttributes
+): TelemetryAttributes {
+  return Object.fromEntries(
+    Object.entries(attributes).filter(([, value]) => value !== undefined)
+  );
+}
+
+/**
+ * Creates the runner's instrumentation from the given providers.
+ */
+export function createTelemetry(options: TelemetryOptions = {}): Telemetry {
+  const tracer = options.tracerProvider?.getTracer(TELEMETRY_SCOPE);
+  const meter = options.meterProvider?.getMeter(TELEMETRY_SCOPE);
+
+  const hydrationDuration = meter?.createHistogram(
+    "langgraph_history.hydration.duration",
+    { description: "Time taken to hydrate a thread", unit: "ms" }
+  );
+  const failures = meter?.createCounter("langgraph_history.failures", {
+    description: "Failed operations, by operation and error code",
+  });
+  const events = meter?.createCounter("langgraph_history.events", {
+    description: "Events emitted to the client",
+  });
+
+  const recordFailure = (
+    span: TelemetrySpan,
+    operation: string,
+    error: unknown
+  ) => {
+    const exception = error instanceof Error ? error : String(error);
+    span.recordException(exception);
+    span.setStatus({
+      code: SPAN_STATUS_ERROR,
+      message: error instanceof Error ? error.message : String(error),
+    });
+
+    const code = (error as { code?: unknown } | null)?.code;
+    failures?.add(1, {
+      "langgraph_history.operation": operation,
+      "error.type":
+        typeof code === "string"
+          ? code
+          : error instanceof Error
+            ? error.name
+            : "unknown",
+    });
+  };
+
+  return {
+    trace<T>(
+      operation: string,
+      attributes: TelemetryAttributes,
+      fn: (span: TelemetrySpan) => T
+    ): T {
+      const run = (span: TelemetrySpan): T => {
+        let result: T;
+        try {
+          result = fn(span);
+        } catch (error) {
+          recordFailure(span, operation, error);
+          span.end();
+          throw error;
+        }
+
+        if (result instanceof Promise) {
+          return result.then(
+            (value: unknown) => {
+              span.end();
+              return value;
+            },
+            (error: unknown) => {
+              recordFailure(span, operation, error);
+              span.end();
+              throw error;
+            }
+          ) as T;
+        }
+
+        span.end();
+        return result;
+      };
+
+      // Without a tracer, failures are still counted by the meter
+      return tracer
+        ? tracer.startActiveSpan(
+            `langgraph_history.${operation}`,
+            { attributes: withoutUndefined(attributes) },
+            run
+          )
+        : run(noopSpan);
+    },
+
+    recordFailure,
+
+    recordHydration(durationMs, attributes) {
+      hydrationDuration?.record(durationMs, attributes);
+    },
+
+    recordEvents(count, attributes) {
+      events?.add(count, attributes);
+    },
+  };
+}
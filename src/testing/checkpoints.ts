@@ -0,0 +1,51 @@
+/**
+ * Checkpoint fixtures shared by the tests. Not part of the package.
+ */
+
+import { FORK_METADATA_KEY } from "../runner/constants";
+import type { LangGraphMessage, ThreadState } from "../runner/types";
+
+/**
+ * Builds a checkpoint holding the given messages. Message IDs starting with
+ * "a" are AI messages, all others are human messages.
+ */
+export function checkpoint(
+  id: string,
+  parentId: string | undefined,
+  messageIds: string[],
+  metadata: Record<string, unknown> = {}
+): ThreadState {
+  return {
+    values: {
+      messages: messageIds.map((messageId): LangGraphMessage => ({
+        id: messageId,
+        type: messageId.startsWith("a") ? "ai" : "human",
+        content: messageId,
+      })),
+    },
+    next: [],
+    checkpoint: { checkpoint_id: id },
+    parent_checkpoint: parentId ? { checkpoint_id: parentId } : null,
+    metadata,
+  } as unknown as ThreadState;
+}
+
+export function checkpointIds(checkpoints: ThreadState[]): unknown[] {
+  return checkpoints.map(
+    (state) => (state.checkpoint as { checkpoint_id: string }).checkpoint_id
+  );
+}
+
+const fork = { [FORK_METADATA_KEY]: "c1" };
+
+/**
+ * Answer a1 was regenerated as a2 by forking from c1 (newest-first). c3 was
+ * written back by the fork; the fork run recorded the fork point in c4.
+ */
+export const forkedHistory: ThreadState[] = [
+  checkpoint("c4", "c3", ["m1", "a2"], fork),
+  checkpoint("c3", "c1", ["m1"]),
+  checkpoint("c2", "c1", ["m1", "a1"]),
+  checkpoint("c1", "c0", ["m1"]),
+  checkpoint("c0", undefined, []),
+];
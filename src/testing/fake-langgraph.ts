@@ -0,0 +1,309 @@
+/**
+ * In-process fake of the LangGraph API for runner tests. Not part of the
+ * package.
+ */
+
+import {
+  createServer,
+  type IncomingHttpHeaders,
+  type Server,
+  type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+
+import type { BaseEvent } from "@ag-ui/core";
+import type { AgentRunnerRunRequest } from "@copilotkitnext/runtime";
+import type { Observable } from "rxjs";
+
+import { noopLogger } from "../logging/logger";
+import { HistoryHydratingAgentRunner } from "../runner/history-hydrating-runner";
+import type {
+  HistoryHydratingRunnerConfig,
+  ThreadState,
+} from "../runner/types";
+import { createIsolatedAgent } from "../utils/create-isolated-agent";
+import { getCheckpointId } from "../utils/history-pagination";
+
+/**
+ * A request received by the fake server.
+ */
+export interface FakeRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: IncomingHttpHeaders;
+  body: unknown;
+}
+
+/**
+ * A response of the fake server: a JSON body, or server-sent events when
+ * `events` is set.
+ */
+export interface FakeResponse {
+  status?: number;
+  body?: unknown;
+  events?: Array<{ event: string; data: unknown; id?: string }>;
+  /**
+   * Destroys the connection after sending the events, like a dropped
+   * proxy connection.
+   */
+  drop?: boolean;
+}
+
+type FakeHandler =
+  | FakeResponse
+  | ((request: FakeRequest) => FakeResponse | Promise<FakeResponse>);
+
+interface FakeRoute {
+  method: string;
+  path: string | RegExp;
+  handler: FakeHandler;
+}
+
+/**
+ * HTTP server answering LangGraph API calls with configured responses.
+ * Unmatched requests get a 404, like a missing thread.
+ */
+export class FakeLangGraphServer {
+  readonly requests: FakeRequest[] = [];
+  private readonly routes: FakeRoute[] = [];
+
+  private constructor(
+    private readonly server: Server,
+    readonly url: string
+  ) {}
+
+  static async start(): Promise<FakeLangGraphServer> {
+    let fake: FakeLangGraphServer | undefined;
+    const server = createServer((req, res) => {
+      let data = "";
+      req.setEncoding("utf8");
+      req.on("data", (chunk: string) => {
+        data += chunk;
+      });
+      req.on("end", () => {
+        const url = new URL(req.url ?? "/", "http://localhost");
+        fake!
+          .handle(
+            {
+              method: req.method ?? "GET",
+              path: url.pathname,
+              query: url.searchParams,
+              headers: req.headers,
+              body: data ? JSON.parse(data) : undefined,
+            },
+            res
+          )
+          .catch((error: unknown) => {
+            res.statusCode = 500;
+            res.end(JSON.stringify({ detail: String(error) }));
+          });
+      });
+    });
+
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = server.address() as AddressInfo;
+    fake = new FakeLangGraphServer(server, `http://127.0.0.1:${port}`);
+    return fake;
+  }
+
+  /**
+   * Answers requests matching the method and path. Routes added later take
+   * precedence.
+   */
+  on(method: string, path: string | RegExp, handler: FakeHandler): this {
+    this.routes.unshift({ method, path, handler });
+    return this;
+  }
+
+  /**
+   * Serves a thread: its metadata and status, its checkpoints
+   * (newest-first) through getState() and getHistory(), and its runs.
+   */
+  thread(
+    threadId: string,
+    options: {
+      checkpoints?: ThreadState[];
+      metadata?: Record<string, unknown>;
+      status?: string;
+      runs?: Array<Record<string, unknown>>;
+    } = {}
+  ): this {
+    const { checkpoints = [], runs = [] } = options;
+    const base = `/threads/${threadId}`;
+
+    return this.on("GET", base, {
+      body: {
+        thread_id: threadId,
+        status: options.status ?? "idle",
+        metadata: options.metadata ?? {},
+      },
+    })
+      .on("GET", `${base}/state`, {
+        body: checkpoints[0] ?? { values: {}, next: [], checkpoint: null },
+      })
+      .on("GET", new RegExp(`^${base}/state/[^/]+$`), (request) => {
+        const checkpointId = request.path.split("/").pop();
+        const state = checkpoints.find(
+          (candidate) => getCheckpointId(candidate) === checkpointId
+        );
+        return state
+          ? { body: state }
+          : { status: 404, body: { detail: "Not Found" } };
+      })
+      .on("POST", `${base}/history`, (request) => {
+        const { limit = 10, before } = (request.body ?? {}) as {
+          limit?: number;
+          before?: { configurable?: { checkpoint_id?: string } };
+        };
+        const beforeId = before?.configurable?.checkpoint_id;
+        const start = beforeId
+          ? checkpoints.findIndex(
+              (state) => getCheckpointId(state) === beforeId
+            ) + 1
+          : 0;
+        return { body: checkpoints.slice(start, start + limit) };
+      })
+      .on("GET", `${base}/runs`, { body: runs });
+  }
+
+  /**
+   * Serves the assistant of the "agent" graph, so runs can start. The
+   * streams of new runs send the run's metadata, then `events`.
+   */
+  assistant(events: NonNullable<FakeResponse["events"]> = []): this {
+    return this.on("POST", "/assistants/search", {
+      body: [{ assistant_id: "assistant-1", graph_id: "agent" }],
+    })
+      .on("GET", "/assistants/assistant-1/schemas", { body: {} })
+      .on("GET", "/assistants/assistant-1/graph", {
+        body: { nodes: [], edges: [] },
+      })
+      .on("POST", /^\/threads\/[^/]+\/runs\/stream$/, {
+        events: [{ event: "metadata", data: { run_id: "run-1" } }, ...events],
+      });
+  }
+
+  /**
+   * Requests received for the method and path.
+   */
+  calls(method: string, path: string | RegExp): FakeRequest[] {
+    return this.requests.filter(
+      (request) => request.method === method && matches(path, request.path)
+    );
+  }
+
+  close(): Promise<void> {
+    this.server.closeAllConnections();
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private async handle(
+    request: FakeRequest,
+    res: ServerResponse
+  ): Promise<void> {
+    this.requests.push(request);
+
+    const route = this.routes.find(
+      (candidate) =>
+        candidate.method === request.method &&
+        matches(candidate.path, request.path)
+    );
+    const response: FakeResponse = route
+      ? typeof route.handler === "function"
+        ? await route.handler(request)
+        : route.handler
+      : { status: 404, body: { detail: "Not Found" } };
+
+    if (response.events) {
+      res.writeHead(response.status ?? 200, {
+        "content-type": "text/event-stream",
+      });
+      const body = response.events
+        .map(
+          ({ event, data, id }) =>
+            `${id ? `id: ${id}\n` : ""}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+        )
+        .join("");
+      if (response.drop) {
+        // Destroyed once the events were flushed, so the client receives them
+        res.write(body, () => res.destroy());
+      } else {
+        res.end(body);
+      }
+      return;
+    }
+
+    res.writeHead(response.status ?? 200, {
+      "content-type": "application/json",
+    });
+    res.end(JSON.stringify(response.body ?? null));
+  }
+}
+
+function matches(pattern: string | RegExp, path: string): boolean {
+  return typeof pattern === "string" ? pattern === path : pattern.test(path);
+}
+
+/**
+ * Creates a runner against the fake server, with logging disabled and
+ * retries without delay.
+ */
+export function createTestRunner(
+  server: FakeLangGraphServer,
+  config: Partial<HistoryHydratingRunnerConfig> = {}
+): HistoryHydratingAgentRunner {
+  return new HistoryHydratingAgentRunner({
+    agent: createIsolatedAgent({
+      deploymentUrl: server.url,
+      graphId: "agent",
+      logger: noopLogger,
+    }),
+    deploymentUrl: server.url,
+    graphId: "agent",
+    logger: noopLogger,
+    retry: { initialDelayMs: 0, jitter: false },
+    ...config,
+  });
+}
+
+/**
+ * Builds a run() request for the thread. The runner creates its own agent,
+ * so the request's agent is left empty.
+ */
+export function runRequest(
+  threadId: string,
+  forwardedProps: Record<string, unknown> = {}
+): AgentRunnerRunRequest {
+  return {
+    threadId,
+    agent: {} as AgentRunnerRunRequest["agent"],
+    input: {
+      threadId,
+      runId: "run-1",
+      messages: [],
+      tools: [],
+      context: [],
+      state: {},
+      forwardedProps,
+    },
+  };
+}
+
+/**
+ * Collects the events of a stream until it completes.
+ */
+export function collectEvents(
+  events$: Observable<BaseEvent>
+): Promise<BaseEvent[]> {
+  return new Promise((resolve, reject) => {
+    const events: BaseEvent[] = [];
+    events$.subscribe({
+      next: (event) => events.push(event),
+      error: reject,
+      complete: () => resolve(events),
+    });
+  });
+}
@@ -0,0 +1,93 @@
+/**
+ * In-memory tracer and meter for telemetry tests. Not part of the package.
+ */
+
+import type {
+  TelemetryAttributes,
+  TelemetryMeterProvider,
+  TelemetrySpan,
+  TelemetryTracerProvider,
+} from "../telemetry/telemetry";
+
+/**
+ * A span recorded by the in-memory tracer.
+ */
+export interface RecordedSpan {
+  name: string;
+  attributes: TelemetryAttributes;
+  status?: { code: number; message?: string };
+  exceptions: Array<Error | string>;
+  ended: boolean;
+}
+
+/**
+ * A histogram value or counter increment recorded by the in-memory meter.
+ */
+export interface RecordedMeasurement {
+  name: string;
+  value: number;
+  attributes?: TelemetryAttributes;
+}
+
+/**
+ * Tracer and meter providers that record spans and measurements in
+ * memory, in the order they were started or made.
+ */
+export function createInMemoryTelemetry(): {
+  tracerProvider: TelemetryTracerProvider;
+  meterProvider: TelemetryMeterProvider;
+  spans: RecordedSpan[];
+  measurements: RecordedMeasurement[];
+} {
+  const spans: RecordedSpan[] = [];
+  const measurements: RecordedMeasurement[] = [];
+
+  const record =
+    (name: string) => (value: number, attributes?: TelemetryAttributes) =>
+      measurements.push({ name, value, attributes });
+
+  return {
+    spans,
+    measurements,
+    tracerProvider: {
+      getTracer: () => ({
+        startActiveSpan: (name, options, fn) => {
+          const recorded: RecordedSpan = {
+            name,
+            attributes: { ...options.attributes },
+            exceptions: [],
+            ended: false,
+          };
+          spans.push(recorded);
+          const span: TelemetrySpan = {
+            setAttribute: (key, value) => {
+              recorded.attributes[key] = value;
+              return span;
+            },
+            setAttributes: (attributes) => {
+              Object.assign(recorded.attributes, attributes);
+              return span;
+            },
+            setStatus: (status) => {
+              recorded.status = status;
+              return span;
+            },
+            recordException: (exception) => {
+              recorded.exceptions.push(exception);
+            },
+            end: () => {
+              recorded.ended = true;
+            },
+          };
+          return fn(span) as ReturnType<typeof fn>;
+        },
+      }),
+    },
+    meterProvider: {
+      getMeter: () => ({
+        createHistogram: (name) => ({ record: record(name) }),
+        createCounter: (name) => ({ add: record(name) }),
+      }),
+    },
+  };
+}
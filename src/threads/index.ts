@@ -0,0 +1,27 @@
+export {
+  ThreadDirectory,
+  type ThreadDirectoryBackend,
+  type ThreadDirectoryOptions,
+  type ThreadPreview,
+  type ThreadSearchOptions,
+  type ThreadSearchPage,
+  type ThreadStatus,
+  type ThreadSummary,
+} from "./thread-directory";
+export {
+  ThreadManager,
+  type ManagedThread,
+  type ThreadManagerBackend,
+} from "./thread-manager";
+export { getThreadLabels, type ThreadLabels } from "./thread-metadata";
+export {
+  createThreadTranscript,
+  type ThreadTranscript,
+  type TranscriptMessage,
+  type TranscriptToolCall,
+  type TranscriptToolResult,
+} from "./thread-transcript";
+export {
+  renderTranscriptHtml,
+  renderTranscriptMarkdown,
+} from "./transcript-renderers";
@@ -0,0 +1,244 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { ThreadAccessDeniedError } from "../errors/thread-access-errors";
+import { THREAD_METADATA_KEYS } from "../runner/constants";
+import type { ThreadAccessContext } from "../runner/types";
+import {
+  createTestRunner,
+  FakeLangGraphServer,
+  type FakeRequest,
+} from "../testing/fake-langgraph";
+
+let server: FakeLangGraphServer;
+
+beforeEach(async () => {
+  server = await FakeLangGraphServer.start();
+});
+
+afterEach(async () => {
+  await server.close();
+});
+
+/**
+ * Builds a thread as returned by the search, with one human and one AI
+ * message.
+ */
+function thread(
+  threadId: string,
+  metadata: Record<string, unknown> = {}
+): Record<string, unknown> {
+  return {
+    thread_id: threadId,
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: "2026-01-02T00:00:00Z",
+    status: "idle",
+    metadata,
+    values: {
+      messages: [
+        { id: "m1", type: "human", content: `Question   in ${threadId}` },
+        { id: "a1", type: "ai", content: `Answer in ${threadId}` },
+      ],
+    },
+    interrupts: {},
+  };
+}
+
+function searchBody(request: FakeRequest | undefined): Record<string, unknown> {
+  return request?.body as Record<string, unknown>;
+}
+
+describe("ThreadDirectory", () => {
+  it("summarizes a page of threads and offers a cursor", async () => {
+    server.on("POST", "/threads/search", {
+      body: [
+        thread("t1", { [THREAD_METADATA_KEYS.title]: "Trip" }),
+        thread("t2"),
+        thread("t3"),
+      ],
+    });
+    const directory = createTestRunner(server).createThreadDirectory();
+
+    const page = await directory.search({ limit: 2 });
+
+    expect(page.threads.map((summary) => summary.threadId)).toEqual([
+      "t1",
+      "t2",
+    ]);
+    expect(page.threads[0]).toMatchObject({
+      title: "Trip",
+      tags: [],
+      archived: false,
+      preview: {
+        firstUserMessage: "Question in t1",
+        lastMessage: "Answer in t1",
+        lastMessageRole: "assistant",
+        messageCount: 2,
+        hasPendingInterrupt: false,
+      },
+    });
+    expect(page.hasMore).toBe(true);
+    expect(searchBody(server.calls("POST", "/threads/search")[0])).toEqual({
+      metadata: { graph_id: "agent" },
+      limit: 3,
+      offset: 0,
+      sort_by: "updated_at",
+      sort_order: "desc",
+    });
+
+    await directory.search({ limit: 2, cursor: page.cursor! });
+    expect(
+      searchBody(server.calls("POST", "/threads/search")[1])
+    ).toMatchObject({ offset: 2 });
+  });
+
+  it("ends on a page without an extra thread", async () => {
+    server.on("POST", "/threads/search", { body: [thread("t1")] });
+    const directory = createTestRunner(server).createThreadDirectory();
+
+    const page = await directory.search({ limit: 2 });
+
+    expect(page).toMatchObject({ cursor: null, hasMore: false });
+  });
+
+  it("rejects a malformed cursor", async () => {
+    const directory = createTestRunner(server).createThreadDirectory();
+
+    await expect(directory.search({ cursor: "not-a-cursor" })).rejects.toThrow(
+      /Invalid thread cursor/
+    );
+    expect(server.calls("POST", "/threads/search")).toHaveLength(0);
+  });
+
+  it("leaves archived threads out unless asked for them", async () => {
+    server.on("POST", "/threads/search", {
+      body: [
+        thread("t1", { [THREAD_METADATA_KEYS.archived]: true }),
+        thread("t2"),
+      ],
+    });
+    const directory = createTestRunner(server).createThreadDirectory();
+
+    const page = await directory.search();
+    const archived = await directory.search({ archived: "only" });
+
+    expect(page.threads.map((summary) => summary.threadId)).toEqual(["t2"]);
+    expect(archived.threads).toHaveLength(2);
+    expect(
+      searchBody(server.calls("POST", "/threads/search")[1])
+    ).toMatchObject({
+      metadata: { graph_id: "agent", [THREAD_METADATA_KEYS.archived]: true },
+    });
+  });
+
+  it("cuts previews to previewLength", async () => {
+    server.on("POST", "/threads/search", { body: [thread("t1")] });
+    const directory = createTestRunner(server).createThreadDirectory({
+      previewLength: 8,
+    });
+
+    const page = await directory.search();
+
+    expect(page.threads[0]?.preview.firstUserMessage).toBe("Questio…");
+  });
+
+  it("searches the deployment and headers returned by resolveTarget", async () => {
+    const tenant = await FakeLangGraphServer.start();
+    try {
+      tenant.on("POST", "/threads/search", { body: [thread("t1")] });
+      const requests: unknown[] = [];
+      const directory = createTestRunner(server, {
+        resolveTarget: (request) => {
+          requests.push(request);
+          return { deploymentUrl: tenant.url, headers: { "x-tenant": "acme" } };
+        },
+      }).createThreadDirectory();
+
+      const page = await directory.search();
+
+      expect(page.threads).toHaveLength(1);
+      expect(requests).toEqual([{ threadId: "" }]);
+      expect(server.calls("POST", "/threads/search")).toHaveLength(0);
+      expect(
+        tenant.calls("POST", "/threads/search")[0]?.headers["x-tenant"]
+      ).toBe("acme");
+    } finally {
+      await tenant.close();
+    }
+  });
+
+  it("retries failed searches with the runner's retry policy", async () => {
+    let attempts = 0;
+    server.on("POST", "/threads/search", () =>
+      ++attempts === 1
+        ? { status: 503, body: { detail: "Unavailable" } }
+        : { body: [thread("t1")] }
+    );
+    const directory = createTestRunner(server).createThreadDirectory();
+
+    const page = await directory.search();
+
+    expect(page.threads).toHaveLength(1);
+    expect(attempts).toBe(2);
+  });
+
+  describe("with an ownership policy", () => {
+    it("only searches the caller's threads", async () => {
+      server.on("POST", "/threads/search", { body: [thread("t1")] });
+      const contexts: ThreadAccessContext[] = [];
+      const directory = createTestRunner(server, {
+        ownership: {
+          getIdentity: (_request, context) => {
+            contexts.push(context);
+            return { user_id: "u_1" };
+          },
+        },
+      }).createThreadDirectory();
+
+      await directory.search({ metadata: { user_id: "u_2", topic: "travel" } });
+
+      expect(contexts).toEqual([{ source: "list", threadId: "" }]);
+      expect(
+        searchBody(server.calls("POST", "/threads/search")[0])
+      ).toMatchObject({
+        metadata: { user_id: "u_1", topic: "travel", graph_id: "agent" },
+      });
+    });
+
+    it.each([
+      ["no identity", undefined],
+      ["an empty identity", {}],
+    ])("refuses to search with %s", async (_label, identity) => {
+      const directory = createTestRunner(server, {
+        ownership: { getIdentity: () => identity },
+      }).createThreadDirectory();
+
+      await expect(directory.search()).rejects.toBeInstanceOf(
+        ThreadAccessDeniedError
+      );
+      expect(server.calls("POST", "/threads/search")).toHaveLength(0);
+    });
+  });
+
+  it("leaves out threads refused by authorizeThread", async () => {
+    server.on("POST", "/threads/search", {
+      body: [thread("t1"), thread("t2")],
+    });
+    const contexts: ThreadAccessContext[] = [];
+    const directory = createTestRunner(server, {
+      hooks: {
+        authorizeThread: (threadId, _request, context) => {
+          contexts.push(context);
+          return threadId !== "t1";
+        },
+      },
+    }).createThreadDirectory();
+
+    const page = await directory.search();
+
+    expect(page.threads.map((summary) => summary.threadId)).toEqual(["t2"]);
+    expect(contexts).toEqual([
+      { source: "list", threadId: "t1" },
+      { source: "list", threadId: "t2" },
+    ]);
+  });
+});
@@ -0,0 +1,394 @@
+/**
+ * ThreadDirectory
+ *
+ * Lists the threads of a HistoryHydratingAgentRunner's deployment with
+ * message previews, for building a "conversations" sidebar, with the
+ * runner's ownership rules.
+ */
+
+import type { Client, Thread } from "@langchain/langgraph-sdk";
+
+import { getThreadLabels, type ThreadLabels } from "./thread-metadata";
+import type { Logger } from "../logging/logger";
+import { THREAD_METADATA_KEYS } from "../runner/constants";
+import type {
+  LangGraphMessage,
+  MessageRedactionOptions,
+} from "../runner/types";
+import {
+  transformMessages,
+  type TransformedMessage,
+} from "../utils/message-transformer";
+import type { RequestOptions } from "../utils/retry";
+
+/**
+ * Default number of threads per page.
+ */
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Default maximum length of preview texts, in characters.
+ */
+const DEFAULT_PREVIEW_LENGTH = 120;
+
+/**
+ * Status of a LangGraph thread.
+ */
+export type ThreadStatus = Thread["status"];
+
+/**
+ * Runner services a ThreadDirectory uses. Provided by
+ * HistoryHydratingAgentRunner.createThreadDirectory().
+ */
+export interface ThreadDirectoryBackend {
+  /**
+   * Creates a fresh client for the runner's deployment.
+   */
+  createClient(): Promise<Client>;
+
+  /**
+   * Returns the caller's identity when an ownership policy is configured,
+   * to restrict the search to the caller's threads. Throws
+   * ThreadAccessDeniedError when there is no identity.
+   */
+  identify(): Promise<Record<string, string> | undefined>;
+
+  /**
+   * Applies the runner's `authorizeThread` hook to a listed thread.
+   */
+  authorize(threadId: string): Promise<boolean>;
+
+  /**
+   * Calls the LangGraph API with the runner's retry policy.
+   */
+  request<T>(
+    operation: string,
+    fn: () => Promise<T>,
+    options?: RequestOptions
+  ): Promise<T>;
+
+  logger: Logger;
+}
+
+/**
+ * Options for HistoryHydratingAgentRunner.createThreadDirectory().
+ */
+export interface ThreadDirectoryOptions {
+  /**
+   * Only list threads of this graph (matched on `graph_id` metadata).
+   * Default: the runner's `graphId`
+   */
+  graphId?: string;
+
+  /**
+   * Maximum length of preview texts, in characters.
+   * Default: 120
+   */
+  previewLength?: number;
+
+  /**
+   * Redaction applied to previews. System messages are never used for
+   * previews, but are counted unless `dropSystemMessages` is set.
+   * Default: the runner's `redaction`
+   */
+  redaction?: Pick<MessageRedactionOptions, "redact" | "dropSystemMessages">;
+
+  /**
+   * Enable debug logging.
+   * Default: the runner's `debug`
+   */
+  debug?: boolean;
+}
+
+/**
+ * Filters, order and page of a thread search.
+ */
+export interface ThreadSearchOptions {
+  /**
+   * Metadata the threads must have, e.g. `{ user_id: "u_1" }`.
+   */
+  metadata?: Record<string, unknown>;
+
+  /**
+   * Only threads of this graph. Overrides the directory's `graphId`.
+   */
+  graphId?: string;
+
+  /**
+   * Only threads with this status.
+   */
+  status?: ThreadStatus;
+
+  /**
+   * Whether to list threads archived with ThreadManager: leave them out,
+   * include them, or list only them.
+   * Default: "exclude"
+   */
+  archived?: "exclude" | "include" | "only";
+
+  /**
+   * Field to sort by.
+   * Default: "updated_at"
+   */
+  sortBy?: "updated_at" | "created_at";
+
+  /**
+   * Default: "desc" (most recent first)
+   */
+  sortOrder?: "asc" | "desc";
+
+  /**
+   * Maximum number of threads per page.
+   * Default: 20
+   */
+  limit?: number;
+
+  /**
+   * Cursor from a previous page.
+   */
+  cursor?: string;
+}
+
+/**
+ * Preview of a thread's conversation.
+ */
+export interface ThreadPreview {
+  /**
+   * Start of the first user message, e.g. for use as a title.
+   */
+  firstUserMessage?: string;
+
+  /**
+   * Start of the last user or assistant message with text.
+   */
+  lastMessage?: string;
+
+  /**
+   * Role of the message `lastMessage` was taken from.
+   */
+  lastMessageRole?: TransformedMessage["role"];
+
+  /**
+   * Number of messages in the thread.
+   */
+  messageCount: number;
+
+  /**
+   * Whether the thread is waiting for an interrupt to be resumed.
+   */
+  hasPendingInterrupt: boolean;
+}
+
+/**
+ * A thread returned by ThreadDirectory.search(), with the title, tags and
+ * archived flag set by ThreadManager.
+ */
+export interface ThreadSummary extends ThreadLabels {
+  threadId: string;
+  createdAt: string;
+  updatedAt: string;
+  status: ThreadStatus;
+  metadata: Record<string, unknown>;
+  preview: ThreadPreview;
+}
+
+/**
+ * A page of threads returned by ThreadDirectory.search().
+ */
+export interface ThreadSearchPage {
+  threads: ThreadSummary[];
+  /**
+   * Cursor for the next page, or null on the last page.
+   */
+  cursor: string | null;
+  hasMore: boolean;
+}
+
+/**
+ * Searches a runner's threads and summarizes their conversations.
+ *
+ * Previews are computed from the state returned with each thread, so a page
+ * costs a single search call. Searches use the runner's deployment (via
+ * `resolveTarget` when set) with a fresh client per call, and its retry
+ * policy. With an `ownership` policy, only the caller's threads are
+ * searched; the `authorizeThread` hook is applied to every listed thread.
+ *
+ * @example
+ * ```typescript
+ * const directory = runner.createThreadDirectory();
+ *
+ * const page = await directory.search({ limit: 20 });
+ * ```
+ */
+export class ThreadDirectory {
+  private readonly backend: ThreadDirectoryBackend;
+  private readonly graphId?: string;
+  private readonly previewLength: number;
+  private readonly debug: boolean;
+  private readonly redaction: ThreadDirectoryOptions["redaction"];
+
+  constructor(
+    backend: ThreadDirectoryBackend,
+    options: ThreadDirectoryOptions = {}
+  ) {
+    this.backend = backend;
+    this.graphId = options.graphId;
+    this.previewLength = options.previewLength ?? DEFAULT_PREVIEW_LENGTH;
+    this.debug = options.debug ?? false;
+    this.redaction = options.redaction;
+  }
+
+  /**
+   * Returns one page of threads matching the options, with previews.
+   * Throws ThreadAccessDeniedError when the ownership policy has no
+   * identity for the caller, typed errors (see LangGraphRequestError) when
+   * the search fails, and an Error for a malformed cursor.
+   */
+  async search(options: ThreadSearchOptions = {}): Promise<ThreadSearchPage> {
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+    const offset = options.cursor ? decodeThreadCursor(options.cursor) : 0;
+    const graphId = options.graphId ?? this.graphId;
+    const archived = options.archived ?? "exclude";
+    const identity = await this.backend.identify();
+    // The identity overrides caller-supplied filters on the same keys
+    const metadata = {
+      ...options.metadata,
+      ...(graphId ? { graph_id: graphId } : {}),
+      ...(archived === "only" ? { [THREAD_METADATA_KEYS.archived]: true } : {}),
+      ...identity,
+    };
+
+    const client = await this.backend.createClient();
+    // One extra thread tells whether another page exists
+    const threads = await this.backend.request("searchThreads", () =>
+      client.threads.search<{ messages?: LangGraphMessage[] }>({
+        metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+        status: options.status,
+        sortBy: options.sortBy ?? "updated_at",
+        sortOrder: options.sortOrder ?? "desc",
+        limit: limit + 1,
+        offset,
+      })
+    );
+
+    const hasMore = threads.length > limit;
+    const page = threads.slice(0, limit);
+    // Threads without the archived flag can't be matched by a metadata
+    // filter, so archived threads are left out here. Pages may then hold
+    // fewer than `limit` threads; the cursor still skips the whole page.
+    const listed = page.filter(
+      (thread) =>
+        archived !== "exclude" || !getThreadLabels(thread.metadata).archived
+    );
+    const allowed = await Promise.all(
+      listed.map((thread) => this.backend.authorize(thread.thread_id))
+    );
+    const summaries = listed
+      .filter((_, index) => allowed[index])
+      .map((thread) => this.summarize(thread));
+    this.backend.logger.debug(
+      {
+        threadCount: summaries.length,
+        skippedCount: page.length - summaries.length,
+        offset,
+        hasMore,
+      },
+      "Searched threads"
+    );
+
+    return {
+      threads: summaries,
+      cursor: hasMore ? encodeThreadCursor(offset + page.length) : null,
+      hasMore,
+    };
+  }
+
+  /**
+   * Builds the summary of a thread returned by the search.
+   */
+  private summarize(
+    thread: Thread<{ messages?: LangGraphMessage[] }>
+  ): ThreadSummary {
+    const messages = transformMessages(thread.values?.messages ?? [], {
+      debug: this.debug,
+      logger: this.backend.logger,
+      redact: this.redaction?.redact,
+      dropSystemMessages: this.redaction?.dropSystemMessages,
+    });
+
+    const firstUserMessage = messages.find(
+      (message) => message.role === "user" && message.content
+    );
+    const lastMessage = [...messages]
+      .reverse()
+      .find(
+        (message) =>
+          (message.role === "user" || message.role === "assistant") &&
+          message.content
+      );
+    const interrupts = Object.values(thread.interrupts ?? {});
+    const metadata = (thread.metadata ?? {}) as Record<string, unknown>;
+
+    return {
+      threadId: thread.thread_id,
+      createdAt: thread.created_at,
+      updatedAt: thread.updated_at,
+      status: thread.status,
+      metadata,
+      ...getThreadLabels(metadata),
+      preview: {
+        firstUserMessage: firstUserMessage
+          ? this.snippet(firstUserMessage.content)
+          : undefined,
+        lastMessage: lastMessage
+          ? this.snippet(lastMessage.content)
+          : undefined,
+        lastMessageRole: lastMessage?.role,
+        messageCount: messages.length,
+        hasPendingInterrupt:
+          thread.status === "interrupted" ||
+          interrupts.some((list) => list.length > 0),
+      },
+    };
+  }
+
+  /**
+   * Collapses whitespace and shortens text to the preview length.
+   */
+  private snippet(text: string): string {
+    const collapsed = text.replace(/\s+/g, " ").trim();
+    return collapsed.length > this.previewLength
+      ? collapsed.slice(0, Math.max(0, this.previewLength - 1)).trimEnd() + "…"
+      : collapsed;
+  }
+}
+
+/**
+ * Encodes a search offset as an opaque, URL-safe cursor.
+ */
+function encodeThreadCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset }), "utf8").toString("base64url");
+}
+
+/**
+ * Decodes a cursor produced by encodeThreadCursor().
+ * Throws if the cursor is malformed.
+ */
+function decodeThreadCursor(cursor: string): number {
+  try {
+    const decoded = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    ) as { offset?: unknown };
+
+    if (
+      typeof decoded.offset !== "number" ||
+      !Number.isInteger(decoded.offset) ||
+      decoded.offset < 0
+    ) {
+      throw new Error("missing offset");
+    }
+    return decoded.offset;
+  } catch (error) {
+    throw new Error(`Invalid thread cursor: ${(error as Error).message}`);
+  }
+}
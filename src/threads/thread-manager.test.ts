@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { InMemoryHydrationCache } from "../cache/hydration-cache";
+import { ThreadAccessDeniedError } from "../errors/thread-access-errors";
+import { THREAD_METADATA_KEYS } from "../runner/constants";
+import { checkpoint } from "../testing/checkpoints";
+import {
+  collectEvents,
+  createTestRunner,
+  FakeLangGraphServer,
+} from "../testing/fake-langgraph";
+
+let server: FakeLangGraphServer;
+
+beforeEach(async () => {
+  server = await FakeLangGraphServer.start();
+});
+
+afterEach(async () => {
+  await server.close();
+});
+
+/**
+ * Serves a thread whose metadata updates are merged like LangGraph does.
+ */
+function storedThread(
+  threadId: string,
+  metadata: Record<string, unknown> = {}
+): Record<string, unknown> {
+  const stored = { ...metadata };
+  const thread = () => ({
+    body: { thread_id: threadId, status: "idle", metadata: { ...stored } },
+  });
+  server
+    .on("GET", `/threads/${threadId}`, thread)
+    .on("PATCH", `/threads/${threadId}`, (request) => {
+      const { metadata: patch } = request.body as {
+        metadata: Record<string, unknown>;
+      };
+      Object.assign(stored, patch);
+      return thread();
+    });
+  return stored;
+}
+
+describe("ThreadManager", () => {
+  it("renames threads, removing the title when empty", async () => {
+    const stored = storedThread("t1");
+    const threads = createTestRunner(server).createThreadManager();
+
+    const renamed = await threads.rename("t1", "  Trip to Lisbon ");
+    expect(renamed).toMatchObject({ threadId: "t1", title: "Trip to Lisbon" });
+
+    const untitled = await threads.rename("t1", " ");
+    expect(untitled.title).toBeUndefined();
+    expect(stored[THREAD_METADATA_KEYS.title]).toBeNull();
+  });
+
+  it("adds and removes unique, trimmed tags", async () => {
+    storedThread("t1", { [THREAD_METADATA_KEYS.tags]: ["work"] });
+    const threads = createTestRunner(server).createThreadManager();
+
+    const tagged = await threads.addTags("t1", [" travel", "work", ""]);
+    expect(tagged.tags).toEqual(["work", "travel"]);
+
+    const untagged = await threads.removeTags("t1", ["work "]);
+    expect(untagged.tags).toEqual(["travel"]);
+  });
+
+  it("archives and restores threads", async () => {
+    const stored = storedThread("t1");
+    const threads = createTestRunner(server).createThreadManager();
+
+    const archived = await threads.archive("t1");
+    expect(archived.archived).toBe(true);
+    expect(stored[THREAD_METADATA_KEYS.archivedAt]).toEqual(expect.any(String));
+
+    const restored = await threads.unarchive("t1");
+    expect(restored.archived).toBe(false);
+    expect(stored[THREAD_METADATA_KEYS.archivedAt]).toBeNull();
+  });
+
+  it("deletes threads once and forgets their cached hydration", async () => {
+    server
+      .thread("t1", { checkpoints: [checkpoint("c1", undefined, ["m1"])] })
+      .on("DELETE", "/threads/t1", { status: 503, body: {} });
+    const cache = new InMemoryHydrationCache();
+    const runner = createTestRunner(server, { cache });
+    await collectEvents(runner.connect({ threadId: "t1" }));
+    const threads = runner.createThreadManager();
+
+    // Deletes are not retried
+    await expect(threads.delete("t1")).rejects.toThrow();
+    expect(server.calls("DELETE", "/threads/t1")).toHaveLength(1);
+    expect(cache.get("t1", "c1")).toBeDefined();
+
+    server.on("DELETE", "/threads/t1", { status: 204 });
+    await threads.delete("t1");
+    expect(cache.get("t1", "c1")).toBeUndefined();
+  });
+
+  it("copies threads for the caller with a new title", async () => {
+    storedThread("t1", { user_id: "u_1" });
+    storedThread("t2", {
+      user_id: "u_1",
+      [THREAD_METADATA_KEYS.title]: "Trip",
+      [THREAD_METADATA_KEYS.archived]: true,
+    });
+    server.on("POST", "/threads/t1/copy", {
+      body: {
+        thread_id: "t2",
+        metadata: { user_id: "u_1", [THREAD_METADATA_KEYS.title]: "Trip" },
+      },
+    });
+    const threads = createTestRunner(server, {
+      ownership: { getIdentity: () => ({ user_id: "u_1" }) },
+    }).createThreadManager();
+
+    const copy = await threads.copy("t1", { title: "Trip (copy)" });
+
+    expect(copy).toMatchObject({
+      threadId: "t2",
+      title: "Trip (copy)",
+      archived: false,
+    });
+    expect(server.calls("PATCH", "/threads/t2")[0]?.body).toEqual({
+      metadata: {
+        user_id: "u_1",
+        [THREAD_METADATA_KEYS.copiedFrom]: "t1",
+        [THREAD_METADATA_KEYS.title]: "Trip (copy)",
+        [THREAD_METADATA_KEYS.archived]: false,
+        [THREAD_METADATA_KEYS.archivedAt]: null,
+      },
+    });
+  });
+
+  it("refuses to manage another user's thread", async () => {
+    storedThread("t1", { user_id: "u_2" });
+    const operations: unknown[] = [];
+    const threads = createTestRunner(server, {
+      ownership: { getIdentity: () => ({ user_id: "u_1" }) },
+      hooks: {
+        authorizeThread: (_threadId, _request, context) => {
+          operations.push(context.operation);
+        },
+      },
+    }).createThreadManager();
+
+    await expect(threads.rename("t1", "Mine")).rejects.toBeInstanceOf(
+      ThreadAccessDeniedError
+    );
+    await expect(threads.delete("t1")).rejects.toBeInstanceOf(
+      ThreadAccessDeniedError
+    );
+    expect(server.calls("PATCH", "/threads/t1")).toHaveLength(0);
+    expect(server.calls("DELETE", "/threads/t1")).toHaveLength(0);
+    // The ownership policy refused before the hook was asked
+    expect(operations).toEqual([]);
+  });
+
+  it("passes the operation to authorizeThread", async () => {
+    storedThread("t1");
+    const operations: unknown[] = [];
+    const threads = createTestRunner(server, {
+      hooks: {
+        authorizeThread: (_threadId, _request, context) => {
+          operations.push(context.operation);
+          return context.operation !== "archive";
+        },
+      },
+    }).createThreadManager();
+
+    await threads.addTags("t1", ["travel"]);
+    await expect(threads.archive("t1")).rejects.toBeInstanceOf(
+      ThreadAccessDeniedError
+    );
+
+    expect(operations).toEqual(["tag", "archive"]);
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * ThreadManager
+ *
+ * Renames, tags, archives, deletes and copies threads on the deployment of a
+ * HistoryHydratingAgentRunner, with the runner's ownership rules.
+ */
+
+import type { Client, Thread } from "@langchain/langgraph-sdk";
+
+import { getThreadLabels, type ThreadLabels } from "./thread-metadata";
+import type { Logger } from "../logging/logger";
+import { THREAD_METADATA_KEYS } from "../runner/constants";
+import type { ThreadOperation } from "../runner/types";
+import type { RequestOptions } from "../utils/retry";
+
+/**
+ * A thread after a ThreadManager operation.
+ */
+export interface ManagedThread extends ThreadLabels {
+  threadId: string;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Runner services a ThreadManager uses. Provided by
+ * HistoryHydratingAgentRunner.createThreadManager().
+ */
+export interface ThreadManagerBackend {
+  /**
+   * Creates a fresh client for the thread's deployment.
+   */
+  createClient(threadId: string): Promise<Client>;
+
+  /**
+   * Applies the runner's ownership rules. Throws ThreadAccessDeniedError
+   * when access is refused.
+   *
+   * @returns The caller's identity, when an ownership policy is configured
+   */
+  authorize(
+    threadId: string,
+    operation: ThreadOperation
+  ): Promise<Record<string, string> | undefined>;
+
+  /**
+   * Calls the LangGraph API with the runner's retry policy. Calls that are
+   * not idempotent are attempted once.
+   */
+  request<T>(
+    operation: string,
+    threadId: string,
+    fn: () => Promise<T>,
+    options?: RequestOptions
+  ): Promise<T>;
+
+  /**
+   * Drops cached state of a deleted thread.
+   */
+  invalidate(threadId: string): void;
+
+  logger: Logger;
+}
+
+/**
+ * Manages threads through their LangGraph metadata.
+ *
+ * Titles, tags and the archived flag are stored under THREAD_METADATA_KEYS,
+ * so ThreadDirectory can show and filter them. Every operation checks the
+ * runner's `ownership` policy and `authorizeThread` hook first, and throws
+ * ThreadAccessDeniedError when access is refused. LangGraph failures are
+ * thrown as typed errors (see LangGraphRequestError).
+ *
+ * @example
+ * ```typescript
+ * const threads = runner.createThreadManager();
+ *
+ * await threads.rename(threadId, "Trip to Lisbon");
+ * await threads.addTags(threadId, ["travel"]);
+ * const copy = await threads.copy(threadId);
+ * ```
+ */
+export class ThreadManager {
+  private readonly backend: ThreadManagerBackend;
+
+  constructor(backend: ThreadManagerBackend) {
+    this.backend = backend;
+  }
+
+  /**
+   * Sets the thread's title. An empty title or null removes it.
+   */
+  async rename(threadId: string, title: string | null): Promise<ManagedThread> {
+    const trimmed = title?.trim();
+    return this.updateMetadata(threadId, "rename", () => ({
+      [THREAD_METADATA_KEYS.title]: trimmed ? trimmed : null,
+    }));
+  }
+
+  /**
+   * Adds tags to the thread. Tags are trimmed and kept unique.
+   */
+  async addTags(threadId: string, tags: string[]): Promise<ManagedThread> {
+    return this.updateMetadata(threadId, "tag", (labels) => ({
+      [THREAD_METADATA_KEYS.tags]: normalizeTags([...labels.tags, ...tags]),
+    }));
+  }
+
+  /**
+   * Removes tags from the thread.
+   */
+  async removeTags(threadId: string, tags: string[]): Promise<ManagedThread> {
+    const removed = new Set(normalizeTags(tags));
+    return this.updateMetadata(threadId, "tag", (labels) => ({
+      [THREAD_METADATA_KEYS.tags]: labels.tags.filter(
+        (tag) => !removed.has(tag)
+      ),
+    }));
+  }
+
+  /**
+   * Archives the thread: ThreadDirectory leaves it out of searches unless
+   * asked for archived threads, and its history is kept.
+   */
+  async archive(threadId: string): Promise<ManagedThread> {
+    return this.updateMetadata(threadId, "archive", () => ({
+      [THREAD_METADATA_KEYS.archived]: true,
+      [THREAD_METADATA_KEYS.archivedAt]: new Date().toISOString(),
+    }));
+  }
+
+  /**
+   * Restores an archived thread.
+   */
+  async unarchive(threadId: string): Promise<ManagedThread> {
+    return this.updateMetadata(threadId, "archive", () => ({
+      [THREAD_METADATA_KEYS.archived]: false,
+      [THREAD_METADATA_KEYS.archivedAt]: null,
+    }));
+  }
+
+  /**
+   * Deletes the thread and its history permanently.
+   */
+  async delete(threadId: string): Promise<void> {
+    await this.backend.authorize(threadId, "delete");
+    const client = await this.backend.createClient(threadId);
+
+    await this.backend.request(
+      "deleteThread",
+      threadId,
+      () => client.threads.delete(threadId),
+      { idempotent: false }
+    );
+    this.backend.invalidate(threadId);
+    this.backend.logger.info({ threadId }, "Deleted thread");
+  }
+
+  /**
+   * Copies the thread, with its history, into a new thread.
+   *
+   * The copy belongs to the caller (with an ownership policy), records the
+   * source under `copied_from` and is never archived.
+   *
+   * @param options.title - Title of the copy. Default: the source's title
+   */
+  async copy(
+    threadId: string,
+    options: { title?: string } = {}
+  ): Promise<ManagedThread> {
+    const identity = await this.backend.authorize(threadId, "copy");
+    const client = await this.backend.createClient(threadId);
+
+    const copied = await this.backend.request(
+      "copyThread",
+      threadId,
+      () => client.threads.copy(threadId),
+      { idempotent: false }
+    );
+    const source = getThreadLabels(copied.metadata);
+    const title = options.title?.trim() || source.title;
+
+    const updated = await this.backend.request(
+      "updateThread",
+      copied.thread_id,
+      () =>
+        client.threads.update(copied.thread_id, {
+          metadata: {
+            ...identity,
+            [THREAD_METADATA_KEYS.copiedFrom]: threadId,
+            [THREAD_METADATA_KEYS.title]: title ?? null,
+            [THREAD_METADATA_KEYS.archived]: false,
+            [THREAD_METADATA_KEYS.archivedAt]: null,
+          },
+        })
+    );
+
+    this.backend.logger.info(
+      { threadId, copyThreadId: copied.thread_id },
+      "Copied thread"
+    );
+    return toManagedThread(updated);
+  }
+
+  /**
+   * Authorizes an operation and merges the metadata returned by `patch`
+   * into the thread's metadata.
+   */
+  private async updateMetadata(
+    threadId: string,
+    operation: ThreadOperation,
+    patch: (labels: ThreadLabels) => Record<string, unknown>
+  ): Promise<ManagedThread> {
+    await this.backend.authorize(threadId, operation);
+    const client = await this.backend.createClient(threadId);
+
+    const thread = await this.backend.request("getThread", threadId, () =>
+      client.threads.get(threadId)
+    );
+    const metadata = patch(getThreadLabels(thread.metadata));
+
+    // LangGraph merges the given keys into the existing metadata
+    const updated = await this.backend.request("updateThread", threadId, () =>
+      client.threads.update(threadId, { metadata })
+    );
+
+    this.backend.logger.debug(
+      { threadId, operation, keys: Object.keys(metadata) },
+      "Updated thread metadata"
+    );
+    return toManagedThread(updated);
+  }
+}
+
+/**
+ * Trims tags, dropping empty and duplicate ones.
+ */
+function normalizeTags(tags: string[]): string[] {
+  return [
+    ...new Set(tags.map((tag) => tag.trim()).filter((tag) => tag.length > 0)),
+  ];
+}
+
+/**
+ * Converts a LangGraph thread to a ManagedThread.
+ */
+function toManagedThread(thread: Thread): ManagedThread {
+  const metadata = (thread.metadata ?? {}) as Record<string, unknown>;
+  return {
+    threadId: thread.thread_id,
+    metadata,
+    ...getThreadLabels(metadata),
+  };
+}
@@ -0,0 +1,29 @@
+import { THREAD_METADATA_KEYS } from "../runner/constants";
+
+/**
+ * Title, tags and archived flag of a thread, as stored in its metadata.
+ */
+export interface ThreadLabels {
+  title?: string;
+  tags: string[];
+  archived: boolean;
+}
+
+/**
+ * Reads the labels written by ThreadManager from thread metadata.
+ * Values of the wrong type are ignored.
+ */
+export function getThreadLabels(
+  metadata: Record<string, unknown> | null | undefined
+): ThreadLabels {
+  const title = metadata?.[THREAD_METADATA_KEYS.title];
+  const tags = metadata?.[THREAD_METADATA_KEYS.tags];
+
+  return {
+    title: typeof title === "string" && title ? title : undefined,
+    tags: Array.isArray(tags)
+      ? tags.filter((tag): tag is string => typeof tag === "string")
+      : [],
+    archived: metadata?.[THREAD_METADATA_KEYS.archived] === true,
+  };
+}
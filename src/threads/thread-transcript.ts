@@ -0,0 +1,202 @@
+/**
+ * Thread transcripts
+ *
+ * Versioned export format of a thread's conversation, produced by
+ * HistoryHydratingAgentRunner.exportThread().
+ */
+
+import { TRANSCRIPT_FORMAT_VERSION } from "../runner/constants";
+import type { ThreadState } from "../runner/types";
+import type { PendingInterrupt } from "../utils/interrupts";
+import type { TransformedMessage } from "../utils/message-transformer";
+
+/**
+ * Result of a tool call, taken from the tool message answering it.
+ */
+export interface TranscriptToolResult {
+  /**
+   * ID of the tool message.
+   */
+  messageId: string;
+  content: string;
+  timestamp?: string;
+}
+
+/**
+ * A tool call requested by an assistant message, with its result.
+ */
+export interface TranscriptToolCall {
+  id: string;
+  name: string;
+
+  /**
+   * Parsed JSON arguments, or the raw argument string when it is not
+   * valid JSON.
+   */
+  arguments: unknown;
+
+  /**
+   * Result paired by `tool_call_id`. Missing while the tool has not
+   * answered, e.g. when the run was interrupted.
+   */
+  result?: TranscriptToolResult;
+}
+
+/**
+ * A message of a transcript.
+ *
+ * Tool messages are folded into the tool call they answer; only tool
+ * messages without a matching call remain as messages, with `toolCallId`.
+ */
+export interface TranscriptMessage {
+  id: string;
+  role: TransformedMessage["role"];
+  content: string;
+
+  /**
+   * Creation time of the first checkpoint containing the message (ISO 8601).
+   */
+  timestamp?: string;
+
+  toolCalls?: TranscriptToolCall[];
+  toolCallId?: string;
+}
+
+/**
+ * A thread's conversation, as exported by exportThread().
+ */
+export interface ThreadTranscript {
+  /**
+   * Format version (TRANSCRIPT_FORMAT_VERSION).
+   */
+  version: typeof TRANSCRIPT_FORMAT_VERSION;
+
+  threadId: string;
+
+  /**
+   * Time of the export (ISO 8601).
+   */
+  exportedAt: string;
+
+  /**
+   * Checkpoint the transcript ends at.
+   */
+  checkpointId?: string;
+
+  messages: TranscriptMessage[];
+
+  /**
+   * Interrupts pending at the end of the transcript.
+   */
+  interrupts: PendingInterrupt[];
+
+  /**
+   * Final state values, without `messages`.
+   */
+  state: Record<string, unknown>;
+}
+
+/**
+ * Builds a transcript from messages in CopilotKit format, pairing tool
+ * calls with their results by `tool_call_id`.
+ *
+ * @param options.timestamps - Message timestamps by message ID
+ * @param options.exportedAt - Export time. Default: now
+ */
+export function createThreadTranscript(
+  messages: TransformedMessage[],
+  options: {
+    threadId: string;
+    checkpointId?: string;
+    timestamps?: ReadonlyMap<string, string>;
+    interrupts?: PendingInterrupt[];
+    state?: Record<string, unknown>;
+    exportedAt?: string;
+  }
+): ThreadTranscript {
+  const { timestamps } = options;
+
+  // Tool messages answering a call, by the call's ID
+  const callIds = new Set(
+    messages.flatMap((message) =>
+      (message.toolCalls ?? []).map((toolCall) => toolCall.id)
+    )
+  );
+  const results = new Map<string, TranscriptToolResult>();
+  for (const message of messages) {
+    if (
+      message.role === "tool" &&
+      message.toolCallId &&
+      callIds.has(message.toolCallId) &&
+      !results.has(message.toolCallId)
+    ) {
+      results.set(message.toolCallId, {
+        messageId: message.id,
+        content: message.content,
+        timestamp: timestamps?.get(message.id),
+      });
+    }
+  }
+  const pairedMessageIds = new Set(
+    [...results.values()].map((result) => result.messageId)
+  );
+
+  return {
+    version: TRANSCRIPT_FORMAT_VERSION,
+    threadId: options.threadId,
+    exportedAt: options.exportedAt ?? new Date().toISOString(),
+    checkpointId: options.checkpointId,
+    messages: messages
+      .filter((message) => !pairedMessageIds.has(message.id))
+      .map((message) => ({
+        id: message.id,
+        role: message.role,
+        content: message.content,
+        timestamp: timestamps?.get(message.id),
+        toolCalls: message.toolCalls?.map((toolCall) => ({
+          id: toolCall.id,
+          name: toolCall.function.name,
+          arguments: parseArguments(toolCall.function.arguments),
+          result: results.get(toolCall.id),
+        })),
+        toolCallId: message.role === "tool" ? message.toolCallId : undefined,
+      })),
+    interrupts: options.interrupts ?? [],
+    state: options.state ?? {},
+  };
+}
+
+/**
+ * Finds when each message was added: the creation time of the oldest
+ * checkpoint containing it.
+ *
+ * @param checkpoints - Checkpoints, newest-first
+ */
+export function getMessageTimestamps(
+  checkpoints: ThreadState[]
+): Map<string, string> {
+  const timestamps = new Map<string, string>();
+
+  // Walk newest to oldest so older checkpoints overwrite newer ones
+  for (const checkpoint of checkpoints) {
+    if (!checkpoint.created_at) {
+      continue;
+    }
+    for (const message of checkpoint.values?.messages ?? []) {
+      timestamps.set(message.id, checkpoint.created_at);
+    }
+  }
+
+  return timestamps;
+}
+
+/**
+ * Parses tool call arguments, keeping the raw string when it isn't JSON.
+ */
+function parseArguments(args: string): unknown {
+  try {
+    return JSON.parse(args);
+  } catch {
+    return args;
+  }
+}
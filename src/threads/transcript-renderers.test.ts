@@ -0,0 +1,202 @@
+import { describe, expect, it } from "vitest";
+
+import type { ThreadTranscript } from "./thread-transcript";
+import {
+  renderTranscriptHtml,
+  renderTranscriptMarkdown,
+} from "./transcript-renderers";
+
+function transcript(fields: Partial<ThreadTranscript> = {}): ThreadTranscript {
+  return {
+    version: 1,
+    threadId: "t1",
+    exportedAt: "2026-01-02T00:00:00.000Z",
+    messages: [],
+    interrupts: [],
+    state: {},
+    ...fields,
+  };
+}
+
+const conversation = transcript({
+  checkpointId: "c2",
+  messages: [
+    {
+      id: "m1",
+      role: "user",
+      content: "Weather in Lisbon?",
+      timestamp: "2026-01-01T10:00:00.000Z",
+    },
+    {
+      id: "a1",
+      role: "assistant",
+      content: "",
+      toolCalls: [
+        {
+          id: "call-1",
+          name: "weather",
+          arguments: { city: "Lisbon" },
+          result: { messageId: "r1", content: "Sunny" },
+        },
+        { id: "call-2", name: "forecast", arguments: "{bad json" },
+      ],
+    },
+    { id: "r9", role: "tool", content: "Late", toolCallId: "call-9" },
+  ],
+  interrupts: [
+    { id: "i1", value: { question: "Book?" }, taskId: "x", taskName: "book" },
+  ],
+  state: { city: "Lisbon" },
+});
+
+describe("renderTranscriptMarkdown", () => {
+  it("renders messages, tool calls, interrupts and state", () => {
+    expect(renderTranscriptMarkdown(conversation)).toBe(
+      [
+        "# Conversation t1",
+        "",
+        "- Exported: 2026-01-02T00:00:00.000Z",
+        "- Checkpoint: `c2`",
+        "- Format version: 1",
+        "",
+        "## User · 2026-01-01T10:00:00.000Z",
+        "",
+        "Weather in Lisbon?",
+        "",
+        "## Assistant",
+        "",
+        "**Tool call `weather`** (`call-1`)",
+        "",
+        "```json",
+        '{\n  "city": "Lisbon"\n}',
+        "```",
+        "",
+        "Result:",
+        "",
+        "```\nSunny\n```",
+        "",
+        "**Tool call `forecast`** (`call-2`)",
+        "",
+        "```json\n{bad json\n```",
+        "",
+        "_No result_",
+        "",
+        "## Tool",
+        "",
+        "Late",
+        "",
+        "_Result of unknown tool call `call-9`_",
+        "",
+        "## Pending interrupts",
+        "",
+        "- `book` (`i1`)",
+        "",
+        '```json\n{\n  "question": "Book?"\n}\n```',
+        "",
+        "## Final state",
+        "",
+        '```json\n{\n  "city": "Lisbon"\n}\n```',
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("escapes Markdown in message content", () => {
+    const markdown = renderTranscriptMarkdown(
+      transcript({
+        messages: [
+          {
+            id: "m1",
+            role: "user",
+            content: [
+              "# Not a heading",
+              "> not a quote",
+              "- not a list",
+              "1. not numbered",
+              "*not bold* `not code` [not](a link) <b>not html</b> a|b",
+            ].join("\n"),
+          },
+        ],
+      })
+    );
+
+    expect(markdown).toContain(
+      [
+        "\\# Not a heading",
+        "\\> not a quote",
+        "\\- not a list",
+        "1\\. not numbered",
+        "\\*not bold\\* \\`not code\\` \\[not\\](a link) \\<b>not html\\</b> a\\|b",
+      ].join("\n")
+    );
+  });
+
+  it("keeps code and headings from being closed or split", () => {
+    const markdown = renderTranscriptMarkdown(
+      transcript({
+        threadId: "t1\n# injected",
+        messages: [
+          {
+            id: "a1",
+            role: "assistant",
+            content: "",
+            toolCalls: [
+              {
+                id: "call-1",
+                name: "run`sh`",
+                arguments: "```",
+                result: { messageId: "r1", content: "````\ndone" },
+              },
+            ],
+          },
+        ],
+      })
+    );
+
+    expect(markdown).toContain("# Conversation t1 # injected\n");
+    expect(markdown).toContain("**Tool call `` run`sh` ``**");
+    expect(markdown).toContain("````json\n```\n````");
+    expect(markdown).toContain("`````\n````\ndone\n`````");
+  });
+});
+
+describe("renderTranscriptHtml", () => {
+  it("renders a standalone document", () => {
+    const html = renderTranscriptHtml(conversation);
+
+    expect(html.startsWith("<!DOCTYPE html>\n")).toBe(true);
+    expect(html).toContain("<title>Conversation t1</title>");
+    expect(html).toContain('<section class="message user">');
+    expect(html).toContain(
+      '<h3>User<time datetime="2026-01-01T10:00:00.000Z">2026-01-01T10:00:00.000Z</time></h3>'
+    );
+    expect(html).toContain("<h4>Result</h4><pre>Sunny</pre>");
+    expect(html).toContain('<p class="missing">No result</p>');
+    expect(html).toContain("<h2>Pending interrupts</h2>");
+    expect(html).toContain("<h2>Final state</h2>");
+  });
+
+  it("escapes every value", () => {
+    const html = renderTranscriptHtml(
+      transcript({
+        threadId: "<t1>",
+        messages: [
+          {
+            id: "m1",
+            role: "user",
+            content: `<script>alert("x")</script> & 'y'`,
+            timestamp: '"><img src=x>',
+          },
+        ],
+      })
+    );
+
+    expect(html).not.toContain("<script>");
+    expect(html).not.toContain("<img");
+    expect(html).toContain("<title>Conversation &lt;t1&gt;</title>");
+    expect(html).toContain(
+      "&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; &#39;y&#39;"
+    );
+    expect(html).toContain('datetime="&quot;&gt;&lt;img src=x&gt;"');
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Transcript renderers
+ *
+ * Human-readable Markdown and standalone HTML renderings of a
+ * ThreadTranscript.
+ */
+
+import type {
+  ThreadTranscript,
+  TranscriptMessage,
+  TranscriptToolCall,
+} from "./thread-transcript";
+
+/**
+ * Display names of message roles.
+ */
+const ROLE_LABELS: Record<TranscriptMessage["role"], string> = {
+  user: "User",
+  assistant: "Assistant",
+  system: "System",
+  tool: "Tool",
+};
+
+/**
+ * Styles embedded in HTML transcripts.
+ */
+const HTML_STYLES = `
+body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+header p { color: #59636e; margin: 0.25rem 0; }
+.message { border: 1px solid #d1d9e0; border-radius: 0.5rem; padding: 0.75rem 1rem; margin: 1rem 0; }
+.message.user { background: #f6f8fa; }
+.message.system, .message.tool { background: #fff8c5; }
+.message h3 { font-size: 0.9rem; margin: 0 0 0.5rem; }
+.message time { color: #59636e; font-weight: normal; margin-left: 0.5rem; }
+.content { white-space: pre-wrap; margin: 0; }
+.tool-call { border-left: 3px solid #0969da; padding-left: 0.75rem; margin: 0.75rem 0; }
+.tool-call h4 { font-size: 0.85rem; margin: 0 0 0.25rem; }
+.missing { color: #59636e; font-style: italic; }
+pre { background: #f6f8fa; padding: 0.5rem; border-radius: 0.25rem; overflow-x: auto; white-space: pre-wrap; }
+`.trim();
+
+/**
+ * Renders a transcript as Markdown. Tool calls appear under the message
+ * that made them, each followed by its result. Message content and names
+ * are escaped, so they render as written.
+ */
+export function renderTranscriptMarkdown(transcript: ThreadTranscript): string {
+  const lines: string[] = [
+    `# Conversation ${escapeMarkdownLine(transcript.threadId)}`,
+    "",
+    `- Exported: ${transcript.exportedAt}`,
+  ];
+  if (transcript.checkpointId) {
+    lines.push(`- Checkpoint: ${inlineCode(transcript.checkpointId)}`);
+  }
+  lines.push(`- Format version: ${transcript.version}`);
+
+  for (const message of transcript.messages) {
+    lines.push("", `## ${messageHeading(message)}`);
+    if (message.content) {
+      lines.push("", escapeMarkdown(message.content));
+    }
+    if (message.toolCallId) {
+      lines.push(
+        "",
+        `_Result of unknown tool call ${inlineCode(message.toolCallId)}_`
+      );
+    }
+
+    for (const toolCall of message.toolCalls ?? []) {
+      lines.push(
+        "",
+        `**Tool call ${inlineCode(toolCall.name)}** (${inlineCode(toolCall.id)})`,
+        "",
+        fence(formatArguments(toolCall), "json")
+      );
+      if (toolCall.result) {
+        lines.push("", "Result:", "", fence(toolCall.result.content));
+      } else {
+        lines.push("", "_No result_");
+      }
+    }
+  }
+
+  if (transcript.interrupts.length > 0) {
+    lines.push("", "## Pending interrupts");
+    for (const interrupt of transcript.interrupts) {
+      lines.push(
+        "",
+        `- ${inlineCode(interrupt.taskName)}${interrupt.id ? ` (${inlineCode(interrupt.id)})` : ""}`,
+        "",
+        fence(JSON.stringify(interrupt.value ?? null, null, 2), "json")
+      );
+    }
+  }
+
+  if (Object.keys(transcript.state).length > 0) {
+    lines.push(
+      "",
+      "## Final state",
+      "",
+      fence(JSON.stringify(transcript.state, null, 2), "json")
+    );
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Renders a transcript as a standalone HTML document, with styles inlined
+ * and every value escaped.
+ */
+export function renderTranscriptHtml(transcript: ThreadTranscript): string {
+  const title = `Conversation ${transcript.threadId}`;
+  const body: string[] = [
+    "<header>",
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<p>Exported <time datetime="${escapeHtml(transcript.exportedAt)}">${escapeHtml(transcript.exportedAt)}</time></p>`,
+  ];
+  if (transcript.checkpointId) {
+    body.push(
+      `<p>Checkpoint <code>${escapeHtml(transcript.checkpointId)}</code></p>`
+    );
+  }
+  body.push(
+    `<p>Format version ${transcript.version}</p>`,
+    "</header>",
+    "<main>"
+  );
+
+  for (const message of transcript.messages) {
+    body.push(
+      `<section class="message ${message.role}">`,
+      `<h3>${escapeHtml(ROLE_LABELS[message.role])}${
+        message.timestamp
+          ? `<time datetime="${escapeHtml(message.timestamp)}">${escapeHtml(message.timestamp)}</time>`
+          : ""
+      }</h3>`
+    );
+    if (message.content) {
+      body.push(`<p class="content">${escapeHtml(message.content)}</p>`);
+    }
+    if (message.toolCallId) {
+      body.push(
+        `<p class="missing">Result of unknown tool call <code>${escapeHtml(message.toolCallId)}</code></p>`
+      );
+    }
+
+    for (const toolCall of message.toolCalls ?? []) {
+      body.push(
+        `<div class="tool-call">`,
+        `<h4>Tool call <code>${escapeHtml(toolCall.name)}</code> <small>${escapeHtml(toolCall.id)}</small></h4>`,
+        `<pre>${escapeHtml(formatArguments(toolCall))}</pre>`,
+        toolCall.result
+          ? `<h4>Result</h4><pre>${escapeHtml(toolCall.result.content)}</pre>`
+          : `<p class="missing">No result</p>`,
+        "</div>"
+      );
+    }
+    body.push("</section>");
+  }
+  body.push("</main>");
+
+  if (transcript.interrupts.length > 0) {
+    body.push("<section>", "<h2>Pending interrupts</h2>");
+    for (const interrupt of transcript.interrupts) {
+      body.push(
+        `<h4><code>${escapeHtml(interrupt.taskName)}</code>${
+          interrupt.id ? ` <small>${escapeHtml(interrupt.id)}</small>` : ""
+        }</h4>`,
+        `<pre>${escapeHtml(JSON.stringify(interrupt.value ?? null, null, 2))}</pre>`
+      );
+    }
+    body.push("</section>");
+  }
+
+  if (Object.keys(transcript.state).length > 0) {
+    body.push(
+      "<section>",
+      "<h2>Final state</h2>",
+      `<pre>${escapeHtml(JSON.stringify(transcript.state, null, 2))}</pre>`,
+      "</section>"
+    );
+  }
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>\n${HTML_STYLES}\n</style>`,
+    "</head>",
+    "<body>",
+    ...body,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Heading of a message: its role and timestamp.
+ */
+function messageHeading(message: TranscriptMessage): string {
+  const label = ROLE_LABELS[message.role];
+  return message.timestamp
+    ? `${label} · ${escapeMarkdownLine(message.timestamp)}`
+    : label;
+}
+
+/**
+ * Pretty-prints tool call arguments; raw strings are kept as they are.
+ */
+function formatArguments(toolCall: TranscriptToolCall): string {
+  return typeof toolCall.arguments === "string"
+    ? toolCall.arguments
+    : JSON.stringify(toolCall.arguments, null, 2);
+}
+
+/**
+ * Wraps text in a Markdown code fence longer than any backtick run inside
+ * it, so the text can't close the fence.
+ */
+function fence(text: string, language = ""): string {
+  const marker = "`".repeat(Math.max(3, longestBacktickRun(text) + 1));
+  return `${marker}${language}\n${text}\n${marker}`;
+}
+
+/**
+ * Formats text as a Markdown code span that the text can't close. Line
+ * breaks become spaces, since a code span is inline.
+ */
+function inlineCode(text: string): string {
+  const inline = text.replace(/\r?\n/g, " ");
+  const marker = "`".repeat(longestBacktickRun(inline) + 1);
+  // A space keeps a leading or trailing backtick out of the delimiter
+  const padding = inline.startsWith("`") || inline.endsWith("`") ? " " : "";
+  return `${marker}${padding}${inline}${padding}${marker}`;
+}
+
+/**
+ * Length of the longest run of backticks in text.
+ */
+function longestBacktickRun(text: string): number {
+  return Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+}
+
+/**
+ * Escapes Markdown syntax, so text renders as written: emphasis, code,
+ * links, HTML and tables anywhere, and headings, quotes, lists and rules
+ * at the start of a line.
+ */
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\`*_[\]<&|~]/g, "\\$&")
+    .replace(/^(\s*)([#>+=-])/gm, "$1\\$2")
+    .replace(/^(\s*\d+)([.)])/gm, "$1\\$2");
+}
+
+/**
+ * Escapes text for a single line, such as a heading.
+ */
+function escapeMarkdownLine(text: string): string {
+  return escapeMarkdown(text.replace(/\s+/g, " "));
+}
+
+/**
+ * Escapes text for use in HTML content and attribute values.
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
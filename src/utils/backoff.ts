@@ -0,0 +1,37 @@
+/**
+ * Exponential backoff delay for a retry attempt (1-based), capped at
+ * `maxDelayMs`. With `jitter`, the delay is randomized between half and
+ * the full value so concurrent clients don't retry in lockstep.
+ */
+export function getBackoffDelay(
+  attempt: number,
+  options: { initialDelayMs: number; maxDelayMs: number; jitter?: boolean }
+): number {
+  const delay = Math.min(
+    options.initialDelayMs * 2 ** Math.max(attempt - 1, 0),
+    options.maxDelayMs
+  );
+  return options.jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+}
+
+/**
+ * Resolves after `ms` milliseconds, or rejects as soon as `signal` aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error("Aborted"));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("Aborted"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  excludeAbandonedForks,
+  findCheckpointBeforeMessage,
+  getCheckpointLineage,
+  getMessageBranches,
+} from "./checkpoint-tree";
+import type { ThreadState } from "../runner/types";
+import {
+  checkpointIds,
+  forkedHistory as history,
+} from "../testing/checkpoints";
+
+describe("getCheckpointLineage", () => {
+  it("follows parent links from the newest checkpoint", () => {
+    expect(checkpointIds(getCheckpointLineage(history))).toEqual([
+      "c4",
+      "c3",
+      "c1",
+      "c0",
+    ]);
+  });
+
+  it("follows parent links from a given checkpoint", () => {
+    expect(checkpointIds(getCheckpointLineage(history, "c2"))).toEqual([
+      "c2",
+      "c1",
+      "c0",
+    ]);
+    expect(getCheckpointLineage(history, "missing")).toEqual([]);
+  });
+
+  it("stops at the oldest fetched checkpoint", () => {
+    expect(checkpointIds(getCheckpointLineage(history.slice(0, 2)))).toEqual([
+      "c4",
+      "c3",
+    ]);
+  });
+});
+
+describe("findCheckpointBeforeMessage", () => {
+  it("returns the parent of the first checkpoint holding the message", () => {
+    expect(
+      checkpointIds([findCheckpointBeforeMessage(history, "a2")!])
+    ).toEqual(["c3"]);
+    expect(
+      checkpointIds([findCheckpointBeforeMessage(history, "m1")!])
+    ).toEqual(["c0"]);
+  });
+
+  it("ignores messages off the head's lineage", () => {
+    expect(findCheckpointBeforeMessage(history, "a1")).toBeUndefined();
+    expect(findCheckpointBeforeMessage(history, "missing")).toBeUndefined();
+  });
+});
+
+describe("excludeAbandonedForks", () => {
+  it("drops the branch abandoned by a recorded fork", () => {
+    expect(checkpointIds(excludeAbandonedForks(history))).toEqual([
+      "c4",
+      "c3",
+      "c1",
+      "c0",
+    ]);
+  });
+
+  it("keeps every branch without a recorded fork", () => {
+    const unrecorded = history.map(
+      (state) => ({ ...state, metadata: {} }) as ThreadState
+    );
+
+    expect(excludeAbandonedForks(unrecorded)).toEqual(unrecorded);
+  });
+});
+
+describe("getMessageBranches", () => {
+  it("describes forks on the active lineage", () => {
+    expect(getMessageBranches(history)).toEqual([
+      {
+        messageId: "a2",
+        branchCount: 2,
+        activeIndex: 1,
+        branches: [
+          { checkpointId: "c2", messageId: "a1" },
+          { checkpointId: "c4", messageId: "a2" },
+        ],
+      },
+    ]);
+  });
+
+  it("marks the branch of the given checkpoint as active", () => {
+    expect(getMessageBranches(history, "c2")).toEqual([
+      {
+        messageId: "a1",
+        branchCount: 2,
+        activeIndex: 0,
+        branches: [
+          { checkpointId: "c2", messageId: "a1" },
+          { checkpointId: "c4", messageId: "a2" },
+        ],
+      },
+    ]);
+  });
+
+  it("skips branches without messages yet", () => {
+    // The regenerated answer hasn't been written
+    expect(getMessageBranches(history.slice(1))).toEqual([]);
+  });
+});
@@ -0,0 +1,238 @@
+import { FORK_METADATA_KEY } from "../runner/constants";
+import type { ThreadState } from "../runner/types";
+import {
+  getCheckpointId,
+  getParentCheckpointId,
+} from "./history-pagination";
+
+/**
+ * Follows the `parent_checkpoint` chain from a starting checkpoint.
+ *
+ * @param history - Checkpoints as returned by getHistory() (newest-first)
+ * @param startCheckpointId - Checkpoint to start from. Default: the newest one
+ * @returns The chain of checkpoints found in `history` (newest-first)
+ */
+export function getCheckpointLineage(
+  history: ThreadState[],
+  startCheckpointId?: string
+): ThreadState[] {
+  const byId = new Map<string, ThreadState>();
+  for (const state of history) {
+    const id = getCheckpointId(state);
+    if (id) {
+      byId.set(id, state);
+    }
+  }
+
+  const lineage: ThreadState[] = [];
+  let current = startCheckpointId ? byId.get(startCheckpointId) : history[0];
+
+  while (current) {
+    lineage.push(current);
+    const parentId = getParentCheckpointId(current);
+    current = parentId ? byId.get(parentId) : undefined;
+  }
+
+  return lineage;
+}
+
+/**
+ * Finds the checkpoint that precedes a message on the head's lineage,
+ * i.e. the parent of the oldest checkpoint containing the message.
+ * Running the graph from it creates a new branch without that message.
+ *
+ * @param history - Checkpoints as returned by getHistory() (newest-first)
+ * @param messageId - Message to fork before
+ * @returns The checkpoint, or undefined if it is not within `history`
+ */
+export function findCheckpointBeforeMessage(
+  history: ThreadState[],
+  messageId: string
+): ThreadState | undefined {
+  const lineage = getCheckpointLineage(history);
+
+  // Walk from the oldest checkpoint to find where the message first appears
+  for (let i = lineage.length - 1; i >= 0; i--) {
+    const messages = lineage[i]?.values?.messages ?? [];
+    if (messages.some((msg) => msg.id === messageId)) {
+      return lineage[i + 1];
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Removes checkpoints on branches abandoned by a fork made through the
+ * runner, so merging messages does not mix the old branch with the new one.
+ *
+ * Fork runs record their fork point under FORK_METADATA_KEY in checkpoint
+ * metadata. A checkpoint is dropped when it descends from a recorded fork
+ * point but is not on the head's lineage. Other branches are kept.
+ *
+ * @param history - Checkpoints as returned by getHistory() (newest-first)
+ */
+export function excludeAbandonedForks(history: ThreadState[]): ThreadState[] {
+  const forkPoints = new Set<string>();
+  for (const state of history) {
+    const forkPoint = (state.metadata as Record<string, unknown> | null)?.[
+      FORK_METADATA_KEY
+    ];
+    if (typeof forkPoint === "string") {
+      forkPoints.add(forkPoint);
+    }
+  }
+
+  if (forkPoints.size === 0) {
+    return history;
+  }
+
+  const lineageIds = new Set(
+    getCheckpointLineage(history).map((state) => getCheckpointId(state))
+  );
+  const parents = new Map<string, string | undefined>();
+  for (const state of history) {
+    const id = getCheckpointId(state);
+    if (id) {
+      parents.set(id, getParentCheckpointId(state));
+    }
+  }
+
+  return history.filter((state) => {
+    const id = getCheckpointId(state);
+    if (!id || lineageIds.has(id)) {
+      return true;
+    }
+
+    // Off the head's lineage: drop it if it descends from a fork point
+    let ancestor = parents.get(id);
+    while (ancestor) {
+      if (forkPoints.has(ancestor)) {
+        return false;
+      }
+      ancestor = parents.get(ancestor);
+    }
+    return true;
+  });
+}
+
+/**
+ * A fork in the thread, described from the point of view of the message
+ * where the branches diverge.
+ */
+export interface MessageBranchPoint {
+  /**
+   * First message of the active branch after the fork. The branch switcher
+   * is rendered on this message.
+   */
+  messageId: string;
+
+  /**
+   * Number of branches at this fork.
+   */
+  branchCount: number;
+
+  /**
+   * Index of the active branch in `branches`.
+   */
+  activeIndex: number;
+
+  /**
+   * Branches in creation order (oldest first). `checkpointId` is the
+   * branch's newest checkpoint and can be passed as `branchCheckpointId`
+   * to connect() to hydrate that branch.
+   */
+  branches: Array<{ checkpointId: string; messageId: string }>;
+}
+
+/**
+ * Computes the checkpoint tree from `parent_checkpoint` links and describes
+ * every fork on the active lineage.
+ *
+ * Each fork is keyed by the first message that differs between its
+ * branches. Branches that have not produced a message yet are skipped.
+ *
+ * @param history - Checkpoints as returned by getHistory() (newest-first)
+ * @param activeCheckpointId - Newest checkpoint of the active branch.
+ *   Default: the newest checkpoint
+ * @returns Forks in chronological order
+ */
+export function getMessageBranches(
+  history: ThreadState[],
+  activeCheckpointId?: string
+): MessageBranchPoint[] {
+  // Children per checkpoint, newest-first like the history itself
+  const children = new Map<string, ThreadState[]>();
+  for (const state of history) {
+    const parentId = getParentCheckpointId(state);
+    if (parentId && getCheckpointId(state)) {
+      const siblings = children.get(parentId) ?? [];
+      siblings.push(state);
+      children.set(parentId, siblings);
+    }
+  }
+
+  const lineage = getCheckpointLineage(history, activeCheckpointId);
+  const activeLeaf = lineage[0];
+  const branchPoints: MessageBranchPoint[] = [];
+
+  // Walk from the oldest checkpoint so forks come out in chronological order
+  for (let i = lineage.length - 1; i >= 1; i--) {
+    const forkPoint = lineage[i]!;
+    const siblings = children.get(getCheckpointId(forkPoint) ?? "") ?? [];
+    if (siblings.length < 2) {
+      continue;
+    }
+
+    const activeChild = lineage[i - 1]!;
+    const forkMessageIds = new Set(
+      (forkPoint.values?.messages ?? []).map((msg) => msg.id)
+    );
+    const branches: MessageBranchPoint["branches"] = [];
+    let activeIndex = -1;
+
+    for (const child of [...siblings].reverse()) {
+      const leaf =
+        child === activeChild ? activeLeaf! : findNewestLeaf(child, children);
+      const leafId = getCheckpointId(leaf);
+      const firstMessage = (leaf.values?.messages ?? []).find(
+        (msg) => !forkMessageIds.has(msg.id)
+      );
+      if (!leafId || !firstMessage) {
+        continue;
+      }
+
+      if (child === activeChild) {
+        activeIndex = branches.length;
+      }
+      branches.push({ checkpointId: leafId, messageId: firstMessage.id });
+    }
+
+    if (activeIndex >= 0 && branches.length > 1) {
+      branchPoints.push({
+        messageId: branches[activeIndex]!.messageId,
+        branchCount: branches.length,
+        activeIndex,
+        branches,
+      });
+    }
+  }
+
+  return branchPoints;
+}
+
+/**
+ * Follows the newest child of each checkpoint down to a leaf.
+ */
+function findNewestLeaf(
+  state: ThreadState,
+  children: Map<string, ThreadState[]>
+): ThreadState {
+  let current = state;
+  let next = children.get(getCheckpointId(current) ?? "")?.[0];
+  while (next) {
+    current = next;
+    next = children.get(getCheckpointId(current) ?? "")?.[0];
+  }
+  return current;
+}
@@ -11,6 +11,7 @@
 
 import { LangGraphAgent } from "@copilotkit/runtime/langgraph";
 import { Client } from "@langchain/langgraph-sdk";
+import { createConsoleLogger, type Logger } from "../logging/logger";
 import { DEFAULT_TIMEOUT } from "../runner/constants";
 
 /**
@@ -41,6 +42,12 @@ export interface CreateIsolatedAgentConfig {
    */
   langsmithApiKey?: string;
 
+  /**
+   * Headers sent with every request to the deployment, e.g. a tenant's
+   * auth token.
+   */
+  headers?: Record<string, string>;
+
   /**
    * Client timeout in milliseconds.
    * Default: 1800000 (30 minutes)
@@ -51,6 +58,12 @@ export interface CreateIsolatedAgentConfig {
    * Enable debug mode on the agent.
    */
   debug?: boolean;
+
+  /**
+   * Logger for isolation warnings.
+   * Default: console logger prefixed with "LangGraphHistory"
+   */
+  logger?: Logger;
 }
 
 /**
@@ -84,6 +97,9 @@ export function createIsolatedAgent(
     langsmithApiKey: config.langsmithApiKey
       ? String(config.langsmithApiKey)
       : undefined,
+    // Copy the headers so later changes to the caller's object don't leak in.
+    // Not frozen: the client adds its API key header to them.
+    propertyHeaders: config.headers ? { ...config.headers } : undefined,
     debug: Boolean(config.debug),
   });
 
@@ -98,8 +114,11 @@ export function createIsolatedAgent(
 
   if (expectedUrl !== actualUrl) {
     // CONTAMINATION DETECTED - Force replace the client
-    console.warn(
-      `[LangGraphHistory] URL mismatch detected! Expected: ${expectedUrl}, Got: ${actualUrl}. Replacing client.`
+    const logger =
+      config.logger ?? createConsoleLogger({ prefix: "LangGraphHistory" });
+    logger.warn(
+      { graphId: config.graphId, expectedUrl, actualUrl },
+      "URL mismatch detected, replacing client"
     );
 
     // Create new client with correct URL and configured timeout
@@ -107,6 +126,7 @@ export function createIsolatedAgent(
       apiUrl: config.deploymentUrl,
       apiKey: config.langsmithApiKey,
       timeoutMs: timeout,
+      defaultHeaders: isolatedConfig.propertyHeaders,
     });
 
     // Replace the client on the agent
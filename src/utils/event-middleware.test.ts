@@ -0,0 +1,72 @@
+import { type BaseEvent, EventType } from "@ag-ui/core";
+import { describe, expect, it } from "vitest";
+
+import { applyEventMiddleware, type EventMiddleware } from "./event-middleware";
+
+function event(type: EventType): BaseEvent {
+  return { type, timestamp: 0 } as BaseEvent;
+}
+
+const context = { source: "run", threadId: "t1" } as const;
+
+describe("applyEventMiddleware", () => {
+  it("passes, replaces, drops and injects events", () => {
+    const middleware: EventMiddleware = (current) => {
+      switch (current.type) {
+        case EventType.RUN_STARTED:
+          return undefined;
+        case EventType.STATE_SNAPSHOT:
+          return null;
+        case EventType.RAW:
+          return event(EventType.CUSTOM);
+        default:
+          return [event(EventType.STEP_STARTED), current];
+      }
+    };
+
+    const types = [
+      EventType.RUN_STARTED,
+      EventType.STATE_SNAPSHOT,
+      EventType.RAW,
+      EventType.RUN_FINISHED,
+    ].map((type) =>
+      applyEventMiddleware(event(type), [middleware], context).map(
+        (output) => output.type
+      )
+    );
+
+    expect(types).toEqual([
+      [EventType.RUN_STARTED],
+      [],
+      [EventType.CUSTOM],
+      [EventType.STEP_STARTED, EventType.RUN_FINISHED],
+    ]);
+  });
+
+  it("passes each output on to the next middleware in order", () => {
+    const seen: Array<[string, EventType]> = [];
+    const split: EventMiddleware = (current) => {
+      seen.push(["split", current.type]);
+      return [current, event(EventType.RAW)];
+    };
+    const dropRaw: EventMiddleware = (current, middlewareContext) => {
+      seen.push([middlewareContext.threadId, current.type]);
+      return current.type === EventType.RAW ? null : undefined;
+    };
+
+    const events = applyEventMiddleware(
+      event(EventType.RUN_STARTED),
+      [split, dropRaw],
+      context
+    );
+
+    expect(events.map((output) => output.type)).toEqual([
+      EventType.RUN_STARTED,
+    ]);
+    expect(seen).toEqual([
+      ["split", EventType.RUN_STARTED],
+      ["t1", EventType.RUN_STARTED],
+      ["t1", EventType.RAW],
+    ]);
+  });
+});
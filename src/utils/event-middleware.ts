@@ -0,0 +1,56 @@
+import type { BaseEvent } from "@ag-ui/core";
+
+/**
+ * Context passed to event middleware.
+ */
+export interface EventMiddlewareContext {
+  /**
+   * Runner method that emitted the event.
+   */
+  source: "connect" | "run";
+  threadId: string;
+}
+
+/**
+ * Observes, modifies, drops or injects events emitted by the runner.
+ *
+ * Return:
+ * - `undefined` to pass the event through unchanged
+ * - an event to replace it
+ * - an array of events to replace it with several (e.g. to inject events
+ *   before or after it)
+ * - `null` to drop it
+ */
+export type EventMiddleware = (
+  event: BaseEvent,
+  context: EventMiddlewareContext
+) => BaseEvent | BaseEvent[] | null | undefined | void;
+
+/**
+ * Runs an event through a middleware chain and returns the events to emit,
+ * in order.
+ */
+export function applyEventMiddleware(
+  event: BaseEvent,
+  middleware: readonly EventMiddleware[],
+  context: EventMiddlewareContext
+): BaseEvent[] {
+  let events = [event];
+
+  for (const handler of middleware) {
+    const next: BaseEvent[] = [];
+    for (const current of events) {
+      const result = handler(current, context);
+      if (result === undefined) {
+        next.push(current);
+      } else if (Array.isArray(result)) {
+        next.push(...result);
+      } else if (result !== null) {
+        next.push(result);
+      }
+    }
+    events = next;
+  }
+
+  return events;
+}
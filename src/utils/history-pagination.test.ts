@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  decodeHistoryCursor,
+  encodeHistoryCursor,
+  mergeCheckpointMessages,
+  sliceHistoryPage,
+} from "./history-pagination";
+import type { LangGraphMessage, ThreadState } from "../runner/types";
+
+function message(id: string): LangGraphMessage {
+  return { id, type: "human", content: id };
+}
+
+function checkpoint(id: string, messageIds: string[]): ThreadState {
+  return {
+    values: { messages: messageIds.map(message) },
+    checkpoint: { checkpoint_id: id },
+  } as unknown as ThreadState;
+}
+
+const timeline = ["m1", "m2", "m3", "m4", "m5"].map(message);
+
+describe("history cursors", () => {
+  it("round-trip through an opaque string", () => {
+    const cursor = {
+      checkpointId: "c1",
+      parentCheckpointId: "c0",
+      strategy: "lineage" as const,
+      messageId: "m2",
+    };
+
+    const encoded = encodeHistoryCursor(cursor);
+
+    expect(encoded).toMatch(/^[\w-]+$/);
+    expect(decodeHistoryCursor(encoded)).toEqual({
+      ...cursor,
+      atCheckpointId: undefined,
+    });
+  });
+
+  it("drop fields of the wrong type", () => {
+    const encoded = encodeHistoryCursor({
+      checkpointId: 1,
+      strategy: "newest",
+      messageId: "m2",
+    } as never);
+
+    expect(decodeHistoryCursor(encoded)).toEqual({
+      checkpointId: undefined,
+      atCheckpointId: undefined,
+      parentCheckpointId: undefined,
+      strategy: undefined,
+      messageId: "m2",
+    });
+  });
+
+  it("reject malformed cursors", () => {
+    expect(() => decodeHistoryCursor("not-a-cursor")).toThrow(
+      "Invalid history cursor"
+    );
+    expect(() => decodeHistoryCursor(encodeHistoryCursor({} as never))).toThrow(
+      "Invalid history cursor: missing messageId"
+    );
+  });
+});
+
+describe("mergeCheckpointMessages", () => {
+  it("merges newest-first checkpoints chronologically without duplicates", () => {
+    const history = [
+      checkpoint("c3", ["m1", "m2", "m3"]),
+      checkpoint("c2", ["m1", "m2"]),
+      checkpoint("c1", ["m0", "m1"]),
+    ];
+
+    expect(mergeCheckpointMessages(history).map((m) => m.id)).toEqual([
+      "m0",
+      "m1",
+      "m2",
+      "m3",
+    ]);
+  });
+});
+
+describe("sliceHistoryPage", () => {
+  it("returns the newest page with a cursor in the same window", () => {
+    const result = sliceHistoryPage(timeline, {
+      pageSize: 2,
+      origin: { atCheckpointId: "c5" },
+    });
+
+    expect(result.messages.map((m) => m.id)).toEqual(["m4", "m5"]);
+    expect(result.cursor).toEqual({
+      checkpointId: undefined,
+      atCheckpointId: "c5",
+      parentCheckpointId: undefined,
+      strategy: undefined,
+      messageId: "m4",
+    });
+  });
+
+  it("returns the messages older than the cursor message", () => {
+    const result = sliceHistoryPage(timeline, {
+      pageSize: 2,
+      cursor: { checkpointId: "c9", messageId: "m4" },
+    });
+
+    expect(result.messages.map((m) => m.id)).toEqual(["m2", "m3"]);
+    expect(result.cursor).toMatchObject({
+      checkpointId: "c9",
+      messageId: "m2",
+    });
+  });
+
+  it("continues into older checkpoints once the window is exhausted", () => {
+    const result = sliceHistoryPage(timeline, {
+      pageSize: 2,
+      cursor: { messageId: "m3" },
+      continuation: { checkpointId: "c1", strategy: "lineage" },
+    });
+
+    expect(result.messages.map((m) => m.id)).toEqual(["m1", "m2"]);
+    expect(result.cursor).toEqual({
+      checkpointId: "c1",
+      strategy: "lineage",
+      messageId: "m1",
+    });
+  });
+
+  it("treats a window without the cursor message as entirely older", () => {
+    const result = sliceHistoryPage(timeline.slice(0, 2), {
+      pageSize: 5,
+      cursor: { checkpointId: "c2", messageId: "m3" },
+    });
+
+    expect(result.messages.map((m) => m.id)).toEqual(["m1", "m2"]);
+    expect(result.cursor).toBeNull();
+  });
+
+  it("returns everything without a page size", () => {
+    const result = sliceHistoryPage(timeline, { pageSize: 0 });
+
+    expect(result.messages).toEqual(timeline);
+    expect(result.cursor).toBeNull();
+  });
+
+  it("returns an empty last page at the start of the thread", () => {
+    expect(
+      sliceHistoryPage(timeline, {
+        pageSize: 2,
+        cursor: { messageId: "m1" },
+      })
+    ).toEqual({ messages: [], cursor: null });
+  });
+});
@@ -0,0 +1,217 @@
+import type {
+  HydrationStrategy,
+  LangGraphMessage,
+  ThreadState,
+} from "../runner/types";
+import type { TransformedMessage } from "./message-transformer";
+
+/**
+ * Position in a thread's message timeline used to fetch older messages.
+ */
+export interface HistoryCursor {
+  /**
+   * Checkpoint to fetch history before (exclusive).
+   * Omitted when the next page is still covered by the thread head.
+   */
+  checkpointId?: string;
+
+  /**
+   * Checkpoint the window is anchored at (inclusive) instead of the thread
+   * head. Set when hydrating a thread as of a past checkpoint.
+   */
+  atCheckpointId?: string;
+
+  /**
+   * Parent of `checkpointId`. Set when hydration follows a single lineage,
+   * so older pages continue along the same branch.
+   */
+  parentCheckpointId?: string;
+
+  /**
+   * Hydration strategy the window was built with, when it differs from the
+   * runner's (e.g. "lineage" while a branch is selected).
+   */
+  strategy?: HydrationStrategy;
+
+  /**
+   * ID of the oldest message already delivered to the client.
+   */
+  messageId: string;
+}
+
+/**
+ * A page of older messages returned by loadHistoryPage().
+ */
+export interface HistoryPage {
+  messages: TransformedMessage[];
+  /**
+   * Opaque cursor for the next older page, or null when the start of the
+   * thread has been reached.
+   */
+  cursor: string | null;
+  hasMore: boolean;
+}
+
+/**
+ * Encodes a cursor as an opaque, URL-safe string.
+ */
+export function encodeHistoryCursor(cursor: HistoryCursor): string {
+  return Buffer.from(JSON.stringify(cursor), "utf8").toString("base64url");
+}
+
+/**
+ * Decodes a cursor produced by encodeHistoryCursor().
+ * Throws if the cursor is malformed.
+ */
+export function decodeHistoryCursor(cursor: string): HistoryCursor {
+  try {
+    const decoded = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    ) as Partial<HistoryCursor>;
+
+    if (typeof decoded.messageId !== "string") {
+      throw new Error("missing messageId");
+    }
+
+    return {
+      checkpointId:
+        typeof decoded.checkpointId === "string"
+          ? decoded.checkpointId
+          : undefined,
+      atCheckpointId:
+        typeof decoded.atCheckpointId === "string"
+          ? decoded.atCheckpointId
+          : undefined,
+      parentCheckpointId:
+        typeof decoded.parentCheckpointId === "string"
+          ? decoded.parentCheckpointId
+          : undefined,
+      strategy:
+        decoded.strategy === "latest" ||
+        decoded.strategy === "merge" ||
+        decoded.strategy === "lineage"
+          ? decoded.strategy
+          : undefined,
+      messageId: decoded.messageId,
+    };
+  } catch (error) {
+    throw new Error(`Invalid history cursor: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Returns the checkpoint ID of a thread state, if present.
+ */
+export function getCheckpointId(state: ThreadState): string | undefined {
+  const checkpoint = state.checkpoint as { checkpoint_id?: string } | undefined;
+  return checkpoint?.checkpoint_id ?? undefined;
+}
+
+/**
+ * Returns the superstep of a thread state from its metadata, if present.
+ */
+export function getCheckpointStep(state: ThreadState): number | undefined {
+  const step = (state.metadata as { step?: unknown } | null | undefined)?.step;
+  return typeof step === "number" ? step : undefined;
+}
+
+/**
+ * Returns the parent checkpoint ID of a thread state, if present.
+ */
+export function getParentCheckpointId(state: ThreadState): string | undefined {
+  const parent = state.parent_checkpoint as
+    | { checkpoint_id?: string }
+    | null
+    | undefined;
+  return parent?.checkpoint_id ?? undefined;
+}
+
+/**
+ * Extracts messages from all checkpoints and deduplicates them by ID.
+ *
+ * Checkpoints are returned newest-first by the LangGraph API, so they are
+ * walked in reverse to keep the result in chronological order.
+ * The input array is not mutated.
+ */
+export function mergeCheckpointMessages(
+  history: ThreadState[]
+): LangGraphMessage[] {
+  const allMessages: LangGraphMessage[] = [];
+  const seenMessageIds = new Set<string>();
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const messages = history[i]?.values?.messages ?? [];
+
+    for (const msg of messages) {
+      if (!seenMessageIds.has(msg.id)) {
+        seenMessageIds.add(msg.id);
+        allMessages.push(msg);
+      }
+    }
+  }
+
+  return allMessages;
+}
+
+/**
+ * Selects one page of messages older than the cursor message and computes
+ * the cursor for the page after it.
+ *
+ * @param messages - Chronological message timeline of the fetched window
+ * @param options.cursor - Cursor of the previous page (omit for the newest page)
+ * @param options.origin - Where the window was fetched from, when it is not
+ *   the thread head and no cursor is given
+ * @param options.pageSize - Maximum number of messages per page
+ * @param options.continuation - Where older checkpoints can be fetched from,
+ *   when the window may not reach the start of the thread
+ */
+export function sliceHistoryPage(
+  messages: LangGraphMessage[],
+  options: {
+    cursor?: HistoryCursor;
+    origin?: Omit<HistoryCursor, "messageId">;
+    pageSize: number;
+    continuation?: Omit<HistoryCursor, "messageId">;
+  }
+): { messages: LangGraphMessage[]; cursor: HistoryCursor | null } {
+  const { cursor, pageSize, continuation } = options;
+  const origin = cursor ?? options.origin;
+
+  // Everything before the cursor message is older than what the client has.
+  // If the cursor message is not in this window, the whole window is older.
+  const boundary = cursor
+    ? messages.findIndex((msg) => msg.id === cursor.messageId)
+    : -1;
+  const olderMessages = boundary >= 0 ? messages.slice(0, boundary) : messages;
+  const page =
+    pageSize > 0 ? olderMessages.slice(-pageSize) : olderMessages;
+  const oldestMessageId = page[0]?.id ?? cursor?.messageId;
+
+  if (!oldestMessageId) {
+    return { messages: page, cursor: null };
+  }
+
+  // More messages remain in the same checkpoint window
+  if (page.length < olderMessages.length) {
+    return {
+      messages: page,
+      cursor: {
+        checkpointId: origin?.checkpointId,
+        atCheckpointId: origin?.atCheckpointId,
+        parentCheckpointId: origin?.parentCheckpointId,
+        strategy: origin?.strategy,
+        messageId: oldestMessageId,
+      },
+    };
+  }
+
+  // Older checkpoints may hold older messages
+  if (continuation) {
+    return {
+      messages: page,
+      cursor: { ...continuation, messageId: oldestMessageId },
+    };
+  }
+
+  return { messages: page, cursor: null };
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+
+import { resolveHydrationWindow } from "./hydration-strategy";
+import type { ThreadState } from "../runner/types";
+import {
+  checkpointIds,
+  forkedHistory as history,
+} from "../testing/checkpoints";
+
+function ids(items: Array<{ id: string }>): string[] {
+  return items.map((item) => item.id);
+}
+
+describe("resolveHydrationWindow", () => {
+  it("latest: takes the newest checkpoint only", () => {
+    const window = resolveHydrationWindow(history, "latest", {
+      historyLimit: 10,
+    });
+
+    expect(checkpointIds(window.checkpoints)).toEqual(["c4"]);
+    expect(ids(window.messages)).toEqual(["m1", "a2"]);
+    expect(window.continuation).toBeUndefined();
+  });
+
+  it("merge: merges every checkpoint except abandoned forks", () => {
+    const window = resolveHydrationWindow(history, "merge", {
+      historyLimit: 10,
+    });
+
+    expect(checkpointIds(window.checkpoints)).toEqual(["c4", "c3", "c1", "c0"]);
+    expect(ids(window.messages)).toEqual(["m1", "a2"]);
+    expect(window.continuation).toBeUndefined();
+  });
+
+  it("merge: keeps branches without a recorded fork", () => {
+    const window = resolveHydrationWindow(
+      history.map((state) => ({ ...state, metadata: {} }) as ThreadState),
+      "merge",
+      { historyLimit: 10 }
+    );
+
+    expect(ids(window.messages)).toEqual(["m1", "a1", "a2"]);
+  });
+
+  it("merge: continues before the oldest checkpoint of a full window", () => {
+    const window = resolveHydrationWindow(history.slice(0, 4), "merge", {
+      historyLimit: 4,
+    });
+
+    expect(window.continuation).toEqual({ checkpointId: "c1" });
+  });
+
+  it("merge: doesn't continue past the root of a full window", () => {
+    const window = resolveHydrationWindow(history, "merge", {
+      historyLimit: history.length,
+    });
+
+    expect(window.continuation).toBeUndefined();
+  });
+
+  it("lineage: follows the parent chain of the newest checkpoint", () => {
+    const window = resolveHydrationWindow(history, "lineage", {
+      historyLimit: 10,
+    });
+
+    expect(checkpointIds(window.checkpoints)).toEqual(["c4", "c3", "c1", "c0"]);
+    expect(ids(window.messages)).toEqual(["m1", "a2"]);
+    // c0 is the root, so nothing is older
+    expect(window.continuation).toBeUndefined();
+  });
+
+  it("lineage: follows the chain of a given checkpoint", () => {
+    const window = resolveHydrationWindow(history, "lineage", {
+      historyLimit: 10,
+      lineageStartId: "c2",
+    });
+
+    expect(checkpointIds(window.checkpoints)).toEqual(["c2", "c1", "c0"]);
+    expect(ids(window.messages)).toEqual(["m1", "a1"]);
+  });
+
+  it("lineage: continues at the parent of a truncated chain", () => {
+    const window = resolveHydrationWindow(history.slice(0, 4), "lineage", {
+      historyLimit: 4,
+    });
+
+    expect(window.continuation).toEqual({
+      checkpointId: "c1",
+      parentCheckpointId: "c0",
+    });
+  });
+
+  it("returns an empty window for an empty history", () => {
+    for (const strategy of ["latest", "merge", "lineage"] as const) {
+      expect(
+        resolveHydrationWindow([], strategy, { historyLimit: 10 })
+      ).toEqual({ checkpoints: [], messages: [], continuation: undefined });
+    }
+  });
+});
@@ -0,0 +1,102 @@
+import type {
+  HydrationStrategy,
+  LangGraphMessage,
+  ThreadState,
+} from "../runner/types";
+import {
+  excludeAbandonedForks,
+  getCheckpointLineage,
+} from "./checkpoint-tree";
+import {
+  getCheckpointId,
+  getParentCheckpointId,
+  mergeCheckpointMessages,
+  type HistoryCursor,
+} from "./history-pagination";
+
+/**
+ * Checkpoints and messages selected for hydration by a strategy.
+ */
+export interface HydrationWindow {
+  /**
+   * Checkpoints the messages were taken from (newest-first).
+   */
+  checkpoints: ThreadState[];
+
+  /**
+   * Chronological message timeline.
+   */
+  messages: LangGraphMessage[];
+
+  /**
+   * Where older checkpoints can be fetched from when the window may not
+   * reach the start of the thread.
+   */
+  continuation?: Omit<HistoryCursor, "messageId">;
+}
+
+/**
+ * Selects the checkpoints and messages to hydrate according to a strategy.
+ *
+ * - `latest`: only the newest checkpoint's messages
+ * - `merge`: union of messages across every checkpoint, except branches
+ *   abandoned by a fork made through the runner
+ * - `lineage`: union of messages along the newest checkpoint's parent chain
+ *
+ * @param history - Fetched checkpoints (newest-first)
+ * @param strategy - Hydration strategy
+ * @param options.historyLimit - Checkpoint limit used to fetch `history`
+ * @param options.lineageStartId - For `lineage`, the checkpoint to follow
+ *   instead of the newest one
+ */
+export function resolveHydrationWindow(
+  history: ThreadState[],
+  strategy: HydrationStrategy,
+  options: { historyLimit: number; lineageStartId?: string }
+): HydrationWindow {
+  switch (strategy) {
+    case "latest": {
+      const head = history.slice(0, 1);
+      return {
+        checkpoints: head,
+        messages: head[0]?.values?.messages ?? [],
+      };
+    }
+
+    case "lineage": {
+      const lineage = getCheckpointLineage(history, options.lineageStartId);
+      const oldest = lineage[lineage.length - 1];
+      const oldestId = oldest ? getCheckpointId(oldest) : undefined;
+      const parentId = oldest ? getParentCheckpointId(oldest) : undefined;
+
+      return {
+        checkpoints: lineage,
+        messages: mergeCheckpointMessages(lineage),
+        // The chain continues beyond the fetched window
+        continuation:
+          oldestId && parentId
+            ? { checkpointId: oldestId, parentCheckpointId: parentId }
+            : undefined,
+      };
+    }
+
+    case "merge":
+    default: {
+      const oldest = history[history.length - 1];
+      const oldestId = oldest ? getCheckpointId(oldest) : undefined;
+      const parentId = oldest ? getParentCheckpointId(oldest) : undefined;
+      const checkpoints = excludeAbandonedForks(history);
+
+      return {
+        checkpoints,
+        messages: mergeCheckpointMessages(checkpoints),
+        // A full window means older checkpoints may exist, unless it
+        // already reaches the root
+        continuation:
+          history.length >= options.historyLimit && oldestId && parentId
+            ? { checkpointId: oldestId }
+            : undefined,
+      };
+    }
+  }
+}
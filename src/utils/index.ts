@@ -2,13 +2,53 @@ export {
   createIsolatedAgent,
   type CreateIsolatedAgentConfig,
 } from "./create-isolated-agent";
+export {
+  encodeHistoryCursor,
+  decodeHistoryCursor,
+  type HistoryCursor,
+  type HistoryPage,
+} from "./history-pagination";
+export {
+  resolveHydrationWindow,
+  type HydrationWindow,
+} from "./hydration-strategy";
+export {
+  getCheckpointLineage,
+  findCheckpointBeforeMessage,
+  getMessageBranches,
+  type MessageBranchPoint,
+} from "./checkpoint-tree";
+export {
+  applyEventMiddleware,
+  type EventMiddleware,
+  type EventMiddlewareContext,
+} from "./event-middleware";
+export {
+  getPendingInterrupts,
+  type PendingInterrupt,
+} from "./interrupts";
+export {
+  createRegexRedactor,
+  redactMessage,
+  REDACTION_PATTERNS,
+  StreamRedactor,
+  type MessageRedactionContext,
+  type MessageRedactor,
+  type RedactionPattern,
+} from "./message-redaction";
 export {
   transformMessages,
   extractContent,
   type TransformedMessage,
 } from "./message-transformer";
+export {
+  createStateProjector,
+  createStateProjectionMiddleware,
+  type StateProjector,
+} from "./state-projection";
 export {
   processStreamChunk,
   type StreamProcessorContext,
+  type ReplayFilter,
   type StreamChunk,
 } from "./stream-processor";
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+
+import { getPendingInterrupts } from "./interrupts";
+import type { ThreadState } from "../runner/types";
+import { checkpoint } from "../testing/checkpoints";
+
+describe("getPendingInterrupts", () => {
+  it("collects the interrupts of every task", () => {
+    const state: ThreadState = {
+      ...checkpoint("c1", undefined, ["m1"]),
+      tasks: [
+        {
+          id: "task-1",
+          name: "legal",
+          interrupts: [
+            {
+              id: "i1",
+              value: "legal?",
+              ns: ["legal:task-1"],
+              resumable: true,
+            },
+          ],
+        },
+        { id: "task-2", name: "summarize" },
+        {
+          id: "task-3",
+          name: "finance",
+          interrupts: [{ interrupt_id: "i2", value: { amount: 10 } }],
+        },
+      ],
+    };
+
+    expect(getPendingInterrupts(state)).toEqual([
+      {
+        id: "i1",
+        value: "legal?",
+        taskId: "task-1",
+        taskName: "legal",
+        ns: ["legal:task-1"],
+        resumable: true,
+      },
+      {
+        id: "i2",
+        value: { amount: 10 },
+        taskId: "task-3",
+        taskName: "finance",
+        ns: undefined,
+        resumable: undefined,
+      },
+    ]);
+  });
+
+  it("returns nothing for a state without tasks", () => {
+    expect(getPendingInterrupts(checkpoint("c1", undefined, []))).toEqual([]);
+  });
+});
@@ -0,0 +1,60 @@
+import type { ThreadState } from "../runner/types";
+
+/**
+ * A pending interrupt of a thread, with the task it belongs to.
+ */
+export interface PendingInterrupt {
+  /**
+   * Interrupt ID. Used as the key when resuming several interrupts at once.
+   */
+  id?: string;
+
+  /**
+   * Value passed to interrupt() by the graph.
+   */
+  value?: unknown;
+
+  /**
+   * ID of the task (node execution) that raised the interrupt.
+   */
+  taskId: string;
+
+  /**
+   * Name of the node that raised the interrupt.
+   */
+  taskName: string;
+
+  /**
+   * Namespace of the (sub)graph that raised the interrupt.
+   */
+  ns?: string[];
+
+  /**
+   * Whether the interrupt can be resumed with a value.
+   */
+  resumable?: boolean;
+}
+
+/**
+ * Collects every pending interrupt of a checkpoint, across all tasks.
+ * Parallel nodes that interrupt at the same time each contribute their own.
+ */
+export function getPendingInterrupts(state: ThreadState): PendingInterrupt[] {
+  const interrupts: PendingInterrupt[] = [];
+
+  for (const task of state.tasks ?? []) {
+    for (const interrupt of task.interrupts ?? []) {
+      interrupts.push({
+        // Older LangGraph API versions expose the ID as interrupt_id
+        id: interrupt.id ?? interrupt.interrupt_id,
+        value: interrupt.value,
+        taskId: task.id,
+        taskName: task.name,
+        ns: interrupt.ns,
+        resumable: interrupt.resumable,
+      });
+    }
+  }
+
+  return interrupts;
+}
@@ -0,0 +1,188 @@
+import { describe, expect, it } from "vitest";
+
+import { toLangGraphMessages, type ImportableMessage } from "./message-import";
+import { transformMessages } from "./message-transformer";
+import { InvalidTranscriptError } from "../errors/transcript-errors";
+
+const toolCall = {
+  id: "c1",
+  type: "function" as const,
+  function: { name: "get_weather", arguments: '{"city":"Paris"}' },
+};
+
+/**
+ * Returns the InvalidTranscriptError thrown for the messages.
+ */
+function importError(messages: ImportableMessage[]): InvalidTranscriptError {
+  let next = 0;
+  try {
+    toLangGraphMessages(messages, { generateId: () => `id${++next}` });
+  } catch (error) {
+    if (error instanceof InvalidTranscriptError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error("Expected an InvalidTranscriptError");
+}
+
+describe("toLangGraphMessages", () => {
+  it("converts transformed messages back", () => {
+    const messages = [
+      { id: "u1", role: "user" as const, content: "Weather in Paris?" },
+      {
+        id: "a1",
+        role: "assistant" as const,
+        content: "",
+        toolCalls: [toolCall],
+      },
+      { id: "t1", role: "tool" as const, content: "Sunny", toolCallId: "c1" },
+      { id: "a2", role: "assistant" as const, content: "It's sunny." },
+    ];
+
+    const converted = toLangGraphMessages(messages);
+
+    expect(converted).toEqual([
+      { id: "u1", type: "human", content: "Weather in Paris?" },
+      {
+        id: "a1",
+        type: "ai",
+        content: "",
+        tool_calls: [
+          { id: "c1", name: "get_weather", args: { city: "Paris" } },
+        ],
+      },
+      { id: "t1", type: "tool", content: "Sunny", tool_call_id: "c1" },
+      { id: "a2", type: "ai", content: "It's sunny." },
+    ]);
+    expect(transformMessages(converted)).toMatchObject(messages);
+  });
+
+  it("converts OpenAI chat messages", () => {
+    let next = 0;
+
+    expect(
+      toLangGraphMessages(
+        [
+          { role: "developer", content: "Be brief." },
+          { role: "user", content: [{ type: "text", text: "Hi" }] },
+          {
+            role: "assistant",
+            content: null,
+            tool_calls: [
+              {
+                ...toolCall,
+                function: { ...toolCall.function, arguments: "" },
+              },
+            ],
+          },
+          { role: "tool", content: "Sunny", tool_call_id: "c1" },
+        ],
+        { generateId: () => `id${++next}` }
+      )
+    ).toEqual([
+      { id: "id1", type: "system", content: "Be brief." },
+      { id: "id2", type: "human", content: "Hi" },
+      {
+        id: "id3",
+        type: "ai",
+        content: "",
+        tool_calls: [{ id: "c1", name: "get_weather", args: {} }],
+      },
+      { id: "id4", type: "tool", content: "Sunny", tool_call_id: "c1" },
+    ]);
+  });
+
+  it("rejects duplicate message IDs", () => {
+    const error = importError([
+      { id: "m1", role: "user", content: "Hi" },
+      { id: "m1", role: "assistant", content: "Hello" },
+    ]);
+
+    expect(error.message).toBe('Message 1: duplicate message ID "m1"');
+    expect(error.messageIndex).toBe(1);
+    expect(error.code).toBe("INVALID_TRANSCRIPT");
+  });
+
+  it("rejects tool calls without a result", () => {
+    expect(
+      importError([
+        { role: "assistant", content: "", tool_calls: [toolCall] },
+        { role: "user", content: "Never mind" },
+      ]).message
+    ).toBe('Message 1: tool calls "c1" have no result');
+
+    const last = importError([
+      { role: "assistant", content: "", tool_calls: [toolCall] },
+    ]);
+    expect(last.message).toBe('Tool calls "c1" have no result');
+    expect(last.messageIndex).toBe(0);
+  });
+
+  it("rejects tool results for unknown or answered tool calls", () => {
+    expect(
+      importError([
+        { role: "user", content: "Hi" },
+        { role: "tool", content: "Sunny", tool_call_id: "c9" },
+      ]).message
+    ).toBe(
+      'Message 1: tool call "c9" not found in the preceding assistant message'
+    );
+
+    expect(
+      importError([
+        { role: "assistant", content: "", tool_calls: [toolCall] },
+        { id: "t1", role: "tool", content: "Sunny", tool_call_id: "c1" },
+        { id: "t2", role: "tool", content: "Rainy", tool_call_id: "c1" },
+      ]).message
+    ).toBe('Message 2: tool call "c1" already has a result');
+
+    expect(importError([{ role: "tool", content: "Sunny" }]).message).toBe(
+      "Message 0: tool message without a tool call ID"
+    );
+  });
+
+  it("rejects invalid tool calls", () => {
+    expect(
+      importError([
+        {
+          role: "assistant",
+          tool_calls: [
+            {
+              ...toolCall,
+              function: { ...toolCall.function, arguments: "[1]" },
+            },
+          ],
+        },
+      ]).message
+    ).toBe('Message 0: arguments of tool call "c1" are not a JSON object');
+
+    expect(
+      importError([
+        {
+          role: "assistant",
+          tool_calls: [
+            { ...toolCall, function: { ...toolCall.function, arguments: "{" } },
+          ],
+        },
+      ]).message
+    ).toBe('Message 0: arguments of tool call "c1" are not a JSON object');
+
+    expect(
+      importError([
+        { role: "assistant", tool_calls: [{ ...toolCall, id: "" }] },
+      ]).message
+    ).toBe("Message 0: tool call without an ID or name");
+  });
+
+  it("rejects duplicate tool call IDs and unknown roles", () => {
+    expect(
+      importError([{ role: "assistant", tool_calls: [toolCall, toolCall] }])
+        .message
+    ).toBe('Message 0: duplicate tool call ID "c1"');
+
+    expect(
+      importError([{ role: "robot", content: "Beep" } as never]).message
+    ).toBe('Message 0: unknown role "robot"');
+  });
+});
@@ -0,0 +1,188 @@
+import { randomUUID } from "node:crypto";
+import { InvalidTranscriptError } from "../errors/transcript-errors";
+import type { LangGraphMessage } from "../runner/types";
+import { extractContent, type TransformedMessage } from "./message-transformer";
+
+/**
+ * Chat message in the OpenAI Chat Completions format.
+ */
+export interface OpenAIChatMessage {
+  id?: string;
+  role: "system" | "developer" | "user" | "assistant" | "tool";
+  content?: string | Array<{ type: string; text?: string }> | null;
+  name?: string;
+  tool_calls?: Array<{
+    id: string;
+    type?: "function";
+    function: {
+      name: string;
+      arguments: string;
+    };
+  }>;
+  tool_call_id?: string;
+}
+
+/**
+ * Message accepted by importThread(): a TransformedMessage (the format
+ * emitted by connect()), or an OpenAI chat message. Messages without an ID
+ * get a random one.
+ */
+export type ImportableMessage =
+  (Omit<TransformedMessage, "id"> & { id?: string }) | OpenAIChatMessage;
+
+/**
+ * Converts messages to LangGraph messages, so that transformMessages()
+ * gives them back.
+ *
+ * Throws InvalidTranscriptError unless every tool message answers a tool
+ * call of an earlier assistant message, and every tool call is answered
+ * before the next non-tool message.
+ *
+ * @param options.generateId - Creates IDs for messages without one.
+ *   Default: random UUIDs
+ */
+export function toLangGraphMessages(
+  messages: ImportableMessage[],
+  options: { generateId?: () => string } = {}
+): LangGraphMessage[] {
+  const generateId = options.generateId ?? randomUUID;
+  const result: LangGraphMessage[] = [];
+  const messageIds = new Set<string>();
+  const toolCallIds = new Set<string>();
+  // Tool calls of the latest assistant message not answered yet
+  const pending = new Set<string>();
+
+  messages.forEach((message, index) => {
+    const fail = (reason: string): never => {
+      throw new InvalidTranscriptError(`Message ${index}: ${reason}`, {
+        messageIndex: index,
+      });
+    };
+
+    const id = message.id ?? generateId();
+    if (messageIds.has(id)) {
+      fail(`duplicate message ID "${id}"`);
+    }
+    messageIds.add(id);
+
+    if (message.role !== "tool" && pending.size > 0) {
+      fail(`tool calls ${quoteIds(pending)} have no result`);
+    }
+
+    const content =
+      typeof message.content === "string"
+        ? message.content
+        : Array.isArray(message.content)
+          ? extractContent(message.content)
+          : "";
+
+    switch (message.role) {
+      case "user":
+        result.push({ id, type: "human", content });
+        break;
+
+      case "system":
+      case "developer":
+        result.push({ id, type: "system", content });
+        break;
+
+      case "assistant": {
+        const toolCalls =
+          (message as Pick<TransformedMessage, "toolCalls">).toolCalls ??
+          (message as OpenAIChatMessage).tool_calls;
+        if (!toolCalls?.length) {
+          result.push({ id, type: "ai", content });
+          break;
+        }
+
+        result.push({
+          id,
+          type: "ai",
+          content,
+          tool_calls: toolCalls.map((toolCall) => {
+            if (!toolCall.id || !toolCall.function?.name) {
+              fail("tool call without an ID or name");
+            }
+            if (toolCallIds.has(toolCall.id)) {
+              fail(`duplicate tool call ID "${toolCall.id}"`);
+            }
+            toolCallIds.add(toolCall.id);
+            pending.add(toolCall.id);
+
+            return {
+              id: toolCall.id,
+              name: toolCall.function.name,
+              args: parseArguments(toolCall.function.arguments, () =>
+                fail(
+                  `arguments of tool call "${toolCall.id}" are not a JSON object`
+                )
+              ),
+            };
+          }),
+        });
+        break;
+      }
+
+      case "tool": {
+        const toolCallId =
+          (message as Pick<TransformedMessage, "toolCallId">).toolCallId ??
+          (message as OpenAIChatMessage).tool_call_id ??
+          fail("tool message without a tool call ID");
+        if (!pending.has(toolCallId)) {
+          fail(
+            toolCallIds.has(toolCallId)
+              ? `tool call "${toolCallId}" already has a result`
+              : `tool call "${toolCallId}" not found in the preceding assistant message`
+          );
+        }
+        pending.delete(toolCallId);
+
+        result.push({ id, type: "tool", content, tool_call_id: toolCallId });
+        break;
+      }
+
+      default:
+        fail(`unknown role "${(message as { role?: unknown }).role}"`);
+    }
+  });
+
+  // The conversation must not end with unanswered tool calls
+  if (pending.size > 0) {
+    throw new InvalidTranscriptError(
+      `Tool calls ${quoteIds(pending)} have no result`,
+      { messageIndex: messages.length - 1 }
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Parses tool call arguments. An empty string is no arguments.
+ */
+function parseArguments(
+  args: string | undefined,
+  invalid: () => never
+): Record<string, unknown> {
+  if (!args) {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(args);
+  } catch {
+    invalid();
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    invalid();
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Lists IDs for error messages.
+ */
+function quoteIds(ids: Iterable<string>): string {
+  return [...ids].map((id) => `"${id}"`).join(", ");
+}
@@ -0,0 +1,312 @@
+import { type BaseEvent, EventType } from "@ag-ui/core";
+import { describe, expect, it } from "vitest";
+
+import {
+  createRegexRedactor,
+  redactMessage,
+  StreamRedactor,
+} from "./message-redaction";
+import { processStreamChunk } from "./stream-processor";
+
+const EMAIL = "jane@example.com";
+const redact = createRegexRedactor();
+
+function event(type: EventType, fields: Record<string, unknown>): BaseEvent {
+  return { type, timestamp: 1, ...fields } as BaseEvent;
+}
+
+/**
+ * Runs events through one redactor and joins what it emits.
+ */
+function processAll(
+  redactor: StreamRedactor,
+  events: BaseEvent[]
+): Array<Record<string, unknown>> {
+  return events.flatMap(
+    (input) =>
+      redactor.process(input) as unknown as Array<Record<string, unknown>>
+  );
+}
+
+describe("createRegexRedactor", () => {
+  it("redacts emails and card numbers passing the Luhn check", () => {
+    expect(redact(`Mail ${EMAIL}, card 4111 1111 1111 1111`, {} as never)).toBe(
+      "Mail [REDACTED_EMAIL], card [REDACTED_CARD]"
+    );
+    expect(redact("Order 1234567890123", {} as never)).toBe(
+      "Order 1234567890123"
+    );
+  });
+
+  it("rejects patterns without the global flag", () => {
+    expect(() =>
+      createRegexRedactor({ patterns: [{ pattern: /x/, replacement: "" }] })
+    ).toThrow('must have the "g" flag');
+  });
+});
+
+describe("redactMessage", () => {
+  it("redacts content and tool call arguments", () => {
+    expect(
+      redactMessage(
+        {
+          id: "m1",
+          role: "assistant",
+          content: `Writing to ${EMAIL}`,
+          toolCalls: [
+            {
+              id: "c1",
+              type: "function",
+              function: { name: "send", arguments: `{"to":"${EMAIL}"}` },
+            },
+          ],
+        },
+        redact
+      )
+    ).toEqual({
+      id: "m1",
+      role: "assistant",
+      content: "Writing to [REDACTED_EMAIL]",
+      toolCalls: [
+        {
+          id: "c1",
+          type: "function",
+          function: { name: "send", arguments: '{"to":"[REDACTED_EMAIL]"}' },
+        },
+      ],
+    });
+  });
+});
+
+describe("StreamRedactor", () => {
+  it("redacts a match split across deltas and removes rawEvent", () => {
+    const redactor = new StreamRedactor(redact, { holdback: 20 });
+    const rawEvent = { data: { chunk: { content: EMAIL } } };
+
+    const output = processAll(redactor, [
+      event(EventType.TEXT_MESSAGE_START, {
+        messageId: "m1",
+        role: "assistant",
+        rawEvent,
+      }),
+      event(EventType.TEXT_MESSAGE_CONTENT, {
+        messageId: "m1",
+        delta: "Contact jane@exa",
+        rawEvent,
+      }),
+      event(EventType.TEXT_MESSAGE_CONTENT, {
+        messageId: "m1",
+        delta: "mple.com for details",
+        rawEvent,
+      }),
+      event(EventType.TEXT_MESSAGE_END, { messageId: "m1", rawEvent }),
+    ]);
+
+    expect(
+      output
+        .filter((e) => e["type"] === EventType.TEXT_MESSAGE_CONTENT)
+        .map((e) => e["delta"])
+        .join("")
+    ).toBe("Contact [REDACTED_EMAIL] for details");
+    expect(output.every((e) => !("rawEvent" in e))).toBe(true);
+  });
+
+  it("redacts tool call argument deltas", () => {
+    const redactor = new StreamRedactor(redact, { holdback: 0 });
+
+    const output = processAll(redactor, [
+      event(EventType.TOOL_CALL_ARGS, {
+        toolCallId: "c1",
+        delta: `{"to":"${EMAIL}"}`,
+        rawEvent: { data: { input: { to: EMAIL } } },
+      }),
+      event(EventType.TOOL_CALL_END, { toolCallId: "c1" }),
+    ]);
+
+    expect(output).toEqual([
+      {
+        type: EventType.TOOL_CALL_ARGS,
+        timestamp: 1,
+        toolCallId: "c1",
+        delta: '{"to":"[REDACTED_EMAIL]"}',
+      },
+      { type: EventType.TOOL_CALL_END, timestamp: 1, toolCallId: "c1" },
+    ]);
+  });
+
+  it("redacts tool call results", () => {
+    const redactor = new StreamRedactor(redact);
+
+    expect(
+      processAll(redactor, [
+        event(EventType.TOOL_CALL_RESULT, {
+          messageId: "t1",
+          toolCallId: "c1",
+          content: `Found ${EMAIL}`,
+          rawEvent: { content: EMAIL },
+        }),
+      ])
+    ).toEqual([
+      {
+        type: EventType.TOOL_CALL_RESULT,
+        timestamp: 1,
+        messageId: "t1",
+        toolCallId: "c1",
+        content: "Found [REDACTED_EMAIL]",
+      },
+    ]);
+  });
+
+  it("drops RAW events", () => {
+    const redactor = new StreamRedactor(redact);
+
+    expect(
+      processAll(redactor, [
+        event(EventType.RAW, { event: { data: { output: EMAIL } } }),
+      ])
+    ).toEqual([]);
+  });
+
+  it("drops CUSTOM copies of LangChain events and redacts other values", () => {
+    const redactor = new StreamRedactor(redact);
+
+    const output = processAll(redactor, [
+      event(EventType.CUSTOM, {
+        name: "on_chat_model_start",
+        value: JSON.stringify({ input: { messages: [EMAIL] } }),
+      }),
+      event(EventType.CUSTOM, {
+        name: "on_interrupt",
+        value: JSON.stringify({ question: `Email ${EMAIL}?` }),
+        rawEvent: { interruptId: "i1", value: { question: `Email ${EMAIL}?` } },
+      }),
+    ]);
+
+    expect(output).toEqual([
+      {
+        type: EventType.CUSTOM,
+        timestamp: 1,
+        name: "on_interrupt",
+        value: JSON.stringify({ question: "Email [REDACTED_EMAIL]?" }),
+        rawEvent: {
+          interruptId: "i1",
+          value: { question: "Email [REDACTED_EMAIL]?" },
+        },
+      },
+    ]);
+  });
+
+  it("redacts and filters the messages of message snapshots", () => {
+    const redactor = new StreamRedactor(redact, { dropSystemMessages: true });
+
+    expect(
+      processAll(redactor, [
+        event(EventType.MESSAGES_SNAPSHOT, {
+          messages: [
+            { id: "s1", role: "system", content: "Secret prompt" },
+            { id: "u1", role: "user", content: `I am ${EMAIL}` },
+          ],
+          rawEvent: { messages: [] },
+        }),
+      ])
+    ).toEqual([
+      {
+        type: EventType.MESSAGES_SNAPSHOT,
+        timestamp: 1,
+        messages: [
+          { id: "u1", role: "user", content: "I am [REDACTED_EMAIL]" },
+        ],
+      },
+    ]);
+  });
+
+  it("redacts and filters the messages of state snapshots", () => {
+    const redactor = new StreamRedactor(redact, { dropSystemMessages: true });
+    const messages = [
+      { id: "s1", type: "system", content: "Secret prompt" },
+      {
+        id: "a1",
+        type: "ai",
+        content: [{ type: "text", text: `Mail ${EMAIL}` }],
+        tool_calls: [{ id: "c1", name: "send", args: { to: EMAIL } }],
+      },
+    ];
+    const redacted = [
+      {
+        id: "a1",
+        type: "ai",
+        content: [{ type: "text", text: "Mail [REDACTED_EMAIL]" }],
+        tool_calls: [
+          { id: "c1", name: "send", args: { to: "[REDACTED_EMAIL]" } },
+        ],
+      },
+    ];
+
+    const output = processAll(redactor, [
+      event(EventType.STATE_SNAPSHOT, {
+        snapshot: { plan: "trip", messages },
+        rawEvent: { data: { messages } },
+      }),
+      // Per-node updates
+      event(EventType.STATE_SNAPSHOT, {
+        snapshot: { agent: { messages } },
+      }),
+    ]);
+
+    expect(output).toEqual([
+      {
+        type: EventType.STATE_SNAPSHOT,
+        timestamp: 1,
+        snapshot: { plan: "trip", messages: redacted },
+      },
+      {
+        type: EventType.STATE_SNAPSHOT,
+        timestamp: 1,
+        snapshot: { agent: { messages: redacted } },
+      },
+    ]);
+  });
+
+  it("flushes held back text when the run finishes", () => {
+    const redactor = new StreamRedactor(redact);
+
+    const output = processAll(redactor, [
+      event(EventType.TEXT_MESSAGE_CONTENT, { messageId: "m1", delta: EMAIL }),
+      event(EventType.RUN_FINISHED, { threadId: "t1", runId: "r1" }),
+    ]);
+
+    expect(output.map((e) => e["type"])).toEqual([
+      EventType.TEXT_MESSAGE_CONTENT,
+      EventType.RUN_FINISHED,
+    ]);
+    expect(output[0]!["delta"]).toBe("[REDACTED_EMAIL]");
+  });
+
+  it("leaves no unredacted content in a processed stream chunk", async () => {
+    const emitted: BaseEvent[] = [];
+
+    await processStreamChunk(
+      {
+        event: "events",
+        data: {
+          event: "on_tool_start",
+          name: "send",
+          run_id: "c1",
+          data: { input: { to: EMAIL } },
+        },
+      },
+      {
+        threadId: "t1",
+        runId: "r1",
+        subscriber: { next: (output) => emitted.push(output) },
+        redactor: new StreamRedactor(redact, { holdback: 0 }),
+      }
+    );
+
+    expect(emitted.map((e) => e.type)).toEqual([
+      EventType.TOOL_CALL_START,
+      EventType.TOOL_CALL_ARGS,
+    ]);
+    expect(JSON.stringify(emitted)).not.toContain(EMAIL);
+  });
+});
@@ -0,0 +1,549 @@
+import { type BaseEvent, EventType } from "@ag-ui/core";
+import type { TransformedMessage } from "./message-transformer";
+import { LangGraphEventTypes } from "../events/langgraph-events";
+
+/**
+ * Default number of characters held back per streamed message or tool call.
+ */
+const DEFAULT_REDACTION_HOLDBACK = 64;
+
+/**
+ * Describes the text passed to a MessageRedactor.
+ */
+export interface MessageRedactionContext {
+  /**
+   * Role of the message the text belongs to.
+   */
+  role: TransformedMessage["role"];
+
+  /**
+   * Message content, or the JSON arguments of a tool call.
+   */
+  field: "content" | "toolCallArguments";
+
+  messageId?: string;
+  toolCallId?: string;
+}
+
+/**
+ * Returns `text` with sensitive content replaced. Must be deterministic:
+ * streamed text is redacted in pieces, and redacting two adjacent pieces
+ * separately must give the same result as redacting them together unless a
+ * match spans the boundary.
+ */
+export type MessageRedactor = (
+  text: string,
+  context: MessageRedactionContext
+) => string;
+
+/**
+ * A pattern used by createRegexRedactor().
+ */
+export interface RedactionPattern {
+  /**
+   * Pattern to replace. Must have the global flag.
+   */
+  pattern: RegExp;
+
+  /**
+   * Replacement text.
+   */
+  replacement: string;
+
+  /**
+   * Extra check on each match, e.g. a checksum. Matches that fail it are
+   * kept.
+   */
+  validate?: (match: string) => boolean;
+}
+
+/**
+ * Bundled redaction patterns.
+ */
+export const REDACTION_PATTERNS = Object.freeze({
+  email: Object.freeze<RedactionPattern>({
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+    replacement: "[REDACTED_EMAIL]",
+  }),
+  creditCard: Object.freeze<RedactionPattern>({
+    // 13-19 digits, optionally grouped by spaces or dashes
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    replacement: "[REDACTED_CARD]",
+    validate: passesLuhnCheck,
+  }),
+});
+
+/**
+ * Creates a redactor that replaces every match of the given patterns.
+ * Defaults to email addresses and card numbers.
+ *
+ * @example
+ * ```typescript
+ * const redact = createRegexRedactor({
+ *   patterns: [
+ *     REDACTION_PATTERNS.email,
+ *     { pattern: /\bACME-\d{6}\b/g, replacement: "[REDACTED_ID]" },
+ *   ],
+ * });
+ * ```
+ */
+export function createRegexRedactor(
+  options: { patterns?: RedactionPattern[] } = {}
+): MessageRedactor {
+  const patterns = options.patterns ?? [
+    REDACTION_PATTERNS.email,
+    REDACTION_PATTERNS.creditCard,
+  ];
+
+  for (const { pattern } of patterns) {
+    if (!pattern.global) {
+      throw new Error(`Redaction pattern ${pattern} must have the "g" flag`);
+    }
+  }
+
+  return (text) =>
+    patterns.reduce(
+      (current, { pattern, replacement, validate }) =>
+        current.replace(pattern, (match) =>
+          !validate || validate(match) ? replacement : match
+        ),
+      text
+    );
+}
+
+/**
+ * Redacts the content and tool call arguments of a message.
+ */
+export function redactMessage<T extends TransformedMessage>(
+  message: T,
+  redact: MessageRedactor
+): T {
+  return {
+    ...message,
+    // Assistant messages with only tool calls may have no content
+    content:
+      typeof message.content === "string"
+        ? redact(message.content, {
+            role: message.role,
+            field: "content",
+            messageId: message.id,
+          })
+        : message.content,
+    toolCalls: message.toolCalls?.map((toolCall) => ({
+      ...toolCall,
+      function: {
+        ...toolCall.function,
+        arguments: redact(toolCall.function.arguments, {
+          role: message.role,
+          field: "toolCallArguments",
+          messageId: message.id,
+          toolCallId: toolCall.id,
+        }),
+      },
+    })),
+  };
+}
+
+/**
+ * Roles of LangGraph message types.
+ */
+const LANGGRAPH_ROLES: Record<string, TransformedMessage["role"]> = {
+  human: "user",
+  ai: "assistant",
+  system: "system",
+  tool: "tool",
+};
+
+/**
+ * Names of the CUSTOM copies of LangChain callback events made by the
+ * stream processor. They repeat the unredacted model input and output.
+ */
+const LANGCHAIN_EVENT_NAMES = new Set<string>(
+  Object.values(LangGraphEventTypes)
+);
+
+/**
+ * Redacts every string in a JSON-like value.
+ */
+function redactValue(
+  value: unknown,
+  redact: MessageRedactor,
+  context: MessageRedactionContext
+): unknown {
+  if (typeof value === "string") {
+    return redact(value, context);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, redact, context));
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        redactValue(item, redact, context),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Redacts a message of a state snapshot: a LangGraph message in a run's
+ * state, or a message in CopilotKit format.
+ */
+function redactStateMessage(
+  message: Record<string, unknown>,
+  redact: MessageRedactor
+): Record<string, unknown> {
+  if (typeof message["role"] === "string") {
+    return redactMessage(
+      message as unknown as TransformedMessage,
+      redact
+    ) as unknown as Record<string, unknown>;
+  }
+
+  const context: MessageRedactionContext = {
+    role: LANGGRAPH_ROLES[String(message["type"])] ?? "assistant",
+    field: "content",
+    messageId: typeof message["id"] === "string" ? message["id"] : undefined,
+  };
+  const toolCalls = message["tool_calls"] as
+    Array<Record<string, unknown>> | undefined;
+
+  const redacted: Record<string, unknown> = {
+    ...message,
+    content: redactValue(message["content"], redact, context),
+  };
+  // Provider formats keep tool calls here too, with their arguments
+  if (message["additional_kwargs"] !== undefined) {
+    redacted["additional_kwargs"] = redactValue(
+      message["additional_kwargs"],
+      redact,
+      context
+    );
+  }
+  if (toolCalls) {
+    redacted["tool_calls"] = toolCalls.map((toolCall) => ({
+      ...toolCall,
+      args: redactValue(toolCall["args"], redact, {
+        ...context,
+        field: "toolCallArguments",
+        toolCallId:
+          typeof toolCall["id"] === "string" ? toolCall["id"] : undefined,
+      }),
+    }));
+  }
+  return redacted;
+}
+
+/**
+ * Removes `rawEvent`, which carries the unredacted source of an event.
+ */
+function withoutRawEvent(event: BaseEvent): BaseEvent {
+  if (!("rawEvent" in event)) {
+    return event;
+  }
+  const { rawEvent: _rawEvent, ...rest } = event;
+  return rest as BaseEvent;
+}
+
+/**
+ * Text held back for one streamed message or tool call.
+ */
+interface PendingText {
+  text: string;
+  context: MessageRedactionContext;
+  /**
+   * Event the held back text was taken from, used as the template of the
+   * event that flushes it.
+   */
+  template: BaseEvent;
+}
+
+/**
+ * Redacts the events of one stream: TEXT_MESSAGE_CONTENT and TOOL_CALL_ARGS
+ * deltas, TOOL_CALL_RESULT content, the messages of MESSAGES_SNAPSHOT and
+ * STATE_SNAPSHOT events, and the values of CUSTOM events.
+ *
+ * RAW events, and the CUSTOM copies of LangChain callback events, repeat
+ * the unredacted model input and output, so they are dropped. `rawEvent`
+ * is removed from every other event, except CUSTOM events where it is
+ * redacted like their value.
+ *
+ * A pattern can span several deltas, so the last `holdback` characters of
+ * each message or tool call are held back until more text arrives or it
+ * ends. Matches longer than `holdback` may be split and missed.
+ *
+ * Create one instance per stream.
+ */
+export class StreamRedactor {
+  private readonly redact: MessageRedactor;
+  private readonly holdback: number;
+  private readonly dropSystemMessages: boolean;
+  private readonly pending = new Map<string, PendingText>();
+  private readonly roles = new Map<string, TransformedMessage["role"]>();
+
+  constructor(
+    redact: MessageRedactor,
+    options: { holdback?: number; dropSystemMessages?: boolean } = {}
+  ) {
+    this.redact = redact;
+    this.holdback = options.holdback ?? DEFAULT_REDACTION_HOLDBACK;
+    this.dropSystemMessages = options.dropSystemMessages ?? false;
+  }
+
+  /**
+   * Returns the events to emit in place of `event`.
+   */
+  process(event: BaseEvent): BaseEvent[] {
+    const data = event as BaseEvent & {
+      messageId?: string;
+      toolCallId?: string;
+      role?: TransformedMessage["role"];
+      delta?: string;
+      content?: string;
+      messages?: TransformedMessage[];
+      snapshot?: unknown;
+      name?: string;
+      value?: unknown;
+    };
+
+    switch (event.type) {
+      case EventType.RAW:
+        return [];
+
+      case EventType.CUSTOM: {
+        if (LANGCHAIN_EVENT_NAMES.has(data.name ?? "")) {
+          return [];
+        }
+        const context: MessageRedactionContext = {
+          role: "assistant",
+          field: "content",
+        };
+        return [
+          {
+            ...event,
+            value: redactValue(data.value, this.redact, context),
+            ...(event.rawEvent !== undefined
+              ? { rawEvent: redactValue(event.rawEvent, this.redact, context) }
+              : {}),
+          } as BaseEvent,
+        ];
+      }
+
+      case EventType.TEXT_MESSAGE_START:
+        if (data.messageId && data.role) {
+          this.roles.set(data.messageId, data.role);
+        }
+        return [withoutRawEvent(event)];
+
+      case EventType.TEXT_MESSAGE_CONTENT:
+        return this.append(`message:${data.messageId}`, event, data.delta, {
+          role: this.roles.get(data.messageId ?? "") ?? "assistant",
+          field: "content",
+          messageId: data.messageId,
+        });
+
+      case EventType.TOOL_CALL_ARGS:
+        return this.append(`tool:${data.toolCallId}`, event, data.delta, {
+          role: "assistant",
+          field: "toolCallArguments",
+          toolCallId: data.toolCallId,
+        });
+
+      case EventType.TEXT_MESSAGE_END:
+        this.roles.delete(data.messageId ?? "");
+        return [
+          ...this.flush(`message:${data.messageId}`),
+          withoutRawEvent(event),
+        ];
+
+      case EventType.TOOL_CALL_END:
+        return [
+          ...this.flush(`tool:${data.toolCallId}`),
+          withoutRawEvent(event),
+        ];
+
+      case EventType.TOOL_CALL_RESULT:
+        return [
+          withoutRawEvent({
+            ...event,
+            content:
+              typeof data.content === "string"
+                ? this.redact(data.content, {
+                    role: "tool",
+                    field: "content",
+                    messageId: data.messageId,
+                    toolCallId: data.toolCallId,
+                  })
+                : data.content,
+          } as BaseEvent),
+        ];
+
+      case EventType.MESSAGES_SNAPSHOT:
+        return [
+          withoutRawEvent({
+            ...event,
+            messages: (data.messages ?? [])
+              .filter(
+                (message) =>
+                  !this.dropSystemMessages || message.role !== "system"
+              )
+              .map((message) => redactMessage(message, this.redact)),
+          } as BaseEvent),
+        ];
+
+      case EventType.STATE_SNAPSHOT:
+        return [
+          withoutRawEvent({
+            ...event,
+            snapshot: this.redactState(data.snapshot),
+          } as BaseEvent),
+        ];
+
+      case EventType.RUN_FINISHED:
+      case EventType.RUN_ERROR: {
+        // Release text of messages that never ended
+        const flushed = [...this.pending.keys()].flatMap((key) =>
+          this.flush(key)
+        );
+        this.roles.clear();
+        return [...flushed, withoutRawEvent(event)];
+      }
+
+      default:
+        return [withoutRawEvent(event)];
+    }
+  }
+
+  /**
+   * Redacts the messages of a state snapshot: its `messages`, and those of
+   * each node in a snapshot of per-node updates.
+   */
+  private redactState(snapshot: unknown): unknown {
+    const redactMessages = (state: Record<string, unknown>) => {
+      const messages = state["messages"];
+      if (!Array.isArray(messages)) {
+        return state;
+      }
+      return {
+        ...state,
+        messages: (messages as Array<Record<string, unknown>>)
+          .filter(
+            (message) =>
+              !this.dropSystemMessages ||
+              (message["type"] !== "system" && message["role"] !== "system")
+          )
+          .map((message) => redactStateMessage(message, this.redact)),
+      };
+    };
+
+    if (!isRecord(snapshot)) {
+      return snapshot;
+    }
+    return Object.fromEntries(
+      Object.entries(redactMessages(snapshot)).map(([key, value]) => [
+        key,
+        key !== "messages" && isRecord(value) ? redactMessages(value) : value,
+      ])
+    );
+  }
+
+  /**
+   * Adds a delta to the held back text and emits what can no longer be
+   * part of a match spanning later deltas.
+   */
+  private append(
+    key: string,
+    event: BaseEvent,
+    delta: string | undefined,
+    context: MessageRedactionContext
+  ): BaseEvent[] {
+    const text = (this.pending.get(key)?.text ?? "") + (delta ?? "");
+    const cut = this.findSafeCut(text, context);
+
+    this.pending.set(key, { text: text.slice(cut), context, template: event });
+
+    const emitted = cut > 0 ? this.redact(text.slice(0, cut), context) : "";
+    return emitted
+      ? [withoutRawEvent({ ...event, delta: emitted } as BaseEvent)]
+      : [];
+  }
+
+  /**
+   * Emits all held back text of a message or tool call.
+   */
+  private flush(key: string): BaseEvent[] {
+    const pending = this.pending.get(key);
+    this.pending.delete(key);
+    if (!pending?.text) {
+      return [];
+    }
+
+    const emitted = this.redact(pending.text, pending.context);
+    if (!emitted) {
+      return [];
+    }
+    return [
+      withoutRawEvent({
+        ...pending.template,
+        delta: emitted,
+        timestamp: Date.now(),
+      } as BaseEvent),
+    ];
+  }
+
+  /**
+   * Finds the end of the prefix of `text` that can be emitted: the last
+   * `holdback` characters are kept, and the cut moves back while a match
+   * spans it - detected by redacting both sides separately giving a
+   * different result than redacting the whole text.
+   */
+  private findSafeCut(text: string, context: MessageRedactionContext): number {
+    const latest = text.length - this.holdback;
+    if (latest <= 0) {
+      return 0;
+    }
+
+    const whole = this.redact(text, context);
+    for (let cut = latest; cut >= Math.max(1, latest - this.holdback); cut--) {
+      const split =
+        this.redact(text.slice(0, cut), context) +
+        this.redact(text.slice(cut), context);
+      if (split === whole) {
+        return cut;
+      }
+    }
+
+    // Overlapping matches: hold everything, unless the buffer keeps growing
+    return text.length > this.holdback * 4 ? latest : 0;
+  }
+}
+
+/**
+ * Whether a value is a plain object.
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Luhn checksum used by card numbers.
+ */
+function passesLuhnCheck(match: string): boolean {
+  const digits = match.replace(/\D/g, "");
+  let sum = 0;
+
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+}
@@ -1,3 +1,5 @@
+import { createConsoleLogger, type Logger } from "../logging/logger";
+import { redactMessage, type MessageRedactor } from "./message-redaction";
 import type { LangGraphMessage } from "../runner/types";
 
 /**
@@ -50,12 +52,26 @@ export function extractContent(
  *
  * Based on the `ut` function from @ag-ui/langgraph but adapted
  * for standalone use.
+ *
+ * @param options.redact - Redacts message content and tool call arguments
+ * @param options.dropSystemMessages - Leaves out system messages
  */
 export function transformMessages(
   messages: LangGraphMessage[],
-  options?: { debug?: boolean }
+  options?: {
+    debug?: boolean;
+    logger?: Logger;
+    redact?: MessageRedactor;
+    dropSystemMessages?: boolean;
+  }
 ): TransformedMessage[] {
   const result: TransformedMessage[] = [];
+  const logger =
+    options?.logger ??
+    createConsoleLogger({
+      prefix: "HistoryHydratingRunner",
+      debug: options?.debug,
+    });
 
   for (const msg of messages) {
     try {
@@ -112,24 +128,30 @@ export function transformMessages(
         }
 
         default:
-          if (options?.debug) {
-            console.warn(
-              `[HistoryHydratingRunner] Unknown message type: ${(msg as LangGraphMessage).type}`
-            );
-          }
+          logger.debug(
+            {
+              messageId: (msg as LangGraphMessage).id,
+              messageType: (msg as LangGraphMessage).type,
+            },
+            "Unknown message type"
+          );
       }
 
-      if (transformed) {
-        result.push(transformed);
-      }
-    } catch (error) {
-      if (options?.debug) {
-        console.warn(
-          "[HistoryHydratingRunner] Failed to transform message:",
-          msg,
-          error
+      if (
+        transformed &&
+        !(options?.dropSystemMessages && transformed.role === "system")
+      ) {
+        result.push(
+          options?.redact
+            ? redactMessage(transformed, options.redact)
+            : transformed
         );
       }
+    } catch (error) {
+      logger.debug(
+        { messageId: msg.id, messageType: msg.type, err: error },
+        "Failed to transform message"
+      );
     }
   }
 
@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { withRetry } from "./retry";
+import {
+  DeploymentUnreachableError,
+  ThreadNotFoundError,
+  type LangGraphRequestError,
+} from "../errors/langgraph-errors";
+import { DEFAULT_RETRY_POLICY } from "../runner/constants";
+
+const policy = {
+  ...DEFAULT_RETRY_POLICY,
+  initialDelayMs: 1,
+  jitter: false,
+};
+
+function httpError(status: number): Error {
+  return Object.assign(new Error(`HTTP ${status}`), { status });
+}
+
+describe("withRetry", () => {
+  it("retries retryable failures with backoff until one succeeds", async () => {
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(httpError(429))
+      .mockResolvedValue("ok");
+    const onRetry = vi.fn();
+
+    const result = await withRetry(fn, policy, {
+      operation: "getState",
+      idempotent: true,
+      threadId: "t1",
+      onRetry,
+    });
+
+    expect(result).toBe("ok");
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(
+      onRetry.mock.calls.map(([error, attempt, delayMs]) => [
+        (error as LangGraphRequestError).code,
+        attempt,
+        delayMs,
+      ])
+    ).toEqual([
+      ["DEPLOYMENT_UNREACHABLE", 1, 1],
+      ["LANGGRAPH_REQUEST_FAILED", 2, 2],
+    ]);
+  });
+
+  it("gives up after maxAttempts with a typed error", async () => {
+    const fn = vi.fn().mockRejectedValue(httpError(503));
+
+    await expect(
+      withRetry(fn, policy, { operation: "getState", idempotent: true })
+    ).rejects.toBeInstanceOf(DeploymentUnreachableError);
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it("retries network failures", async () => {
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValue("ok");
+
+    await withRetry(fn, policy, { operation: "getState", idempotent: true });
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't retry failures outside retryableStatusCodes", async () => {
+    const fn = vi.fn().mockRejectedValue(httpError(404));
+
+    await expect(
+      withRetry(fn, policy, {
+        operation: "getState",
+        idempotent: true,
+        threadId: "t1",
+      })
+    ).rejects.toBeInstanceOf(ThreadNotFoundError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("attempts calls that aren't idempotent once", async () => {
+    const fn = vi.fn().mockRejectedValue(httpError(503));
+
+    await expect(
+      withRetry(fn, policy, { operation: "cancelRun", idempotent: false })
+    ).rejects.toBeInstanceOf(DeploymentUnreachableError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
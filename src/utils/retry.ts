@@ -0,0 +1,82 @@
+import type { RetryPolicy } from "../runner/types";
+import {
+  DeploymentUnreachableError,
+  toLangGraphRequestError,
+  type LangGraphRequestError,
+  type LangGraphResource,
+} from "../errors/langgraph-errors";
+import { getBackoffDelay, sleep } from "./backoff";
+
+/**
+ * Per-call options of a LangGraph API call.
+ */
+export interface RequestOptions {
+  /**
+   * Whether the call may be repeated safely. Writes that create, fork,
+   * copy, delete or cancel are not, and are attempted once.
+   * Default: true
+   */
+  idempotent?: boolean;
+
+  /**
+   * What a 404 means was not found.
+   * Default: "thread"
+   */
+  resource?: LangGraphResource;
+}
+
+/**
+ * Calls a LangGraph API function, retrying failures allowed by the policy.
+ * Errors are converted to typed errors (see toLangGraphRequestError).
+ *
+ * Only idempotent calls are retried: repeating a write whose response was
+ * lost (e.g. after a timeout) could apply it twice, or fail because the
+ * first attempt already succeeded.
+ *
+ * @param fn - The API call
+ * @param policy - Retry policy with all fields set
+ * @param context.operation - Name of the call, used in error messages
+ * @param context.idempotent - Whether the call may be repeated safely
+ * @param context.threadId - Thread the call is made for
+ * @param context.resource - What a 404 means was not found
+ * @param context.onRetry - Called before waiting for the next attempt
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  policy: Required<RetryPolicy>,
+  context: {
+    operation: string;
+    idempotent: boolean;
+    threadId?: string;
+    resource?: LangGraphResource;
+    onRetry?: (
+      error: LangGraphRequestError,
+      attempt: number,
+      delayMs: number
+    ) => void;
+  }
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (rawError) {
+      const error = toLangGraphRequestError(rawError, context);
+      const retryable =
+        error.status !== undefined
+          ? policy.retryableStatusCodes.includes(error.status)
+          : error instanceof DeploymentUnreachableError;
+
+      if (
+        !context.idempotent ||
+        !retryable ||
+        attempt >= policy.maxAttempts
+      ) {
+        throw error;
+      }
+
+      const delayMs = getBackoffDelay(attempt, policy);
+      context.onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs);
+    }
+  }
+}
@@ -0,0 +1,220 @@
+import { type BaseEvent, EventType } from "@ag-ui/core";
+import { describe, expect, it } from "vitest";
+
+import { applyEventMiddleware } from "./event-middleware";
+import {
+  createStateProjectionMiddleware,
+  createStateProjector,
+} from "./state-projection";
+import { processStreamChunk } from "./stream-processor";
+import { STATE_TRUNCATED_KEY } from "../runner/constants";
+
+const context = { source: "run", threadId: "t1" } as const;
+
+const state = {
+  plan: { steps: ["a"], draft: "internal" },
+  credentials: "secret",
+  messages: [],
+};
+
+function event(type: EventType, fields: Record<string, unknown>): BaseEvent {
+  return { type, timestamp: 1, ...fields } as BaseEvent;
+}
+
+function projectEvent(
+  input: BaseEvent,
+  options = { exclude: ["credentials", "plan.draft"] }
+): Array<Record<string, unknown>> {
+  return applyEventMiddleware(
+    input,
+    [createStateProjectionMiddleware(options)],
+    context
+  ) as unknown as Array<Record<string, unknown>>;
+}
+
+describe("createStateProjector", () => {
+  it("applies include, exclude and project in order", () => {
+    const project = createStateProjector({
+      include: ["plan", "credentials"],
+      exclude: ["plan.draft"],
+      project: (projected, { source }) => ({ ...projected, source }),
+    });
+
+    expect(project(state, context)).toEqual({
+      plan: { steps: ["a"] },
+      credentials: "secret",
+      source: "run",
+    });
+    // The source state is never mutated
+    expect(state.plan.draft).toBe("internal");
+  });
+
+  it("truncates the largest keys over maxBytes", () => {
+    const project = createStateProjector({ maxBytes: 40 });
+
+    expect(project({ big: "x".repeat(100), small: 1 }, context)).toEqual({
+      small: 1,
+      [STATE_TRUNCATED_KEY]: ["big"],
+    });
+  });
+
+  it("skips snapshots over maxBytes with overflow skip", () => {
+    const project = createStateProjector({ maxBytes: 10, overflow: "skip" });
+
+    expect(project({ big: "x".repeat(100) }, context)).toBeUndefined();
+  });
+});
+
+describe("createStateProjectionMiddleware", () => {
+  const projected = { plan: { steps: ["a"] }, messages: [] };
+
+  it("projects snapshots and the data of their rawEvent", () => {
+    expect(
+      projectEvent(
+        event(EventType.STATE_SNAPSHOT, {
+          snapshot: state,
+          rawEvent: { id: "r1", event: "values", data: state },
+        })
+      )
+    ).toEqual([
+      {
+        type: EventType.STATE_SNAPSHOT,
+        timestamp: 1,
+        snapshot: projected,
+        rawEvent: { id: "r1", event: "values", data: projected },
+      },
+    ]);
+  });
+
+  it("projects each node of updates snapshots", () => {
+    expect(
+      projectEvent(
+        event(EventType.STATE_SNAPSHOT, {
+          snapshot: { agent: state },
+          rawEvent: { event: "updates", data: { agent: state } },
+        })
+      )
+    ).toEqual([
+      {
+        type: EventType.STATE_SNAPSHOT,
+        timestamp: 1,
+        snapshot: { agent: projected },
+        rawEvent: { event: "updates", data: { agent: projected } },
+      },
+    ]);
+  });
+
+  it("removes rawEvent from snapshots of other sources", () => {
+    const [output] = projectEvent(
+      event(EventType.STATE_SNAPSHOT, {
+        snapshot: state,
+        rawEvent: { event: "events", data: { event: "on_chain_end" } },
+      })
+    );
+
+    expect(output).toEqual({
+      type: EventType.STATE_SNAPSHOT,
+      timestamp: 1,
+      snapshot: projected,
+    });
+  });
+
+  it("projects RAW chain events of run()", () => {
+    expect(
+      projectEvent(
+        event(EventType.RAW, {
+          event: {
+            event: "on_chain_end",
+            name: "agent",
+            data: { input: state, output: state },
+          },
+        })
+      )
+    ).toEqual([
+      {
+        type: EventType.RAW,
+        timestamp: 1,
+        event: {
+          event: "on_chain_end",
+          name: "agent",
+          data: { input: projected, output: projected },
+        },
+      },
+    ]);
+  });
+
+  it("removes chain states the projector drops", () => {
+    const [output] = projectEvent(
+      event(EventType.RAW, {
+        event: { event: "on_chain_end", data: { output: state } },
+      }),
+      { project: () => undefined } as never
+    );
+
+    expect(output).toEqual({
+      type: EventType.RAW,
+      timestamp: 1,
+      event: { event: "on_chain_end", data: {} },
+    });
+  });
+
+  it("leaves events without state unchanged", () => {
+    const input = event(EventType.RAW, {
+      event: { event: "on_chat_model_stream", data: { chunk: "Hi" } },
+    });
+
+    expect(projectEvent(input)).toEqual([input]);
+  });
+
+  it("projects the state emitted by manually_emit_state", () => {
+    expect(
+      projectEvent(
+        event(EventType.CUSTOM, {
+          name: "manually_emit_state",
+          value: state,
+          rawEvent: { event: "on_custom_event", data: state },
+        })
+      )
+    ).toEqual([
+      {
+        type: EventType.CUSTOM,
+        timestamp: 1,
+        name: "manually_emit_state",
+        value: projected,
+      },
+    ]);
+  });
+
+  it("projects every event of a joined chain event", async () => {
+    const emitted: BaseEvent[] = [];
+
+    await processStreamChunk(
+      {
+        event: "events",
+        data: {
+          event: "on_chain_end",
+          name: "agent",
+          run_id: "run-1",
+          data: { output: state },
+        },
+      },
+      {
+        threadId: "t1",
+        runId: "r1",
+        subscriber: { next: (output) => emitted.push(output) },
+      }
+    );
+    const output = emitted.flatMap((input) => projectEvent(input));
+
+    expect(output.map((e) => e["type"])).toEqual([EventType.CUSTOM]);
+    expect(output[0]).toEqual({
+      type: EventType.CUSTOM,
+      timestamp: expect.any(Number),
+      threadId: "t1",
+      runId: "r1",
+      name: "on_chain_end",
+      value: JSON.stringify({ output: projected }),
+    });
+    expect(JSON.stringify(output)).not.toContain("secret");
+  });
+});
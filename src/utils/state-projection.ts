@@ -0,0 +1,377 @@
+import { type BaseEvent, EventType } from "@ag-ui/core";
+import { STATE_TRUNCATED_KEY } from "../runner/constants";
+import type { StateProjectionOptions } from "../runner/types";
+import type {
+  EventMiddleware,
+  EventMiddlewareContext,
+} from "./event-middleware";
+
+/**
+ * Projects a state snapshot for the client. Returns undefined when the
+ * snapshot should not be sent.
+ */
+export type StateProjector = (
+  state: Record<string, unknown>,
+  context: EventMiddlewareContext
+) => Record<string, unknown> | undefined;
+
+/**
+ * Creates a projector applying `include`, `exclude`, `project` and
+ * `maxBytes`, in that order.
+ */
+export function createStateProjector(
+  options: StateProjectionOptions
+): StateProjector {
+  return (state, context) => {
+    let projected: Record<string, unknown> | undefined = state;
+
+    if (options.include) {
+      projected = pickPaths(projected, options.include);
+    }
+    if (options.exclude) {
+      projected = omitPaths(projected, options.exclude);
+    }
+    if (options.project) {
+      projected = options.project(projected, context);
+      if (!projected) {
+        return undefined;
+      }
+    }
+    if (options.maxBytes !== undefined) {
+      projected = limitSize(
+        projected,
+        options.maxBytes,
+        options.overflow ?? "truncate"
+      );
+    }
+
+    return projected;
+  };
+}
+
+/**
+ * LangChain events of graph and node runs. Their `data.input`,
+ * `data.output` and `data.chunk` hold graph state.
+ */
+const CHAIN_EVENTS = new Set([
+  "on_chain_start",
+  "on_chain_stream",
+  "on_chain_end",
+]);
+
+/**
+ * Custom events whose value is the state emitted by a node.
+ */
+const STATE_CUSTOM_EVENTS = new Set(["manually_emit_state"]);
+
+/**
+ * Creates event middleware that projects the state in every event:
+ *
+ * - STATE_SNAPSHOT snapshots. `updates` snapshots map node names to each
+ *   node's update, so each update is projected separately.
+ * - the state in the `data` of RAW chain events, and of the CUSTOM copies
+ *   of them made for joined streams.
+ * - the value of `manually_emit_state` CUSTOM events.
+ *
+ * `rawEvent` carries the unprojected source of an event: its `data` is
+ * replaced with the projection for LangGraph `values` and `updates` stream
+ * events, and it is removed from every other projected event and from
+ * events whose source is a chain event.
+ */
+export function createStateProjectionMiddleware(
+  options: StateProjectionOptions
+): EventMiddleware {
+  const project = createStateProjector(options);
+
+  return (event, context) => {
+    const data = event as BaseEvent & {
+      snapshot?: unknown;
+      rawEvent?: unknown;
+      event?: unknown;
+      data?: unknown;
+      name?: unknown;
+      value?: unknown;
+    };
+    const { rawEvent, ...rest } = data;
+
+    switch (event.type) {
+      case EventType.STATE_SNAPSHOT:
+        return projectSnapshotEvent(data, project, context);
+
+      case EventType.RAW:
+        // Joined streams flatten the LangChain event into the RAW event;
+        // run() nests it under `event`
+        if (isPlainObject(data.event)) {
+          return CHAIN_EVENTS.has(String(data.event["event"]))
+            ? ({
+                ...rest,
+                event: {
+                  ...data.event,
+                  data: projectChainData(data.event["data"], project, context),
+                },
+              } as BaseEvent)
+            : undefined;
+        }
+        return CHAIN_EVENTS.has(String(data.event))
+          ? ({
+              ...rest,
+              data: projectChainData(data.data, project, context),
+            } as BaseEvent)
+          : undefined;
+
+      case EventType.CUSTOM: {
+        const name = String(data.name);
+        if (CHAIN_EVENTS.has(name)) {
+          return {
+            ...rest,
+            value: projectChainValue(data.value, project, context),
+          } as BaseEvent;
+        }
+        if (STATE_CUSTOM_EVENTS.has(name) && isPlainObject(data.value)) {
+          const value = project(data.value, context);
+          return value ? ({ ...rest, value } as BaseEvent) : null;
+        }
+        return isChainEvent(rawEvent) ? (rest as BaseEvent) : undefined;
+      }
+
+      default:
+        return isChainEvent(rawEvent) ? (rest as BaseEvent) : undefined;
+    }
+  };
+}
+
+/**
+ * Projects a STATE_SNAPSHOT event, or returns null to drop it.
+ */
+function projectSnapshotEvent(
+  event: BaseEvent & { snapshot?: unknown; rawEvent?: unknown },
+  project: StateProjector,
+  context: EventMiddlewareContext
+): BaseEvent | null | undefined {
+  const { snapshot, rawEvent, ...rest } = event;
+  if (!isPlainObject(snapshot)) {
+    return undefined;
+  }
+
+  const raw = isPlainObject(rawEvent) ? rawEvent : undefined;
+  let projected: Record<string, unknown> | undefined;
+
+  if (raw?.["event"] === "updates") {
+    projected = {};
+    for (const [node, update] of Object.entries(snapshot)) {
+      const nodeState = isPlainObject(update)
+        ? project(update, context)
+        : update;
+      if (nodeState !== undefined) {
+        projected[node] = nodeState;
+      }
+    }
+    if (Object.keys(projected).length === 0) {
+      return null;
+    }
+  } else {
+    projected = project(snapshot, context);
+    if (!projected) {
+      return null;
+    }
+  }
+
+  const isStreamEvent =
+    raw !== undefined &&
+    (raw["event"] === "values" || raw["event"] === "updates") &&
+    "data" in raw;
+
+  return {
+    ...rest,
+    snapshot: projected,
+    ...(isStreamEvent ? { rawEvent: { ...raw, data: projected } } : {}),
+  } as BaseEvent;
+}
+
+/**
+ * Projects the state in the `data` of a chain event. States the projector
+ * drops are removed.
+ */
+function projectChainData(
+  data: unknown,
+  project: StateProjector,
+  context: EventMiddlewareContext
+): unknown {
+  if (!isPlainObject(data)) {
+    return data;
+  }
+
+  const result = { ...data };
+  for (const key of ["input", "output", "chunk"]) {
+    const state = data[key];
+    if (!isPlainObject(state)) {
+      continue;
+    }
+    const projected = project(state, context);
+    if (projected) {
+      result[key] = projected;
+    } else {
+      delete result[key];
+    }
+  }
+  return result;
+}
+
+/**
+ * Projects the JSON-encoded chain event data of a CUSTOM copy.
+ */
+function projectChainValue(
+  value: unknown,
+  project: StateProjector,
+  context: EventMiddlewareContext
+): unknown {
+  if (typeof value !== "string") {
+    return projectChainData(value, project, context);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return value;
+  }
+  return JSON.stringify(projectChainData(parsed, project, context));
+}
+
+/**
+ * Checks whether a `rawEvent` is a chain event: a LangChain event, a RAW
+ * event of a joined stream, or a run() stream chunk wrapping one.
+ */
+function isChainEvent(rawEvent: unknown): boolean {
+  if (!isPlainObject(rawEvent)) {
+    return false;
+  }
+  return (
+    CHAIN_EVENTS.has(String(rawEvent["event"])) ||
+    (isPlainObject(rawEvent["data"]) &&
+      CHAIN_EVENTS.has(String(rawEvent["data"]["event"])))
+  );
+}
+
+/**
+ * Checks whether a value is a plain object (not an array or null).
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Keeps only the given dot paths of a state object.
+ */
+function pickPaths(
+  state: Record<string, unknown>,
+  paths: string[]
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const path of paths) {
+    const keys = path.split(".");
+
+    let value: unknown = state;
+    let found = true;
+    for (const key of keys) {
+      if (!isPlainObject(value) || !(key in value)) {
+        found = false;
+        break;
+      }
+      value = value[key];
+    }
+    if (!found) {
+      continue;
+    }
+
+    // Copy each object along the path so the source state is never mutated
+    let target = result;
+    for (const key of keys.slice(0, -1)) {
+      const existing = target[key];
+      const copy = isPlainObject(existing) ? { ...existing } : {};
+      target[key] = copy;
+      target = copy;
+    }
+    target[keys[keys.length - 1]!] = value;
+  }
+
+  return result;
+}
+
+/**
+ * Removes the given dot paths from a state object without mutating it.
+ */
+function omitPaths(
+  state: Record<string, unknown>,
+  paths: string[]
+): Record<string, unknown> {
+  return paths.reduce(
+    (current, path) => omitPath(current, path.split(".")),
+    state
+  );
+}
+
+/**
+ * Removes one path, copying the objects along it.
+ */
+function omitPath(
+  state: Record<string, unknown>,
+  keys: string[]
+): Record<string, unknown> {
+  const [key, ...rest] = keys;
+  if (key === undefined || !(key in state)) {
+    return state;
+  }
+
+  if (rest.length === 0) {
+    const copy = { ...state };
+    delete copy[key];
+    return copy;
+  }
+
+  const child = state[key];
+  return isPlainObject(child)
+    ? { ...state, [key]: omitPath(child, rest) }
+    : state;
+}
+
+/**
+ * Size of a value in bytes of UTF-8 encoded JSON.
+ */
+function byteLength(value: unknown): number {
+  return Buffer.byteLength(JSON.stringify(value) ?? "", "utf8");
+}
+
+/**
+ * Enforces `maxBytes` by dropping the snapshot or its largest top-level keys.
+ */
+function limitSize(
+  state: Record<string, unknown>,
+  maxBytes: number,
+  overflow: "truncate" | "skip"
+): Record<string, unknown> | undefined {
+  if (byteLength(state) <= maxBytes) {
+    return state;
+  }
+  if (overflow === "skip") {
+    return undefined;
+  }
+
+  const largestFirst = Object.keys(state)
+    .map((key) => ({ key, size: byteLength(state[key]) }))
+    .sort((a, b) => b.size - a.size);
+
+  const truncated = { ...state };
+  const removed: string[] = [];
+  for (const { key } of largestFirst) {
+    delete truncated[key];
+    removed.push(key);
+    const size = byteLength({ ...truncated, [STATE_TRUNCATED_KEY]: removed });
+    if (size <= maxBytes) {
+      break;
+    }
+  }
+
+  return { ...truncated, [STATE_TRUNCATED_KEY]: removed };
+}
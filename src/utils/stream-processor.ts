@@ -9,6 +9,8 @@ import type {
 } from "@langchain/langgraph-sdk";
 import { CustomEventNames } from "../events/custom-events";
 import { LangGraphEventTypes } from "../events/langgraph-events";
+import { createConsoleLogger, type Logger } from "../logging/logger";
+import type { StreamRedactor } from "./message-redaction";
 import type { PredictStateTool } from "../runner/types";
 
 /**
@@ -21,7 +23,76 @@ export interface StreamProcessorContext {
   startedMessages?: Set<string>;
   startedToolCalls?: Set<string>;
   debug?: boolean;
+  /**
+   * Logger for stream diagnostics. Defaults to a console logger that only
+   * prints when `debug` is enabled.
+   */
+  logger?: Logger;
+  /**
+   * Redacts message and tool call deltas before they are emitted. Use one
+   * instance per stream.
+   */
+  redactor?: StreamRedactor;
   manuallyEmittedState?: Record<string, unknown>;
+  /**
+   * Skips events already reflected in the hydrated snapshot when a run's
+   * stream is replayed from the start.
+   */
+  replayFilter?: ReplayFilter;
+}
+
+/**
+ * What the hydrated snapshot already contains, used to de-duplicate a
+ * replayed stream against it.
+ */
+export interface ReplayFilter {
+  /**
+   * Superstep of the hydrated checkpoint. Events of this step or earlier
+   * are already part of the snapshot.
+   */
+  snapshotStep?: number;
+
+  /**
+   * IDs of the messages in the hydrated snapshot.
+   */
+  messageIds: Set<string>;
+}
+
+/**
+ * Checks whether a streamed message is already in the snapshot.
+ * Chat model events are keyed by their callback run ID, which LangChain
+ * stores as `run-<id>` or `lc_run--<id>` on the final message.
+ */
+function isSnapshotMessage(messageId: string, filter: ReplayFilter): boolean {
+  return (
+    filter.messageIds.has(messageId) ||
+    filter.messageIds.has(`run-${messageId}`) ||
+    filter.messageIds.has(`lc_run--${messageId}`)
+  );
+}
+
+/**
+ * Checks whether a LangChain event was produced before the snapshot.
+ */
+function isReplayedEvent(
+  eventsData: EventsStreamEvent["data"],
+  filter: ReplayFilter
+): boolean {
+  const step = (eventsData.metadata as { langgraph_step?: unknown } | undefined)
+    ?.langgraph_step;
+  if (
+    typeof step === "number" &&
+    filter.snapshotStep !== undefined &&
+    step <= filter.snapshotStep
+  ) {
+    return true;
+  }
+
+  return (
+    eventsData.event.startsWith("on_chat_model_") &&
+    !!eventsData.run_id &&
+    isSnapshotMessage(eventsData.run_id, filter)
+  );
 }
 
 /**
@@ -47,8 +118,26 @@ export async function processStreamChunk(
 ): Promise<{ runId: string; manuallyEmittedState?: Record<string, unknown> }> {
   const { event, data } = chunk;
   let { runId } = context;
-  const { threadId, subscriber, startedMessages, startedToolCalls, debug } =
-    context;
+  const {
+    threadId,
+    redactor,
+    startedMessages,
+    startedToolCalls,
+    debug,
+    replayFilter,
+  } = context;
+  const subscriber = redactor
+    ? {
+        next: (event: BaseEvent) => {
+          for (const redacted of redactor.process(event)) {
+            context.subscriber.next(redacted);
+          }
+        },
+      }
+    : context.subscriber;
+  const logger =
+    context.logger ??
+    createConsoleLogger({ prefix: "HistoryHydratingRunner", debug });
   let manuallyEmittedState = context.manuallyEmittedState;
 
   // Handle different event types
@@ -67,6 +156,11 @@ export async function processStreamChunk(
       // LangChain events (on_chat_model_stream, on_tool_start, etc.)
       const eventsData = data as EventsStreamEvent["data"];
 
+      // Replayed from the start of the run, but already in the snapshot
+      if (replayFilter && isReplayedEvent(eventsData, replayFilter)) {
+        break;
+      }
+
       // First, emit the RAW event - CopilotKit processes these for intermediate state
       const rawEvent: BaseEvent = {
         type: "RAW" as unknown as BaseEvent["type"],
@@ -376,6 +470,18 @@ export async function processStreamChunk(
       // Custom events emitted from within nodes
       const customData = data as CustomStreamEvent<unknown>["data"];
 
+      // Manually emitted messages already in the snapshot
+      const emittedMessageId = (
+        customData as { value?: { message_id?: unknown } } | undefined
+      )?.value?.message_id;
+      if (
+        replayFilter &&
+        typeof emittedMessageId === "string" &&
+        isSnapshotMessage(emittedMessageId, replayFilter)
+      ) {
+        break;
+      }
+
       // Handle CopilotKit-specific custom events
       const result = handleCustomEvent(
         customData,
@@ -392,12 +498,15 @@ export async function processStreamChunk(
       // Error events
       const errorData = data as ErrorStreamEvent["data"];
 
-      if (debug) {
-        console.error(
-          "[HistoryHydratingRunner] Stream error:",
-          errorData.message
-        );
-      }
+      logger.debug(
+        {
+          threadId,
+          runId,
+          error: errorData.error,
+          errorMessage: errorData.message,
+        },
+        "Stream error"
+      );
 
       subscriber.next({
         type: "CUSTOM" as unknown as BaseEvent["type"],
@@ -417,12 +526,7 @@ export async function processStreamChunk(
 
     default: {
       // Log unknown events for debugging
-      if (debug) {
-        console.log(
-          `[HistoryHydratingRunner] Unhandled event type: ${event}`,
-          data
-        );
-      }
+      logger.debug({ threadId, runId, event, data }, "Unhandled event type");
     }
   }
 